@@ -1,13 +1,134 @@
-import React, { useState, useCallback } from 'react';
-import { Zap, Layers, Image as ImageIcon, Music, CheckCircle } from 'lucide-react';
-import { AppState, AppStep, DEFAULT_STATE, StylePreset } from './types';
-import { STYLE_PRESETS } from './constants';
+import React, { useState, useCallback, useRef, useEffect } from 'react';
+import { Zap, Layers, Image as ImageIcon, Music, CheckCircle, Save, FolderOpen, AlertTriangle, X } from 'lucide-react';
+import { AppState, AppStep, DEFAULT_STATE, GeneratedFrame, GenerationEvent, GenerationRun, PlannedMove, PoseType, StylePreset } from './types';
+import { MAX_HISTORY_RUNS } from './constants';
 import { Step1Image, Step2Audio, Step3Config } from './components/Steps';
 import { Step4Preview } from './components/Step4Preview';
-import { generateDanceFrames, fileToGenericBase64 } from './services/gemini';
+import { ProjectLibrary } from './components/ProjectLibrary';
+import { PlanEditor } from './components/PlanEditor';
+import { fileToGenericBase64 } from './services/gemini';
+import { GenerationRequest, applyGenerationEvent, generateDanceFrames, planDanceSequence, regenerateFrame, renumberPlan, resolveFrameGenerator } from './services/frameGenerator';
+import { errorMessage } from './services/jobRunner';
+import { alignToBase } from './services/frameAlign';
+import { segmentFrames } from './services/segmentation';
+import { analyzeTrack } from './services/audioAnalysis';
+import { createSceneLayer } from './services/sceneLayers';
+import { hasAudioSource } from './services/liveInput';
+import { conformToAspect, findOutputPreset, hasSameAspect } from './services/outputFormat';
+import { BUNDLE_EXTENSION, LoadedProject, exportProjectBundle, importProjectBundle } from './services/projectBundle';
+import { ProjectSummary, createProjectId, deleteProject, reachableStep, listProjects, loadProject, saveProject } from './services/projectLibrary';
+import { downloadBlob } from './services/exporter';
+import { STYLE_FILE_EXTENSION, deleteCustomStyle, exportStyles, findStyle, importStyles, listCustomStyles, renderStyleThumbnail, saveCustomStyles } from './services/styleLibrary';
+
+const AUTOSAVE_DELAY_MS = 800;
+
+const appendRun = (history: GenerationRun[], run: GenerationRun) => [...history, run].slice(-MAX_HISTORY_RUNS);
+
+const createRun = (kind: GenerationRun['kind'], generatorId: string, frames: GenerationRun['frames']): GenerationRun => ({
+  id: `run-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+  createdAt: Date.now(),
+  kind,
+  generatorId,
+  frames,
+});
 
 const App: React.FC = () => {
   const [appState, setAppState] = useState<AppState>(DEFAULT_STATE);
+  const [projectError, setProjectError] = useState<string | null>(null);
+  const projectInputRef = useRef<HTMLInputElement>(null);
+
+  // Library / autosave
+  const [view, setView] = useState<'library' | 'editor'>('library');
+  const [projects, setProjects] = useState<ProjectSummary[]>([]);
+  const [isLoadingLibrary, setIsLoadingLibrary] = useState(true);
+  const projectIdRef = useRef<string | null>(null);
+  const autosaveTimerRef = useRef<number | null>(null);
+  const generationAbortRef = useRef<AbortController | null>(null);
+  const layerAbortRef = useRef<AbortController | null>(null);
+
+  const refreshLibrary = useCallback(async () => {
+    try {
+      setProjects(await listProjects());
+    } catch (e) {
+      console.warn("Project library unavailable:", e);
+    } finally {
+      setIsLoadingLibrary(false);
+    }
+  }, []);
+
+  useEffect(() => { refreshLibrary(); }, [refreshLibrary]);
+
+  useEffect(() => {
+    listCustomStyles()
+      .then(customStyles => setAppState(prev => ({ ...prev, customStyles })))
+      .catch(e => console.warn("Style library unavailable:", e));
+  }, []);
+
+  const persist = useCallback(async (state: AppState) => {
+    if (!projectIdRef.current) projectIdRef.current = createProjectId();
+    try {
+      await saveProject(projectIdRef.current, state);
+    } catch (e) {
+      console.warn("Autosave failed:", e);
+    }
+  }, []);
+
+  // Autosave once there is something worth keeping. Skipped mid-generation,
+  // the finished frames trigger the next save.
+  useEffect(() => {
+    if (view !== 'editor' || !appState.imageFile || appState.isGenerating) return;
+    autosaveTimerRef.current = window.setTimeout(() => {
+      autosaveTimerRef.current = null;
+      persist(appState);
+    }, AUTOSAVE_DELAY_MS);
+    return () => {
+      if (autosaveTimerRef.current !== null) window.clearTimeout(autosaveTimerRef.current);
+    };
+  }, [appState, view, persist]);
+
+  const openEditor = (project: LoadedProject | null, step: AppStep, projectId: string | null) => {
+    projectIdRef.current = projectId;
+    setProjectError(null);
+    setAppState(prev => project
+      ? { ...DEFAULT_STATE, credits: prev.credits, customStyles: prev.customStyles, ...project, step: Math.min(step, reachableStep(project)) }
+      : { ...DEFAULT_STATE, credits: prev.credits, customStyles: prev.customStyles });
+    setView('editor');
+
+    // Projects saved before analysis finished carry no beat grid
+    if (project?.audioPreviewUrl && !project.audioAnalysis) analyzeAudio(project.audioPreviewUrl);
+  };
+
+  const handleNewProject = () => openEditor(null, AppStep.UPLOAD_IMAGE, null);
+
+  const handleResumeProject = async (id: string, step: AppStep) => {
+    try {
+      openEditor(await loadProject(id), step, id);
+    } catch (e) {
+      console.error("Project load failed:", e);
+      setProjectError(e instanceof Error ? e.message : "Could not open the project.");
+    }
+  };
+
+  const handleDeleteProject = async (id: string) => {
+    if (!window.confirm("Delete this project from the library?")) return;
+    try {
+      await deleteProject(id);
+    } catch (e) {
+      console.error("Project delete failed:", e);
+    }
+    refreshLibrary();
+  };
+
+  const showLibrary = async () => {
+    // Flush a pending autosave so the list is current
+    if (autosaveTimerRef.current !== null && !appState.isGenerating) {
+      window.clearTimeout(autosaveTimerRef.current);
+      autosaveTimerRef.current = null;
+      await persist(appState);
+    }
+    setView('library');
+    refreshLibrary();
+  };
 
   const handleImageUpload = async (file: File) => {
     const previewUrl = await fileToGenericBase64(file);
@@ -15,48 +136,358 @@ const App: React.FC = () => {
       ...prev,
       imageFile: file,
       imagePreviewUrl: previewUrl,
-      generatedFrames: [] 
+      directorPlan: null, // Written for the old subject
+      generatedFrames: [],
+      generationHistory: [],
+      frameJobs: []
     }));
   };
 
-  const handleAudioUpload = async (file: File) => {
+  const handleAudioUpload = async (file: File | null) => {
+    if (!file) {
+      setAppState(prev => ({ ...prev, audioFile: null, audioPreviewUrl: null, audioAnalysis: null, audioRegion: null, isAnalyzingAudio: false }));
+      return;
+    }
+
     const previewUrl = URL.createObjectURL(file);
     setAppState(prev => ({
       ...prev,
       audioFile: file,
-      audioPreviewUrl: previewUrl
+      audioPreviewUrl: previewUrl,
+      audioAnalysis: null,
+      audioRegion: null // Bars of the old track do not apply
     }));
+    analyzeAudio(previewUrl);
+  };
+
+  // Replacement image or video behind segmented frames
+  const handleBackgroundUpload = (file: File | null) => {
+    setAppState(prev => {
+      if (prev.backgroundPreviewUrl) URL.revokeObjectURL(prev.backgroundPreviewUrl);
+      return { ...prev, backgroundFile: file, backgroundPreviewUrl: file ? URL.createObjectURL(file) : null };
+    });
+  };
+
+  const handleStyleReferenceUpload = async (file: File | null) => {
+    const url = file ? await fileToGenericBase64(file) : null;
+    setAppState(prev => ({ ...prev, styleReferenceFile: file, styleReferenceUrl: url }));
+  };
+
+  // Pre-analyse tempo and beat grid for the choreography
+  const analyzeAudio = async (previewUrl: string) => {
+    setAppState(prev => ({ ...prev, isAnalyzingAudio: true }));
+    try {
+      const analysis = await analyzeTrack(previewUrl);
+      setAppState(prev => prev.audioPreviewUrl === previewUrl
+        ? { ...prev, audioAnalysis: analysis, isAnalyzingAudio: false }
+        : prev);
+    } catch (e) {
+      console.warn("Audio analysis failed, falling back to live beat detection", e);
+      setAppState(prev => prev.audioPreviewUrl === previewUrl ? { ...prev, isAnalyzingAudio: false } : prev);
+    }
+  };
+
+  const handleSaveProject = async () => {
+    try {
+      const blob = await exportProjectBundle(appState);
+      downloadBlob(blob, `RhythmLoop_${Date.now()}.${BUNDLE_EXTENSION}`);
+    } catch (e) {
+      console.error("Project save failed:", e);
+      setProjectError("Could not save the project.");
+    }
+  };
+
+  const handleOpenProject = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      // An opened bundle becomes a new library entry
+      openEditor(await importProjectBundle(file), AppStep.PREVIEW, null);
+    } catch (err) {
+      console.error("Project load failed:", err);
+      setProjectError(err instanceof Error ? err.message : "Could not open the project.");
+    }
   };
 
   const updateConfig = (key: string, value: any) => {
     setAppState(prev => ({ ...prev, [key]: value }));
   };
 
+  // --- Custom styles ---
+
+  const handleSaveStyle = async (preset: StylePreset) => {
+    await saveCustomStyles([preset]);
+    setAppState(prev => ({
+      ...prev,
+      customStyles: [...prev.customStyles.filter(s => s.id !== preset.id), preset],
+      selectedStyleId: preset.id,
+    }));
+  };
+
+  const handleDeleteStyle = async (id: string) => {
+    if (!window.confirm("Delete this style from your library?")) return;
+    try {
+      await deleteCustomStyle(id);
+      setAppState(prev => ({
+        ...prev,
+        customStyles: prev.customStyles.filter(s => s.id !== id),
+        selectedStyleId: prev.selectedStyleId === id ? DEFAULT_STATE.selectedStyleId : prev.selectedStyleId,
+      }));
+    } catch (e) {
+      console.error("Style delete failed:", e);
+      setProjectError(errorMessage(e));
+    }
+  };
+
+  // Imported presets replace local ones with the same id
+  const handleImportStyles = async (file: File) => {
+    try {
+      const imported = await importStyles(file);
+      if (imported.length === 0) throw new Error("The style file contains no presets.");
+      await saveCustomStyles(imported);
+      setAppState(prev => ({
+        ...prev,
+        customStyles: [...prev.customStyles.filter(s => !imported.some(i => i.id === s.id)), ...imported],
+      }));
+    } catch (e) {
+      console.error("Style import failed:", e);
+      setProjectError(errorMessage(e));
+    }
+  };
+
+  const handleExportStyles = (presets: StylePreset[]) => {
+    const name = presets.length === 1 ? presets[0].name.replace(/[^\w-]+/g, '_') : 'styles';
+    downloadBlob(exportStyles(presets), `RhythmLoop_${name}.${STYLE_FILE_EXTENSION}`);
+  };
+
+  const handleRenderStyleThumbnail = (preset: StylePreset) => {
+    if (!appState.imagePreviewUrl) return Promise.reject(new Error("Upload an image to render a sample."));
+    return renderStyleThumbnail(appState.generatorId, appState.imagePreviewUrl, preset);
+  };
+
+  const buildRequest = (baseImage: string): GenerationRequest => {
+    const style = findStyle(appState.selectedStyleId, appState.customStyles);
+    return {
+      baseImage,
+      stylePrompt: style?.promptModifier || 'artistic style',
+      // An uploaded reference wins over the one saved with the preset
+      styleReference: appState.styleReferenceUrl || style?.referenceImage,
+      motionPrompt: appState.motionPrompt,
+      keyframeCount: appState.keyframeCount,
+      aspectRatio: findOutputPreset(appState.outputPreset).aspectRatio
+    };
+  };
+
+  // Base of the active set, already at the aspect it was generated for
+  const activeBaseImage = () =>
+    appState.generatedFrames.find(f => f.pose === 'base')?.url || appState.imagePreviewUrl;
+
+  const trackJob = (event: GenerationEvent) => {
+    setAppState(prev => ({ ...prev, frameJobs: applyGenerationEvent(prev.frameJobs, event) }));
+  };
+
+  const handleCancelGeneration = () => generationAbortRef.current?.abort();
+
+  // Phase 1: AI Director plans the keyframes, shown for review before any image call
+  const handlePlan = async () => {
+    if (!appState.imagePreviewUrl || !hasAudioSource(appState)) return;
+
+    const controller = new AbortController();
+    generationAbortRef.current = controller;
+    setAppState(prev => ({ ...prev, isPlanning: true, directorPlan: null, step: AppStep.PREVIEW }));
+
+    try {
+      const plan = await planDanceSequence(appState.generatorId, buildRequest(appState.imagePreviewUrl), { signal: controller.signal });
+      setAppState(prev => ({ ...prev, directorPlan: renumberPlan(plan), isPlanning: false }));
+    } catch (e) {
+      if (controller.signal.aborted) {
+        setAppState(prev => ({
+          ...prev,
+          isPlanning: false,
+          step: prev.generatedFrames.length > 0 ? AppStep.PREVIEW : AppStep.CONFIGURE
+        }));
+        return;
+      }
+      console.error("Planning failed:", e);
+      setProjectError("The AI Director could not plan this motion. Describe the keyframes yourself or re-plan.");
+      setAppState(prev => ({ ...prev, directorPlan: [], isPlanning: false }));
+    }
+  };
+
+  const handlePlanChange = (plan: PlannedMove[]) => {
+    setAppState(prev => ({ ...prev, directorPlan: renumberPlan(plan), keyframeCount: plan.length + 1 }));
+  };
+
+  // Phase 2: render the approved plan
   const handleGenerate = async () => {
-    if (!appState.imagePreviewUrl || !appState.audioFile) return;
-    
-    setAppState(prev => ({ ...prev, isGenerating: true, step: AppStep.PREVIEW }));
+    const plan = appState.directorPlan;
+    if (!appState.imagePreviewUrl || !hasAudioSource(appState) || !plan) return;
+
+    // Frames are generated at the output aspect, the base image is brought to it first
+    let baseImage: string;
+    try {
+      baseImage = await conformToAspect(appState.imagePreviewUrl, findOutputPreset(appState.outputPreset), appState.framing);
+    } catch (e) {
+      setProjectError(errorMessage(e));
+      return;
+    }
+
+    const controller = new AbortController();
+    generationAbortRef.current = controller;
+    setAppState(prev => ({
+      ...prev,
+      isGenerating: true,
+      directorPlan: null,
+      keyframeCount: plan.length + 1,
+      frameJobs: plan.map(move => ({ pose: move.pose, prompt: move.prompt, status: 'pending', attempt: 0 }))
+    }));
 
-    const style = STYLE_PRESETS.find(s => s.id === appState.selectedStyleId);
-    
     // Generate using new AI Director pipeline
-    const newFrames = await generateDanceFrames(
-      appState.imagePreviewUrl, 
-      style?.promptModifier || 'artistic style',
-      appState.motionPrompt
+    const { frames: newFrames, generatorId } = await generateDanceFrames(
+      appState.generatorId,
+      { ...buildRequest(baseImage), keyframeCount: plan.length + 1 },
+      plan,
+      { signal: controller.signal, onEvent: trackJob, qaMode: appState.qaMode, align: appState.alignFrames, segment: appState.segmentation }
     );
+    const cancelled = controller.signal.aborted;
+
+    // A cancelled run only replaces the poses it finished and keeps the previous
+    // base. Its frames are left out when the set was made for another output
+    // aspect, the run stays restorable from the history.
+    const previousBase = appState.generatedFrames.find(f => f.pose === 'base');
+    const mergeable = !cancelled || !previousBase || await hasSameAspect(previousBase.url, baseImage).catch(() => false);
+    const finished = previousBase ? newFrames.filter(f => f.pose !== 'base') : newFrames;
 
+    // Earlier runs stay in the history so they can be restored or mixed in
     setAppState(prev => ({
       ...prev,
-      generatedFrames: newFrames,
+      generatedFrames: !cancelled
+        ? newFrames
+        : mergeable
+        ? [...prev.generatedFrames.filter(f => !finished.some(n => n.pose === f.pose)), ...finished]
+        : prev.generatedFrames,
+      keyframeCount: mergeable ? prev.keyframeCount : appState.keyframeCount,
+      generationHistory: cancelled && newFrames.length <= 1
+        ? prev.generationHistory
+        : appendRun(prev.generationHistory, createRun('full', generatorId, newFrames)),
       isGenerating: false
     }));
   };
 
+  // Re-renders one pose and swaps it into the active set
+  const handleRegenerateFrame = async (pose: PoseType, prompt: string) => {
+    const baseImage = activeBaseImage();
+    if (!baseImage) return;
+
+    trackJob({ type: 'frame-started', pose, attempt: 1 });
+    let result: { frame: GeneratedFrame; generatorId: string };
+    try {
+      result = await regenerateFrame(appState.generatorId, buildRequest(baseImage), { pose, prompt }, {
+        onEvent: trackJob, qaMode: appState.qaMode, align: appState.alignFrames, segment: appState.segmentation
+      });
+    } catch (e) {
+      trackJob({ type: 'frame-failed', pose, error: errorMessage(e) });
+      throw e;
+    }
+    trackJob({ type: 'frame-rendered', pose, completed: 1, total: 1 });
+
+    const { frame, generatorId } = result;
+    setAppState(prev => ({
+      ...prev,
+      generatedFrames: [...prev.generatedFrames.filter(f => f.pose !== pose), frame],
+      generationHistory: appendRun(prev.generationHistory, createRun('frame', generatorId, [frame])),
+    }));
+  };
+
+  // Brings back a whole set from the history, the pose count follows the run
+  const handleRestoreRun = (run: GenerationRun) => {
+    setAppState(prev => ({ ...prev, generatedFrames: run.frames, keyframeCount: run.frames.length }));
+  };
+
+  // --- Scene layers ---
+  const handleAddLayer = async (file: File) => {
+    try {
+      const url = await fileToGenericBase64(file);
+      const name = file.name.replace(/\.[^.]+$/, '');
+      setAppState(prev => ({ ...prev, layers: [...prev.layers, createSceneLayer(url, name, prev.layers)] }));
+    } catch (e) {
+      setProjectError(errorMessage(e));
+    }
+  };
+
+  // Plans and renders a pose set for one layer in the project's style. The
+  // plan is used as is, layers skip the review step.
+  const handleGenerateLayer = async (id: string) => {
+    const layer = appState.layers.find(l => l.id === id);
+    if (!layer || appState.generatingLayerId) return;
+
+    const controller = new AbortController();
+    layerAbortRef.current = controller;
+    setAppState(prev => ({ ...prev, generatingLayerId: id }));
+
+    try {
+      // Layers keep the shape of their own image
+      const request = { ...buildRequest(layer.imageUrl), aspectRatio: undefined };
+      const plan = renumberPlan(await planDanceSequence(appState.generatorId, request, { signal: controller.signal }));
+      const { frames } = await generateDanceFrames(appState.generatorId, { ...request, keyframeCount: plan.length + 1 }, plan, {
+        signal: controller.signal,
+        qaMode: appState.qaMode,
+        align: appState.alignFrames,
+        // Cutouts need a mask even when the main subject is drawn flat
+        segment: !layer.cutout ? 'off' : appState.segmentation === 'off' ? 'local' : appState.segmentation,
+      });
+      // A cancelled run keeps the previous pose set
+      if (!controller.signal.aborted) {
+        setAppState(prev => ({ ...prev, layers: prev.layers.map(l => l.id === id ? { ...l, frames } : l) }));
+      }
+    } catch (e) {
+      if (!controller.signal.aborted) {
+        console.error("Layer generation failed:", e);
+        setProjectError(errorMessage(e));
+      }
+    } finally {
+      setAppState(prev => ({ ...prev, generatingLayerId: null }));
+    }
+  };
+
+  // Registers frames generated before alignment existed (or with it off).
+  // The raw versions stay in the history.
+  const handleAlignFrames = async () => {
+    const baseUrl = activeBaseImage();
+    if (!baseUrl) return;
+
+    const { styleReference } = buildRequest(baseUrl);
+    const aligned = await Promise.all(appState.generatedFrames.map(frame =>
+      frame.pose === 'base' || frame.alignment ? frame : alignToBase(baseUrl, frame, !styleReference)
+    ));
+    setAppState(prev => ({ ...prev, generatedFrames: aligned }));
+  };
+
+  // Cuts masks for frames rendered without segmentation (or before an alignment reset them)
+  const handleSegmentFrames = async () => {
+    if (appState.segmentation === 'off') return;
+
+    setAppState(prev => ({ ...prev, isSegmenting: true }));
+    try {
+      const segmented = await segmentFrames(
+        appState.generatedFrames,
+        appState.segmentation,
+        resolveFrameGenerator(appState.generatorId).segmentFrame
+      );
+      setAppState(prev => ({ ...prev, generatedFrames: segmented, isSegmenting: false }));
+    } catch (e) {
+      console.error("Segmentation failed:", e);
+      setProjectError(errorMessage(e));
+      setAppState(prev => ({ ...prev, isSegmenting: false }));
+    }
+  };
+
   const canProceed = () => {
     switch (appState.step) {
       case AppStep.UPLOAD_IMAGE: return !!appState.imageFile;
-      case AppStep.UPLOAD_AUDIO: return !!appState.audioFile;
+      case AppStep.UPLOAD_AUDIO: return hasAudioSource(appState);
       case AppStep.CONFIGURE: return true; 
       default: return false;
     }
@@ -64,7 +495,9 @@ const App: React.FC = () => {
 
   const nextStep = () => {
     if (appState.step === AppStep.CONFIGURE) {
-      handleGenerate();
+      // A plan still awaiting approval is reviewed instead of replanned
+      if (appState.directorPlan) goToStep(AppStep.PREVIEW);
+      else handlePlan();
     } else {
       setAppState(prev => ({ ...prev, step: prev.step + 1 }));
     }
@@ -72,7 +505,7 @@ const App: React.FC = () => {
 
   const goToStep = (step: AppStep) => {
     if (step > AppStep.UPLOAD_IMAGE && !appState.imageFile) return;
-    if (step > AppStep.UPLOAD_AUDIO && !appState.audioFile) return;
+    if (step > AppStep.UPLOAD_AUDIO && !hasAudioSource(appState)) return;
     setAppState(prev => ({ ...prev, step }));
   };
 
@@ -80,7 +513,7 @@ const App: React.FC = () => {
     <div className="min-h-screen bg-dark-bg text-gray-100 flex flex-col font-sans selection:bg-brand-500/30">
       <header className="border-b border-dark-border bg-dark-surface/50 backdrop-blur-md sticky top-0 z-50">
         <div className="max-w-7xl mx-auto px-6 h-16 flex items-center justify-between">
-          <div className="flex items-center gap-2 cursor-pointer" onClick={() => window.location.reload()}>
+          <div className="flex items-center gap-2 cursor-pointer" onClick={showLibrary}>
             <div className="bg-gradient-to-tr from-brand-600 to-blue-600 p-1.5 rounded-lg">
               <Layers size={20} className="text-white" />
             </div>
@@ -88,6 +521,28 @@ const App: React.FC = () => {
           </div>
           
           <div className="flex items-center gap-6">
+             <div className="flex items-center gap-2">
+               <button
+                 onClick={() => projectInputRef.current?.click()}
+                 className="flex items-center gap-1.5 text-sm text-gray-400 hover:text-white px-3 py-1.5 rounded-lg border border-dark-border hover:border-gray-600 transition-colors"
+               >
+                 <FolderOpen size={14} /> Open
+               </button>
+               <button
+                 onClick={handleSaveProject}
+                 disabled={view !== 'editor' || !appState.imageFile || appState.isGenerating}
+                 className="flex items-center gap-1.5 text-sm text-gray-400 hover:text-white px-3 py-1.5 rounded-lg border border-dark-border hover:border-gray-600 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+               >
+                 <Save size={14} /> Save
+               </button>
+               <input
+                 type="file"
+                 ref={projectInputRef}
+                 onChange={handleOpenProject}
+                 accept={`.${BUNDLE_EXTENSION},.zip`}
+                 className="hidden"
+               />
+             </div>
              <div className="hidden md:flex items-center gap-2 bg-dark-bg px-3 py-1.5 rounded-full border border-dark-border">
                <Zap size={14} className="text-yellow-400 fill-yellow-400" />
                <span className="text-sm font-medium text-gray-300">{appState.credits} Credits</span>
@@ -98,6 +553,29 @@ const App: React.FC = () => {
       </header>
 
       <main className="flex-1 flex flex-col relative overflow-hidden">
+        {projectError && (
+          <div className="max-w-7xl w-full mx-auto px-6 pt-4">
+            <div className="bg-red-900/30 border border-red-500 text-red-200 p-3 rounded-lg flex items-center gap-3 text-sm">
+              <AlertTriangle size={18} />
+              <div className="flex-1">{projectError}</div>
+              <button onClick={() => setProjectError(null)} className="hover:text-white"><X size={16} /></button>
+            </div>
+          </div>
+        )}
+
+        {view === 'library' ? (
+          <div className="flex-1 w-full max-w-7xl mx-auto p-6 flex flex-col">
+            <ProjectLibrary
+              projects={projects}
+              isLoading={isLoadingLibrary}
+              onNew={handleNewProject}
+              onImport={() => projectInputRef.current?.click()}
+              onOpen={handleResumeProject}
+              onDelete={handleDeleteProject}
+            />
+          </div>
+        ) : (
+        <>
         <div className="h-1 bg-dark-surface w-full md:hidden">
           <div 
             className="h-full bg-brand-500 transition-all duration-500"
@@ -143,13 +621,47 @@ const App: React.FC = () => {
               <Step1Image imagePreview={appState.imagePreviewUrl} onUpload={handleImageUpload} />
             )}
             {appState.step === AppStep.UPLOAD_AUDIO && (
-              <Step2Audio audioFile={appState.audioFile} audioPreview={appState.audioPreviewUrl} onUpload={handleAudioUpload} />
+              <Step2Audio
+                audioFile={appState.audioFile}
+                audioPreview={appState.audioPreviewUrl}
+                analysis={appState.audioAnalysis}
+                isAnalyzing={appState.isAnalyzingAudio}
+                region={appState.audioRegion}
+                duration={appState.duration}
+                onUpload={handleAudioUpload}
+                source={appState.audioSource}
+                liveInput={appState.liveInput}
+                onRegionChange={(region) => updateConfig('audioRegion', region)}
+                onSourceChange={(source) => updateConfig('audioSource', source)}
+                onLiveInputChange={(settings) => updateConfig('liveInput', settings)}
+              />
             )}
             {appState.step === AppStep.CONFIGURE && (
-              <Step3Config config={appState} onUpdate={updateConfig} />
+              <Step3Config
+                config={appState}
+                onUpdate={updateConfig}
+                onSaveStyle={handleSaveStyle}
+                onDeleteStyle={handleDeleteStyle}
+                onImportStyles={handleImportStyles}
+                onExportStyles={handleExportStyles}
+                onRenderStyleThumbnail={handleRenderStyleThumbnail}
+                onStyleReferenceUpload={handleStyleReferenceUpload}
+              />
+            )}
+            {appState.step === AppStep.PREVIEW && (appState.isPlanning || appState.directorPlan) && (
+              <PlanEditor
+                plan={appState.directorPlan || []}
+                motionPrompt={appState.motionPrompt}
+                isPlanning={appState.isPlanning}
+                canCancel={appState.generatedFrames.length > 0}
+                onChange={handlePlanChange}
+                onApprove={handleGenerate}
+                onReplan={handlePlan}
+                onCancel={() => appState.isPlanning ? handleCancelGeneration() : updateConfig('directorPlan', null)}
+              />
             )}
-            {appState.step === AppStep.PREVIEW && (
-              <Step4Preview state={appState} onGenerateMore={handleGenerate} />
+            {appState.step === AppStep.PREVIEW && !appState.isPlanning && !appState.directorPlan && (
+              <Step4Preview state={appState} onGenerateMore={handlePlan} onCancelGeneration={handleCancelGeneration} onAlignFrames={handleAlignFrames} onSegmentFrames={handleSegmentFrames} onBackgroundUpload={handleBackgroundUpload} onRegenerateFrame={handleRegenerateFrame} onRestoreRun={handleRestoreRun} onAddLayer={handleAddLayer} onGenerateLayer={handleGenerateLayer} onCancelLayerGeneration={() => layerAbortRef.current?.abort()} onUpdate={updateConfig} />
             )}
           </div>
         </div>
@@ -175,11 +687,13 @@ const App: React.FC = () => {
                     : 'bg-gray-800 text-gray-500 cursor-not-allowed'}
                 `}
               >
-                {appState.step === AppStep.CONFIGURE ? 'Generate Loop' : 'Continue'}
+                {appState.step === AppStep.CONFIGURE ? 'Plan Motion' : 'Continue'}
               </button>
             </div>
           </div>
         )}
+        </>
+        )}
       </main>
     </div>
   );
@@ -0,0 +1,268 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Music, RefreshCcw, Loader2, Wand2, History, RotateCcw, AlertTriangle, ImageOff, Crosshair } from 'lucide-react';
+import { FrameJob, FrameScore, GeneratedFrame, GenerationRun, PoseType } from '../types';
+import { describeScore } from '../services/frameQA';
+
+interface GenerationPanelProps {
+  poses: PoseType[];
+  poseImages: Record<string, HTMLImageElement>;
+  frames: GeneratedFrame[]; // Active set
+  history: GenerationRun[];
+  jobs: FrameJob[]; // Latest render status, explains missing frames
+  isGenerating: boolean;
+  onGenerateMore: () => void;
+  onRegenerateFrame: (pose: PoseType, prompt: string) => Promise<void>;
+  onAlignFrames: () => Promise<void>;
+  onChangeFrames: (frames: GeneratedFrame[]) => void;
+  onRestoreRun: (run: GenerationRun) => void;
+  onError: (message: string) => void;
+}
+
+const ScoreBadge: React.FC<{ qa: FrameScore }> = ({ qa }) => (
+  <span
+    title={describeScore(qa)}
+    className={`absolute top-1 right-1 text-[9px] font-bold px-1 rounded ${qa.passed ? 'bg-green-900/80 text-green-300' : 'bg-amber-900/80 text-amber-300'}`}
+  >
+    {Math.round(qa.score * 100)}%
+  </span>
+);
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+/**
+ * Generated Sequence grid. Selecting a pose lets the user regenerate just that
+ * frame or swap in a version from an earlier run; the run list restores whole sets.
+ */
+export const GenerationPanel: React.FC<GenerationPanelProps> = ({
+  poses, poseImages, frames, history, jobs, isGenerating, onGenerateMore, onRegenerateFrame, onAlignFrames, onChangeFrames, onRestoreRun, onError
+}) => {
+  const [selectedPose, setSelectedPose] = useState<PoseType | null>(null);
+  const [promptDraft, setPromptDraft] = useState('');
+  const [regeneratingPose, setRegeneratingPose] = useState<PoseType | null>(null);
+  const [isAligning, setIsAligning] = useState(false);
+
+  const activeFrame = selectedPose ? frames.find(f => f.pose === selectedPose) : undefined;
+  const selectedJob = selectedPose ? jobs.find(j => j.pose === selectedPose) : undefined;
+
+  // Start from the prompt of the frame currently in use, or the planned one if it never rendered
+  useEffect(() => {
+    setPromptDraft(activeFrame?.promptUsed || selectedJob?.prompt || '');
+  }, [selectedPose, activeFrame?.url]);
+
+  // Every version of the selected pose across runs, newest first, one per image
+  const candidates = useMemo(() => {
+    if (!selectedPose) return [];
+    const seen = new Set<string>();
+    const result: GeneratedFrame[] = [];
+    for (let i = history.length - 1; i >= 0; i--) {
+      history[i].frames.forEach(frame => {
+        if (frame.pose !== selectedPose || seen.has(frame.url)) return;
+        seen.add(frame.url);
+        result.push(frame);
+      });
+    }
+    return result;
+  }, [history, selectedPose]);
+
+  const pickFrame = (frame: GeneratedFrame) => {
+    onChangeFrames([...frames.filter(f => f.pose !== frame.pose), frame]);
+  };
+
+  const handleRegenerate = async () => {
+    if (!selectedPose || !promptDraft.trim()) return;
+    setRegeneratingPose(selectedPose);
+    try {
+      await onRegenerateFrame(selectedPose, promptDraft.trim());
+    } catch (err) {
+      console.error(`Regenerating ${selectedPose} failed:`, err);
+      onError(err instanceof Error ? err.message : "Frame regeneration failed.");
+    } finally {
+      setRegeneratingPose(null);
+    }
+  };
+
+  const handleAlign = async () => {
+    setIsAligning(true);
+    try {
+      await onAlignFrames();
+    } catch (err) {
+      console.error("Frame alignment failed:", err);
+      onError("Could not align the frames.");
+    } finally {
+      setIsAligning(false);
+    }
+  };
+
+  const isBusy = isGenerating || regeneratingPose !== null || isAligning;
+  const hasUnaligned = frames.some(f => f.pose !== 'base' && !f.alignment);
+  const isCurrentSet = (run: GenerationRun) =>
+    run.frames.length === frames.length && run.frames.every(f => frames.some(a => a.url === f.url));
+
+  return (
+    <div className="bg-dark-surface p-6 rounded-2xl border border-dark-border shadow-lg flex-1">
+      <h3 className="text-sm font-bold text-gray-300 mb-4 flex items-center gap-2">
+        <Music size={14} />
+        GENERATED SEQUENCE
+        {hasUnaligned && (
+          <button
+            onClick={handleAlign}
+            disabled={isBusy}
+            className="ml-auto flex items-center gap-1 text-[11px] font-normal text-gray-400 hover:text-white disabled:opacity-50"
+            title="Register frames onto the base image"
+          >
+            {isAligning ? <Loader2 size={12} className="animate-spin" /> : <Crosshair size={12} />} Align
+          </button>
+        )}
+      </h3>
+      <div className={`grid ${poses.length > 4 ? 'grid-cols-4' : 'grid-cols-2'} gap-2 mb-4`}>
+        {poses.map((key) => {
+          const img = poseImages[key];
+          const isLoaded = !!img;
+          const isSelected = key === selectedPose;
+          // Playback falls back to the base image, the grid shows the gap instead
+          const frame = frames.find(f => f.pose === key);
+          const isMissing = key !== 'base' && !frame;
+          const isFlagged = frame?.qa && !frame.qa.passed;
+          const job = jobs.find(j => j.pose === key);
+          return (
+            <button
+              key={key}
+              onClick={() => setSelectedPose(isSelected ? null : key)}
+              className={`relative aspect-square rounded-lg overflow-hidden border bg-gray-900 group transition-colors
+                ${isSelected ? 'border-brand-500 ring-1 ring-brand-500' : isFlagged ? 'border-amber-600' : 'border-gray-700 hover:border-gray-500'}
+              `}
+            >
+              {isMissing ? (
+                <div
+                  className={`w-full h-full flex flex-col items-center justify-center gap-1 text-[10px] ${job?.status === 'failed' ? 'text-red-400 bg-red-950/30' : 'text-gray-600'}`}
+                  title={job?.error}
+                >
+                  {job?.status === 'failed' ? <AlertTriangle size={16} /> : <ImageOff size={16} />}
+                  {job?.status === 'failed' ? 'Failed' : job?.status === 'cancelled' ? 'Cancelled' : 'Missing'}
+                </div>
+              ) : isLoaded ? (
+                <img src={img.src} className="w-full h-full object-cover opacity-80 group-hover:opacity-100 transition-opacity" />
+              ) : (
+                <div className="w-full h-full flex items-center justify-center text-gray-700">
+                  <Loader2 size={16} className="animate-spin" />
+                </div>
+              )}
+              {frame?.qa && !isMissing && <ScoreBadge qa={frame.qa} />}
+              {regeneratingPose === key && (
+                <div className="absolute inset-0 bg-black/60 flex items-center justify-center">
+                  <Loader2 size={16} className="animate-spin text-brand-400" />
+                </div>
+              )}
+              <div className="absolute bottom-0 inset-x-0 p-1 bg-black/60 backdrop-blur-sm">
+                <span className="text-[10px] font-bold text-white uppercase tracking-wider block text-center">{key}</span>
+              </div>
+            </button>
+          );
+        })}
+      </div>
+
+      {/* Selected pose: alternatives and single-frame regeneration */}
+      {selectedPose && (
+        <div className="bg-dark-bg border border-gray-700 rounded-xl p-3 mb-4 flex flex-col gap-3">
+          <p className="text-xs font-bold text-gray-400 uppercase tracking-wider">{selectedPose}</p>
+          {!activeFrame && selectedJob?.error && (
+            <p className="text-xs text-red-400">{selectedJob.error}</p>
+          )}
+          {activeFrame?.qa && (
+            <p className={`text-xs ${activeFrame.qa.passed ? 'text-gray-500' : 'text-amber-400'}`}>
+              {describeScore(activeFrame.qa)}{activeFrame.qa.passed ? '' : ' · may not match the base character'}
+            </p>
+          )}
+
+          {candidates.length > 1 && (
+            <div className="flex gap-1.5 overflow-x-auto pb-1">
+              {candidates.map(frame => (
+                <button
+                  key={frame.url}
+                  onClick={() => pickFrame(frame)}
+                  disabled={isBusy}
+                  title={[frame.qa && describeScore(frame.qa), frame.promptUsed].filter(Boolean).join('\n')}
+                  className={`w-12 h-12 shrink-0 rounded-md overflow-hidden border-2 transition-colors
+                    ${frame.url === activeFrame?.url ? 'border-brand-500' : 'border-transparent hover:border-gray-500'}
+                  `}
+                >
+                  <img src={frame.url} className="w-full h-full object-cover" />
+                </button>
+              ))}
+            </div>
+          )}
+
+          {selectedPose === 'base' ? (
+            <p className="text-xs text-gray-500">The base pose is the original image.</p>
+          ) : (
+            <>
+              <textarea
+                value={promptDraft}
+                onChange={(e) => setPromptDraft(e.target.value)}
+                rows={3}
+                placeholder="Describe this pose..."
+                className="w-full bg-dark-surface border border-gray-700 rounded-lg p-2 text-xs text-gray-200 outline-none focus:border-brand-500 resize-none"
+              />
+              <button
+                onClick={handleRegenerate}
+                disabled={isBusy || !promptDraft.trim()}
+                className="w-full bg-brand-600 hover:bg-brand-500 disabled:bg-gray-800 disabled:text-gray-500 text-white py-2 rounded-lg text-xs font-bold flex items-center justify-center gap-2 transition-colors"
+              >
+                {regeneratingPose === selectedPose
+                  ? <><Loader2 size={14} className="animate-spin" /> Regenerating...</>
+                  : <><Wand2 size={14} /> Regenerate {selectedPose}</>}
+              </button>
+            </>
+          )}
+        </div>
+      )}
+
+      <button
+        onClick={onGenerateMore}
+        disabled={isBusy}
+        className="w-full bg-dark-bg hover:bg-gray-800 border border-gray-700 text-gray-300 py-3 rounded-xl text-sm flex items-center justify-center gap-2 transition-colors"
+      >
+        <RefreshCcw size={16} className={isGenerating ? "animate-spin" : ""} />
+        Regenerate Motion
+      </button>
+
+      {/* Run history, newest first */}
+      {history.length > 0 && (
+        <div className="mt-6">
+          <h4 className="text-xs font-bold text-gray-400 mb-2 flex items-center gap-2">
+            <History size={12} /> HISTORY
+          </h4>
+          <div className="flex flex-col gap-1 max-h-48 overflow-y-auto">
+            {history.map((run, index) => ({ run, index })).reverse().map(({ run, index }) => (
+              <div key={run.id} className="flex items-center gap-2 text-xs text-gray-400 bg-dark-bg rounded-lg px-2 py-1.5">
+                <div className="flex -space-x-2">
+                  {run.frames.slice(0, 3).map(frame => (
+                    <img key={frame.url} src={frame.url} className="w-6 h-6 rounded border border-dark-bg object-cover" />
+                  ))}
+                </div>
+                <span className="flex-1 truncate">
+                  #{index + 1} · {run.kind === 'full' ? `${run.frames.length} frames` : run.frames[0]?.pose} · {formatTime(run.createdAt)}
+                </span>
+                {run.kind === 'full' && (
+                  isCurrentSet(run) ? (
+                    <span className="text-brand-400">Current</span>
+                  ) : (
+                    <button
+                      onClick={() => onRestoreRun(run)}
+                      disabled={isBusy}
+                      className="flex items-center gap-1 hover:text-white"
+                      title="Restore this set"
+                    >
+                      <RotateCcw size={12} /> Restore
+                    </button>
+                  )
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,189 @@
+import React, { useRef, useState } from 'react';
+import { Layers, Plus, Trash2, Eye, EyeOff, ChevronUp, ChevronDown, Wand2, Loader2, X } from 'lucide-react';
+import { ModSource, SceneLayer } from '../types';
+import { MOD_SOURCES } from '../constants';
+
+interface LayerPanelProps {
+  layers: SceneLayer[];
+  generatingLayerId: string | null;
+  onAdd: (file: File) => void;
+  onChange: (layers: SceneLayer[]) => void;
+  onGenerate: (id: string) => void;
+  onCancelGenerate: () => void;
+}
+
+const sliderClass = 'w-full h-1.5 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-brand-500';
+
+// z 0 belongs to the main subject, layers step over it
+const stepZ = (z: number, direction: 1 | -1) => (z + direction === 0 ? z + direction * 2 : z + direction);
+
+/**
+ * Extra subjects around the main one. Listed front to back with the main
+ * subject in its place; the selected layer shows its placement and reactivity.
+ */
+export const LayerPanel: React.FC<LayerPanelProps> = ({
+  layers, generatingLayerId, onAdd, onChange, onGenerate, onCancelGenerate
+}) => {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const update = (id: string, patch: Partial<SceneLayer>) =>
+    onChange(layers.map(l => l.id === id ? { ...l, ...patch } : l));
+
+  const remove = (id: string) => {
+    onChange(layers.filter(l => l.id !== id));
+    if (selectedId === id) setSelectedId(null);
+  };
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) onAdd(file);
+  };
+
+  const ordered = [...layers].sort((a, b) => b.z - a.z);
+  const frontCount = ordered.filter(l => l.z >= 0).length;
+
+  const renderLayer = (layer: SceneLayer) => {
+    const isSelected = selectedId === layer.id;
+    const isGenerating = generatingLayerId === layer.id;
+    return (
+      <div key={layer.id} className={`bg-dark-bg border rounded-lg ${isSelected ? 'border-brand-500/60' : 'border-gray-700'}`}>
+        <div className="flex items-center gap-2 p-2 cursor-pointer" onClick={() => setSelectedId(isSelected ? null : layer.id)}>
+          <div className="w-9 h-9 rounded overflow-hidden bg-gray-900 shrink-0">
+            <img src={layer.frames[0]?.url || layer.imageUrl} alt={layer.name} className={`w-full h-full object-cover ${layer.visible ? '' : 'opacity-30'}`} />
+          </div>
+          <div className="flex-1 min-w-0">
+            <p className="text-xs text-white truncate">{layer.name}</p>
+            <p className="text-[10px] text-gray-500">
+              {layer.frames.length > 0 ? `${layer.frames.length} poses` : 'Source image'} · {MOD_SOURCES.find(s => s.id === layer.band)?.name}
+            </p>
+          </div>
+          <div className="flex items-center" onClick={(e) => e.stopPropagation()}>
+            <button onClick={() => update(layer.id, { z: stepZ(layer.z, 1) })} className="p-1 text-gray-500 hover:text-white" title="Bring forward">
+              <ChevronUp size={14} />
+            </button>
+            <button onClick={() => update(layer.id, { z: stepZ(layer.z, -1) })} className="p-1 text-gray-500 hover:text-white" title="Send backward">
+              <ChevronDown size={14} />
+            </button>
+            <button onClick={() => update(layer.id, { visible: !layer.visible })} className="p-1 text-gray-500 hover:text-white" title={layer.visible ? 'Hide' : 'Show'}>
+              {layer.visible ? <Eye size={14} /> : <EyeOff size={14} />}
+            </button>
+            <button onClick={() => remove(layer.id)} disabled={isGenerating} className="p-1 text-gray-500 hover:text-red-400 disabled:opacity-40" title="Delete layer">
+              <Trash2 size={14} />
+            </button>
+          </div>
+        </div>
+
+        {isSelected && (
+          <div className="px-3 pb-3 space-y-3 border-t border-gray-800 pt-3">
+            <input
+              value={layer.name}
+              onChange={(e) => update(layer.id, { name: e.target.value })}
+              className="w-full bg-dark-surface border border-gray-700 rounded-md px-2 py-1 text-xs text-gray-200 outline-none focus:border-brand-500"
+            />
+            <div className="grid grid-cols-3 gap-3">
+              {([['x', 'X', 0, 1], ['y', 'Y', 0, 1], ['scale', 'Size', 0.05, 1.5]] as const).map(([key, label, min, max]) => (
+                <label key={key} className="block">
+                  <span className="flex justify-between text-[11px] text-gray-500">
+                    <span>{label}</span>
+                    <span className="text-brand-300">{Math.round(layer[key] * 100)}%</span>
+                  </span>
+                  <input
+                    type="range"
+                    min={min}
+                    max={max}
+                    step="0.01"
+                    value={layer[key]}
+                    onChange={(e) => update(layer.id, { [key]: parseFloat(e.target.value) })}
+                    className={sliderClass}
+                  />
+                </label>
+              ))}
+            </div>
+            <div className="grid grid-cols-2 gap-3 items-end">
+              <label className="block">
+                <span className="text-[11px] text-gray-500">Reacts to</span>
+                <select
+                  value={layer.band}
+                  onChange={(e) => update(layer.id, { band: e.target.value as ModSource })}
+                  title={MOD_SOURCES.find(s => s.id === layer.band)?.description}
+                  className="w-full bg-dark-surface border border-gray-700 rounded-md px-2 py-1 text-xs text-gray-200 outline-none focus:border-brand-500"
+                >
+                  {MOD_SOURCES.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+                </select>
+              </label>
+              <label className="block">
+                <span className="flex justify-between text-[11px] text-gray-500">
+                  <span>Thump</span>
+                  <span className="text-brand-300">{Math.round(layer.reactivity * 100)}%</span>
+                </span>
+                <input
+                  type="range"
+                  min="0"
+                  max="1"
+                  step="0.05"
+                  value={layer.reactivity}
+                  onChange={(e) => update(layer.id, { reactivity: parseFloat(e.target.value) })}
+                  className={sliderClass}
+                />
+              </label>
+            </div>
+            <label className="flex items-center gap-2 text-[11px] text-gray-400 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={layer.cutout}
+                onChange={(e) => update(layer.id, { cutout: e.target.checked })}
+                className="accent-brand-500"
+              />
+              Cut out generated poses (off for backdrops)
+            </label>
+            {isGenerating ? (
+              <button onClick={onCancelGenerate} className="w-full flex items-center justify-center gap-2 py-2 rounded-lg text-xs bg-gray-800 text-gray-300 hover:text-white">
+                <Loader2 size={12} className="animate-spin" /> Generating poses... <X size={12} /> Cancel
+              </button>
+            ) : (
+              <button
+                onClick={() => onGenerate(layer.id)}
+                disabled={generatingLayerId !== null}
+                className="w-full flex items-center justify-center gap-2 py-2 rounded-lg text-xs font-medium bg-brand-600 hover:bg-brand-500 text-white disabled:bg-gray-800 disabled:text-gray-500"
+              >
+                <Wand2 size={12} /> {layer.frames.length > 0 ? 'Regenerate Poses' : 'Generate Poses'}
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="bg-dark-surface p-6 rounded-2xl border border-dark-border shadow-lg">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-lg font-bold text-white flex items-center gap-2">
+          <Layers size={20} className="text-brand-400" /> Scene Layers
+        </h3>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="flex items-center gap-1 text-xs text-gray-400 hover:text-white"
+          title="Add a logo, mascot or backdrop"
+        >
+          <Plus size={14} /> Add
+        </button>
+      </div>
+      <p className="text-gray-500 text-xs mb-4">
+        Each layer dances on its own band and gets its own pose set, generated in the current style.
+      </p>
+
+      <div className="space-y-2">
+        {ordered.slice(0, frontCount).map(renderLayer)}
+        <div className="flex items-center gap-2 px-2 py-1.5 rounded-lg border border-dashed border-gray-700 text-xs text-gray-400">
+          Main subject
+        </div>
+        {ordered.slice(frontCount).map(renderLayer)}
+      </div>
+
+      <input type="file" ref={fileInputRef} onChange={handleFile} accept="image/*" className="hidden" />
+    </div>
+  );
+};
@@ -0,0 +1,132 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Mic, MicOff, RefreshCcw } from 'lucide-react';
+import { LiveInputSettings } from '../types';
+import { listInputDevices, openLiveInput, reportedLatency, stopLiveInput } from '../services/liveInput';
+import { errorMessage } from '../services/jobRunner';
+
+interface LiveInputPanelProps {
+  settings: LiveInputSettings;
+  onChange: (settings: LiveInputSettings) => void;
+}
+
+const selectClass = 'flex-1 bg-dark-bg border border-gray-700 rounded-lg px-2 py-2 text-sm text-gray-200 outline-none focus:border-brand-500';
+
+/**
+ * Input device, level check and latency for live mode. The test stream is
+ * only open while the meter runs; the preview opens its own.
+ */
+export const LiveInputPanel: React.FC<LiveInputPanelProps> = ({ settings, onChange }) => {
+  const [devices, setDevices] = useState<MediaDeviceInfo[]>([]);
+  const [isTesting, setIsTesting] = useState(false);
+  const [reported, setReported] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const meterRef = useRef<HTMLDivElement>(null);
+  const stopRef = useRef<(() => void) | null>(null);
+
+  const refreshDevices = () => listInputDevices().then(setDevices).catch(e => setError(errorMessage(e)));
+
+  useEffect(() => {
+    refreshDevices();
+    return () => stopRef.current?.();
+  }, []);
+
+  const stopTest = () => {
+    stopRef.current?.();
+    stopRef.current = null;
+    setIsTesting(false);
+  };
+
+  const startTest = async () => {
+    setError(null);
+    try {
+      const stream = await openLiveInput(settings.deviceId);
+      const ctx = new AudioContext();
+      const analyser = ctx.createAnalyser();
+      analyser.fftSize = 2048;
+      ctx.createMediaStreamSource(stream).connect(analyser); // Not to the speakers, no feedback
+      setReported(reportedLatency(ctx, stream));
+      refreshDevices(); // Labels appear once access is granted
+
+      const samples = new Uint8Array(analyser.fftSize);
+      let frame = 0;
+      const tick = () => {
+        analyser.getByteTimeDomainData(samples);
+        let peak = 0;
+        for (let i = 0; i < samples.length; i++) peak = Math.max(peak, Math.abs(samples[i] - 128) / 128);
+        if (meterRef.current) meterRef.current.style.width = `${Math.round(peak * 100)}%`;
+        frame = requestAnimationFrame(tick);
+      };
+      frame = requestAnimationFrame(tick);
+
+      stopRef.current = () => {
+        cancelAnimationFrame(frame);
+        stopLiveInput(stream);
+        ctx.close();
+      };
+      setIsTesting(true);
+    } catch (e) {
+      setError(errorMessage(e));
+    }
+  };
+
+  const selectDevice = (deviceId: string) => {
+    stopTest();
+    onChange({ ...settings, deviceId });
+  };
+
+  return (
+    <div className="space-y-5">
+      <div>
+        <label className="text-white font-medium text-sm block mb-2">Input Device</label>
+        <div className="flex gap-2">
+          <select value={settings.deviceId} onChange={(e) => selectDevice(e.target.value)} className={selectClass}>
+            <option value="">Default input</option>
+            {devices.filter(d => d.deviceId && d.deviceId !== 'default').map((d, i) => (
+              <option key={d.deviceId} value={d.deviceId}>{d.label || `Input ${i + 1}`}</option>
+            ))}
+          </select>
+          <button onClick={refreshDevices} className="p-2 text-gray-400 hover:text-white" title="Refresh devices">
+            <RefreshCcw size={16} />
+          </button>
+        </div>
+      </div>
+
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <label className="text-white font-medium text-sm">Level</label>
+          <button
+            onClick={isTesting ? stopTest : startTest}
+            className="flex items-center gap-1 text-xs text-brand-300 hover:text-white"
+          >
+            {isTesting ? <><MicOff size={12} /> Stop test</> : <><Mic size={12} /> Test input</>}
+          </button>
+        </div>
+        <div className="h-2 bg-gray-800 rounded-full overflow-hidden">
+          <div ref={meterRef} className="h-full bg-brand-500 transition-[width] duration-75" style={{ width: 0 }} />
+        </div>
+      </div>
+
+      <div>
+        <div className="flex justify-between mb-2">
+          <label className="text-white font-medium text-sm">Latency Compensation</label>
+          <span className="text-brand-300 text-sm">{settings.latency} ms</span>
+        </div>
+        <input
+          type="range"
+          min="0"
+          max="300"
+          step="5"
+          value={settings.latency}
+          onChange={(e) => onChange({ ...settings, latency: parseInt(e.target.value) })}
+          className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-brand-500"
+        />
+        <p className="text-[11px] text-gray-500 mt-2 leading-tight">
+          Delay between the sound in the room and the analyser. Once a tempo is found, beats fire this much earlier so the dancer lands on the kick.
+          {reported !== null && ` The browser reports ${reported} ms for this input, add the distance to the speakers.`}
+        </p>
+      </div>
+
+      {error && <p className="text-xs text-red-400">{error}</p>}
+    </div>
+  );
+};
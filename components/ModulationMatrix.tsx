@@ -0,0 +1,131 @@
+import React from 'react';
+import { SlidersHorizontal, Plus, Trash2, RotateCcw } from 'lucide-react';
+import { DEFAULT_STATE, ModRouting } from '../types';
+import { MAX_MOD_ROUTINGS, MOD_CURVES, MOD_SOURCES, MOD_TARGETS } from '../constants';
+import { createRoutingId } from '../services/modulation';
+
+interface ModulationMatrixProps {
+  routings: ModRouting[];
+  onChange: (routings: ModRouting[]) => void;
+}
+
+const selectClass = 'bg-dark-bg border border-gray-700 rounded-md px-2 py-1 text-xs text-gray-200 outline-none focus:border-brand-500';
+
+/**
+ * Source -> target routings for the audio-reactive effects. Several routings
+ * may share a target, their contributions add up.
+ */
+export const ModulationMatrix: React.FC<ModulationMatrixProps> = ({ routings, onChange }) => {
+  const update = (id: string, patch: Partial<ModRouting>) => {
+    onChange(routings.map(r => r.id === id ? { ...r, ...patch } : r));
+  };
+
+  const remove = (id: string) => onChange(routings.filter(r => r.id !== id));
+
+  const add = () => onChange([...routings, {
+    id: createRoutingId(),
+    source: 'mids',
+    target: 'hue',
+    amount: 0.5,
+    smoothing: 0.5,
+    curve: 'linear',
+  }]);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <label className="text-white font-semibold flex items-center gap-2">
+          <SlidersHorizontal size={18} className="text-brand-400" /> Audio Modulation
+        </label>
+        <button
+          onClick={() => onChange(DEFAULT_STATE.modulation)}
+          className="flex items-center gap-1 text-xs text-gray-500 hover:text-white transition-colors"
+          title="Restore the default bass thump, shake and tilt"
+        >
+          <RotateCcw size={12} /> Reset
+        </button>
+      </div>
+
+      {routings.length === 0 && (
+        <p className="text-[11px] text-gray-500">No routings. The subject only moves on pose changes.</p>
+      )}
+
+      {routings.map((routing) => (
+        <div key={routing.id} className="bg-dark-surface border border-dark-border rounded-xl p-3 space-y-2">
+          <div className="flex items-center gap-2">
+            <select
+              value={routing.source}
+              onChange={(e) => update(routing.id, { source: e.target.value as ModRouting['source'] })}
+              title={MOD_SOURCES.find(s => s.id === routing.source)?.description}
+              className={selectClass}
+            >
+              {MOD_SOURCES.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+            </select>
+            <span className="text-gray-500 text-xs">→</span>
+            <select
+              value={routing.target}
+              onChange={(e) => update(routing.id, { target: e.target.value as ModRouting['target'] })}
+              title={MOD_TARGETS.find(t => t.id === routing.target)?.description}
+              className={selectClass}
+            >
+              {MOD_TARGETS.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+            </select>
+            <select
+              value={routing.curve}
+              onChange={(e) => update(routing.id, { curve: e.target.value as ModRouting['curve'] })}
+              className={`${selectClass} ml-auto`}
+            >
+              {MOD_CURVES.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+            </select>
+            <button onClick={() => remove(routing.id)} className="p-1 text-gray-500 hover:text-red-400" title="Delete routing">
+              <Trash2 size={14} />
+            </button>
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <div className="flex justify-between text-[11px] text-gray-500">
+                <span>Amount</span>
+                <span className="text-brand-300">{Math.round(routing.amount * 100)}%</span>
+              </div>
+              <input
+                type="range"
+                min="-1"
+                max="1"
+                step="0.05"
+                value={routing.amount}
+                onChange={(e) => update(routing.id, { amount: parseFloat(e.target.value) })}
+                className="w-full h-1.5 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-brand-500"
+              />
+            </div>
+            <div>
+              <div className="flex justify-between text-[11px] text-gray-500">
+                <span>Smoothing</span>
+                <span className="text-brand-300">{Math.round(routing.smoothing * 100)}%</span>
+              </div>
+              <input
+                type="range"
+                min="0"
+                max="0.95"
+                step="0.05"
+                value={routing.smoothing}
+                onChange={(e) => update(routing.id, { smoothing: parseFloat(e.target.value) })}
+                className="w-full h-1.5 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-brand-500"
+              />
+            </div>
+          </div>
+        </div>
+      ))}
+
+      <button
+        onClick={add}
+        disabled={routings.length >= MAX_MOD_ROUTINGS}
+        className="w-full flex items-center justify-center gap-2 border-2 border-dashed border-gray-700 hover:border-brand-400 rounded-xl py-2 text-sm text-gray-400 hover:text-white transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+      >
+        <Plus size={14} /> Add Routing
+      </button>
+      <p className="text-[11px] text-gray-500 leading-tight">
+        Negative amounts invert the effect. Pose Advance steps to the next pose when its level crosses 50%.
+      </p>
+    </div>
+  );
+};
@@ -0,0 +1,73 @@
+import React from 'react';
+import { Smartphone, Square, Monitor, Tv, LucideIcon } from 'lucide-react';
+import { FramingMode, OutputPresetId } from '../types';
+import { FRAMING_MODES, OUTPUT_PRESETS } from '../constants';
+
+interface OutputFormatPickerProps {
+  preset: OutputPresetId;
+  framing: FramingMode;
+  disabled?: boolean;
+  onPresetChange: (preset: OutputPresetId) => void;
+  onFramingChange: (framing: FramingMode) => void;
+}
+
+const PRESET_ICONS: Record<OutputPresetId, LucideIcon> = {
+  vertical: Smartphone,
+  square: Square,
+  landscape: Monitor,
+  uhd: Tv,
+};
+
+/**
+ * Output aspect and size, and how frames of another shape are placed in it.
+ */
+export const OutputFormatPicker: React.FC<OutputFormatPickerProps> = ({ preset, framing, disabled, onPresetChange, onFramingChange }) => {
+  const selected = OUTPUT_PRESETS.find(p => p.id === preset) || OUTPUT_PRESETS[0];
+
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-4 gap-1">
+        {OUTPUT_PRESETS.map(p => {
+          const Icon = PRESET_ICONS[p.id];
+          return (
+            <button
+              key={p.id}
+              onClick={() => onPresetChange(p.id)}
+              disabled={disabled}
+              title={`${p.description} (${p.width}×${p.height})`}
+              className={`
+                py-1.5 rounded-md text-xs border transition-colors flex flex-col items-center gap-1
+                ${p.id === selected.id
+                  ? 'border-brand-500 bg-brand-900/20 text-white'
+                  : 'border-gray-700 text-gray-400 hover:text-white'}
+              `}
+            >
+              <Icon size={14} /> {p.name}
+            </button>
+          );
+        })}
+      </div>
+      <div className="grid grid-cols-3 gap-1">
+        {FRAMING_MODES.map(mode => (
+          <button
+            key={mode.id}
+            onClick={() => onFramingChange(mode.id)}
+            disabled={disabled}
+            title={mode.description}
+            className={`
+              py-1 rounded-md text-[11px] border transition-colors
+              ${framing === mode.id
+                ? 'border-brand-500 bg-brand-900/20 text-white'
+                : 'border-gray-700 text-gray-400 hover:text-white'}
+            `}
+          >
+            {mode.name}
+          </button>
+        ))}
+      </div>
+      <p className="text-[11px] text-gray-500 leading-tight">
+        {selected.description}, {selected.width}×{selected.height}. {FRAMING_MODES.find(m => m.id === framing)?.description}.
+      </p>
+    </div>
+  );
+};
@@ -0,0 +1,255 @@
+import React, { useRef, useState } from 'react';
+import { Type, Plus, FileText, Trash2, Eye, EyeOff, Crosshair, X } from 'lucide-react';
+import { ModSource, OverlayLine, TextOverlay } from '../types';
+import { MOD_SOURCES, OVERLAY_ANIMATIONS, OVERLAY_FONTS } from '../constants';
+import { createTextOverlay, parseLyricsFile } from '../services/overlays';
+import { errorMessage } from '../services/jobRunner';
+
+interface OverlayPanelProps {
+  overlays: TextOverlay[];
+  getCurrentTime: () => number;
+  canSync: boolean; // A track is playing, lines can be set to the playhead
+  onChange: (overlays: TextOverlay[]) => void;
+  onError: (message: string) => void;
+}
+
+const sliderClass = 'w-full h-1.5 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-brand-500';
+const inputClass = 'bg-dark-surface border border-gray-700 rounded-md px-2 py-1 text-xs text-gray-200 outline-none focus:border-brand-500';
+
+const round = (seconds: number) => Math.round(seconds * 100) / 100;
+
+/**
+ * Titles and lyric tracks over the video. Lyrics come from LRC or SRT files,
+ * every line can be retimed or snapped to the playhead.
+ */
+export const OverlayPanel: React.FC<OverlayPanelProps> = ({ overlays, getCurrentTime, canSync, onChange, onError }) => {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const update = (id: string, patch: Partial<TextOverlay>) =>
+    onChange(overlays.map(o => o.id === id ? { ...o, ...patch } : o));
+
+  const updateLine = (overlay: TextOverlay, index: number, patch: Partial<OverlayLine>) =>
+    update(overlay.id, {
+      lines: overlay.lines.map((line, i) => i === index ? { ...line, ...patch } : line),
+    });
+
+  const remove = (id: string) => {
+    onChange(overlays.filter(o => o.id !== id));
+    if (selectedId === id) setSelectedId(null);
+  };
+
+  const add = (overlay: TextOverlay) => {
+    onChange([...overlays, overlay]);
+    setSelectedId(overlay.id);
+  };
+
+  const addTitle = () => add(createTextOverlay('Title', [{ start: 0, end: null, text: 'Title' }]));
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      add(createTextOverlay(file.name.replace(/\.[^.]+$/, ''), await parseLyricsFile(file)));
+    } catch (err) {
+      onError(errorMessage(err));
+    }
+  };
+
+  const renderEditor = (overlay: TextOverlay) => (
+    <div className="px-3 pb-3 space-y-3 border-t border-gray-800 pt-3">
+      <input
+        value={overlay.name}
+        onChange={(e) => update(overlay.id, { name: e.target.value })}
+        className={`w-full ${inputClass}`}
+      />
+
+      <div className="max-h-56 overflow-y-auto space-y-2 pr-1">
+        {overlay.lines.map((line, i) => (
+          <div key={i} className="space-y-1">
+            <div className="flex items-center gap-1 text-[11px] text-gray-500">
+              <input
+                type="number"
+                min="0"
+                step="0.05"
+                value={round(line.start)}
+                onChange={(e) => updateLine(overlay, i, { start: Math.max(0, parseFloat(e.target.value) || 0) })}
+                className={`w-16 ${inputClass}`}
+                title="Start, track seconds"
+              />
+              –
+              <input
+                type="number"
+                min="0"
+                step="0.05"
+                value={line.end === null ? '' : round(line.end)}
+                placeholder="end"
+                onChange={(e) => updateLine(overlay, i, { end: e.target.value === '' ? null : Math.max(0, parseFloat(e.target.value) || 0) })}
+                className={`w-16 ${inputClass}`}
+                title="End, track seconds. Empty keeps the line up."
+              />
+              {canSync && (
+                <button onClick={() => updateLine(overlay, i, { start: round(getCurrentTime()) })} className="p-1 hover:text-white" title="Start at the playhead">
+                  <Crosshair size={12} />
+                </button>
+              )}
+              <button
+                onClick={() => update(overlay.id, { lines: overlay.lines.filter((_, j) => j !== i) })}
+                className="ml-auto p-1 hover:text-red-400"
+                title="Delete line"
+              >
+                <X size={12} />
+              </button>
+            </div>
+            <textarea
+              value={line.text}
+              rows={line.text.includes('\n') ? 2 : 1}
+              onChange={(e) => updateLine(overlay, i, { text: e.target.value })}
+              className={`w-full resize-none ${inputClass}`}
+            />
+          </div>
+        ))}
+      </div>
+      <button
+        onClick={() => {
+          const start = canSync ? round(getCurrentTime()) : 0;
+          update(overlay.id, { lines: [...overlay.lines, { start, end: null, text: 'New line' }].sort((a, b) => a.start - b.start) });
+        }}
+        className="flex items-center gap-1 text-[11px] text-gray-400 hover:text-white"
+      >
+        <Plus size={12} /> Add line{canSync ? ' at playhead' : ''}
+      </button>
+
+      <div className="grid grid-cols-2 gap-3">
+        <select value={overlay.font} onChange={(e) => update(overlay.id, { font: e.target.value })} className={inputClass}>
+          {OVERLAY_FONTS.map(f => <option key={f.id} value={f.id}>{f.name}</option>)}
+        </select>
+        <input
+          type="color"
+          value={overlay.color}
+          onChange={(e) => update(overlay.id, { color: e.target.value })}
+          className="w-full h-7 bg-transparent cursor-pointer"
+          title="Text color"
+        />
+      </div>
+      <div className="grid grid-cols-3 gap-3">
+        {([['x', 'X', 0, 1], ['y', 'Y', 0, 1], ['size', 'Size', 0.02, 0.2]] as const).map(([key, label, min, max]) => (
+          <label key={key} className="block">
+            <span className="flex justify-between text-[11px] text-gray-500">
+              <span>{label}</span>
+              <span className="text-brand-300">{Math.round(overlay[key] * 100)}%</span>
+            </span>
+            <input
+              type="range"
+              min={min}
+              max={max}
+              step="0.01"
+              value={overlay[key]}
+              onChange={(e) => update(overlay.id, { [key]: parseFloat(e.target.value) })}
+              className={sliderClass}
+            />
+          </label>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-4 gap-1">
+        {OVERLAY_ANIMATIONS.map(a => (
+          <button
+            key={a.id}
+            onClick={() => update(overlay.id, { animation: a.id })}
+            title={a.description}
+            className={`py-1 rounded-md text-[11px] border transition-colors
+              ${overlay.animation === a.id ? 'border-brand-500 bg-brand-900/20 text-white' : 'border-gray-700 text-gray-400 hover:text-white'}
+            `}
+          >
+            {a.name}
+          </button>
+        ))}
+      </div>
+      {overlay.animation !== 'none' && (
+        <div className="grid grid-cols-2 gap-3 items-end">
+          <label className="block">
+            <span className="text-[11px] text-gray-500">Reacts to</span>
+            <select
+              value={overlay.band}
+              onChange={(e) => update(overlay.id, { band: e.target.value as ModSource })}
+              title={MOD_SOURCES.find(s => s.id === overlay.band)?.description}
+              className={`w-full ${inputClass}`}
+            >
+              {MOD_SOURCES.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+            </select>
+          </label>
+          <label className="block">
+            <span className="flex justify-between text-[11px] text-gray-500">
+              <span>Amount</span>
+              <span className="text-brand-300">{Math.round(overlay.amount * 100)}%</span>
+            </span>
+            <input
+              type="range"
+              min="0"
+              max="1"
+              step="0.05"
+              value={overlay.amount}
+              onChange={(e) => update(overlay.id, { amount: parseFloat(e.target.value) })}
+              className={sliderClass}
+            />
+          </label>
+        </div>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="bg-dark-surface p-6 rounded-2xl border border-dark-border shadow-lg">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-lg font-bold text-white flex items-center gap-2">
+          <Type size={20} className="text-brand-400" /> Text & Lyrics
+        </h3>
+        <div className="flex items-center gap-3">
+          <button onClick={addTitle} className="flex items-center gap-1 text-xs text-gray-400 hover:text-white" title="Add a title or artist name">
+            <Plus size={14} /> Title
+          </button>
+          <button onClick={() => fileInputRef.current?.click()} className="flex items-center gap-1 text-xs text-gray-400 hover:text-white" title="Import timed lyrics from an LRC or SRT file">
+            <FileText size={14} /> Lyrics
+          </button>
+        </div>
+      </div>
+      <p className="text-gray-500 text-xs mb-4">
+        Drawn on top of the effects in the preview and every export. Times are in track seconds.
+      </p>
+
+      <div className="space-y-2">
+        {overlays.map(overlay => {
+          const isSelected = selectedId === overlay.id;
+          return (
+            <div key={overlay.id} className={`bg-dark-bg border rounded-lg ${isSelected ? 'border-brand-500/60' : 'border-gray-700'}`}>
+              <div className="flex items-center gap-2 p-2 cursor-pointer" onClick={() => setSelectedId(isSelected ? null : overlay.id)}>
+                <div className="flex-1 min-w-0">
+                  <p className={`text-xs truncate ${overlay.visible ? 'text-white' : 'text-gray-500'}`}>{overlay.name}</p>
+                  <p className="text-[10px] text-gray-500 truncate">
+                    {overlay.lines.length === 1 ? overlay.lines[0].text : `${overlay.lines.length} lines`} · {OVERLAY_ANIMATIONS.find(a => a.id === overlay.animation)?.name}
+                  </p>
+                </div>
+                <div className="flex items-center" onClick={(e) => e.stopPropagation()}>
+                  <button onClick={() => update(overlay.id, { visible: !overlay.visible })} className="p-1 text-gray-500 hover:text-white" title={overlay.visible ? 'Hide' : 'Show'}>
+                    {overlay.visible ? <Eye size={14} /> : <EyeOff size={14} />}
+                  </button>
+                  <button onClick={() => remove(overlay.id)} className="p-1 text-gray-500 hover:text-red-400" title="Delete overlay">
+                    <Trash2 size={14} />
+                  </button>
+                </div>
+              </div>
+              {isSelected && renderEditor(overlay)}
+            </div>
+          );
+        })}
+        {overlays.length === 0 && (
+          <p className="text-[11px] text-gray-600 text-center py-2">No text yet.</p>
+        )}
+      </div>
+
+      <input type="file" ref={fileInputRef} onChange={handleFile} accept=".lrc,.srt,text/plain" className="hidden" />
+    </div>
+  );
+};
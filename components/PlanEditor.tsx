@@ -0,0 +1,129 @@
+import React from 'react';
+import { ArrowUp, ArrowDown, Trash2, Plus, Wand2, RefreshCcw, Clapperboard } from 'lucide-react';
+import { PlannedMove } from '../types';
+import { MAX_KEYFRAMES, MIN_KEYFRAMES } from '../constants';
+
+interface PlanEditorProps {
+  plan: PlannedMove[];
+  motionPrompt: string;
+  isPlanning: boolean;
+  canCancel: boolean; // A rendered set exists to go back to
+  onChange: (plan: PlannedMove[]) => void;
+  onApprove: () => void;
+  onReplan: () => void;
+  onCancel: () => void;
+}
+
+/**
+ * Review step between planning and rendering. Moves are shown in playback
+ * order; poses are renumbered by the caller whenever the list changes.
+ */
+export const PlanEditor: React.FC<PlanEditorProps> = ({
+  plan, motionPrompt, isPlanning, canCancel, onChange, onApprove, onReplan, onCancel
+}) => {
+  // The base image is always the first keyframe
+  const canAdd = plan.length + 1 < MAX_KEYFRAMES;
+  const canDelete = plan.length + 1 > MIN_KEYFRAMES;
+  const isValid = plan.length > 0 && plan.every(m => m.prompt.trim());
+
+  const updatePrompt = (index: number, prompt: string) => {
+    onChange(plan.map((m, i) => i === index ? { ...m, prompt } : m));
+  };
+
+  const move = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= plan.length) return;
+    const next = [...plan];
+    [next[index], next[target]] = [next[target], next[index]];
+    onChange(next);
+  };
+
+  const remove = (index: number) => onChange(plan.filter((_, i) => i !== index));
+
+  const add = () => onChange([...plan, { pose: `var${plan.length + 1}`, prompt: '' }]);
+
+  if (isPlanning) {
+    return (
+      <div className="flex flex-col items-center justify-center h-[500px] w-full animate-fade-in">
+        <RefreshCcw className="animate-spin text-brand-500 mb-6" size={64} />
+        <h2 className="text-2xl font-bold text-white">Planning Motion</h2>
+        <p className="text-gray-400 mt-2 text-center max-w-md">
+            <span className="block font-semibold text-white mb-1">AI Director is planning your request...</span>
+            Analyzing "{motionPrompt}" and describing each keyframe.
+        </p>
+        <button onClick={onCancel} className="mt-6 px-4 py-2 rounded-lg border border-gray-700 text-gray-300 hover:text-white hover:border-gray-500 text-sm transition-colors">
+            Cancel
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col w-full max-w-3xl mx-auto animate-fade-in pb-12">
+      <div className="text-center mb-8">
+        <h2 className="text-3xl font-bold mb-2 text-white">Review the Plan</h2>
+        <p className="text-gray-400">Edit, reorder, add or remove keyframes. Frames are only rendered once you approve.</p>
+      </div>
+
+      <div className="flex flex-col gap-3">
+        <div className="flex items-center gap-3 bg-dark-surface/50 border border-dark-border rounded-xl p-4 text-sm text-gray-500">
+          <Clapperboard size={16} />
+          <span className="font-bold uppercase tracking-wider text-xs w-12">base</span>
+          <span>Original image</span>
+        </div>
+
+        {plan.map((m, index) => (
+          <div key={index} className="flex items-start gap-3 bg-dark-surface border border-dark-border rounded-xl p-4">
+            <span className="text-xs font-bold text-brand-300 uppercase tracking-wider w-12 pt-2">{m.pose}</span>
+            <textarea
+              value={m.prompt}
+              onChange={(e) => updatePrompt(index, e.target.value)}
+              rows={2}
+              placeholder="Describe the subject's pose in this keyframe..."
+              className="flex-1 bg-dark-bg border border-gray-700 rounded-lg p-2 text-sm text-gray-200 outline-none focus:border-brand-500 resize-none"
+            />
+            <div className="flex flex-col gap-1">
+              <button onClick={() => move(index, -1)} disabled={index === 0} className="p-1 text-gray-500 hover:text-white disabled:opacity-30" title="Move up">
+                <ArrowUp size={14} />
+              </button>
+              <button onClick={() => move(index, 1)} disabled={index === plan.length - 1} className="p-1 text-gray-500 hover:text-white disabled:opacity-30" title="Move down">
+                <ArrowDown size={14} />
+              </button>
+              <button onClick={() => remove(index)} disabled={!canDelete} className="p-1 text-gray-500 hover:text-red-400 disabled:opacity-30" title="Delete keyframe">
+                <Trash2 size={14} />
+              </button>
+            </div>
+          </div>
+        ))}
+
+        <button
+          onClick={add}
+          disabled={!canAdd}
+          className="flex items-center justify-center gap-2 border-2 border-dashed border-gray-700 hover:border-brand-400 rounded-xl py-3 text-sm text-gray-400 hover:text-white transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          <Plus size={16} /> Add Keyframe
+        </button>
+      </div>
+
+      <div className="flex flex-col sm:flex-row justify-between items-center gap-3 mt-8">
+        <div className="flex gap-2">
+          {canCancel && (
+            <button onClick={onCancel} className="px-4 py-2 rounded-lg text-gray-400 hover:text-white font-medium transition-colors">
+              Cancel
+            </button>
+          )}
+          <button onClick={onReplan} className="flex items-center gap-2 px-4 py-2 rounded-lg border border-gray-700 text-gray-300 hover:text-white hover:border-gray-500 transition-colors">
+            <RefreshCcw size={14} /> Re-plan
+          </button>
+        </div>
+        <button
+          onClick={onApprove}
+          disabled={!isValid}
+          className="flex items-center gap-2 px-8 py-3 rounded-lg font-bold text-white bg-brand-600 hover:bg-brand-500 shadow-lg shadow-brand-900/50 transition-colors disabled:bg-gray-800 disabled:text-gray-500 disabled:shadow-none"
+        >
+          <Wand2 size={16} /> Render {plan.length} Keyframes
+        </button>
+      </div>
+    </div>
+  );
+};
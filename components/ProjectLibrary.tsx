@@ -0,0 +1,130 @@
+import React from 'react';
+import { Plus, FolderOpen, Trash2, Image as ImageIcon, Music, Zap, CheckCircle, Film } from 'lucide-react';
+import { AppStep } from '../types';
+import { ProjectSummary } from '../services/projectLibrary';
+
+interface ProjectLibraryProps {
+  projects: ProjectSummary[];
+  isLoading: boolean;
+  onNew: () => void;
+  onImport: () => void;
+  onOpen: (id: string, step: AppStep) => void;
+  onDelete: (id: string) => void;
+}
+
+const STEPS = [
+  { id: AppStep.UPLOAD_IMAGE, icon: ImageIcon, label: 'Image' },
+  { id: AppStep.UPLOAD_AUDIO, icon: Music, label: 'Audio' },
+  { id: AppStep.CONFIGURE, icon: Zap, label: 'Style' },
+  { id: AppStep.PREVIEW, icon: CheckCircle, label: 'Render' },
+];
+
+const formatUpdated = (timestamp: number) => {
+  const minutes = Math.round((Date.now() - timestamp) / 60000);
+  if (minutes < 1) return 'Just now';
+  if (minutes < 60) return `${minutes} min ago`;
+  if (minutes < 60 * 24) return `${Math.round(minutes / 60)} h ago`;
+  return new Date(timestamp).toLocaleDateString();
+};
+
+export const ProjectLibrary: React.FC<ProjectLibraryProps> = ({ projects, isLoading, onNew, onImport, onOpen, onDelete }) => {
+  return (
+    <div className="flex flex-col w-full animate-fade-in">
+      <div className="flex flex-col md:flex-row md:items-end justify-between gap-4 mb-8">
+        <div>
+          <h2 className="text-3xl font-bold mb-2 text-white">Your Projects</h2>
+          <p className="text-gray-400">Projects are saved in this browser as you work. Pick up any of them where you left off.</p>
+        </div>
+        <div className="flex gap-3">
+          <button
+            onClick={onImport}
+            className="flex items-center gap-2 px-4 py-2 rounded-lg border border-dark-border text-gray-300 hover:text-white hover:border-gray-600 transition-colors"
+          >
+            <FolderOpen size={16} /> Open Bundle
+          </button>
+          <button
+            onClick={onNew}
+            className="flex items-center gap-2 px-5 py-2 rounded-lg bg-brand-600 hover:bg-brand-500 text-white font-bold shadow-lg shadow-brand-900/50 transition-colors"
+          >
+            <Plus size={16} /> New Project
+          </button>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="text-center text-gray-500 py-20">Loading library...</div>
+      ) : projects.length === 0 ? (
+        <div
+          onClick={onNew}
+          className="border-2 border-dashed border-gray-700 rounded-2xl p-16 flex flex-col items-center justify-center cursor-pointer hover:border-brand-400 hover:bg-brand-900/10 transition-colors"
+        >
+          <Film size={48} className="text-gray-500 mb-4" />
+          <p className="text-lg font-medium text-gray-300">No projects yet</p>
+          <p className="text-sm text-gray-500 mt-2">Start a new loop, it will show up here automatically.</p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-6">
+          {projects.map(project => (
+            <div key={project.id} className="group bg-dark-surface border border-dark-border rounded-xl overflow-hidden hover:border-brand-500/50 transition-colors">
+              <button
+                onClick={() => onOpen(project.id, project.step)}
+                className="relative block w-full aspect-video bg-black"
+              >
+                {project.thumbnail ? (
+                  <img src={project.thumbnail} alt={project.name} className="w-full h-full object-cover" />
+                ) : (
+                  <div className="w-full h-full flex items-center justify-center text-gray-700"><ImageIcon size={32} /></div>
+                )}
+                {project.frameCount > 0 && (
+                  <span className="absolute bottom-2 right-2 text-[10px] bg-black/70 text-gray-200 px-2 py-0.5 rounded">
+                    {project.frameCount} frames
+                  </span>
+                )}
+              </button>
+
+              <div className="p-4">
+                <div className="flex items-start justify-between gap-2">
+                  <div className="min-w-0">
+                    <p className="text-white font-medium truncate">{project.name}</p>
+                    <p className="text-xs text-gray-500 mt-0.5">{formatUpdated(project.updatedAt)}</p>
+                  </div>
+                  <button
+                    onClick={() => onDelete(project.id)}
+                    className="text-gray-600 hover:text-red-400 p-1 opacity-0 group-hover:opacity-100 transition-opacity"
+                    title="Delete project"
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                </div>
+
+                {/* Resume at any step the project can reach */}
+                <div className="flex gap-1 mt-3">
+                  {STEPS.map(step => {
+                    const isReached = step.id <= project.reachedStep;
+                    return (
+                      <button
+                        key={step.id}
+                        onClick={() => onOpen(project.id, step.id)}
+                        disabled={!isReached}
+                        title={step.label}
+                        className={`flex-1 flex items-center justify-center py-1.5 rounded-md border text-xs transition-colors
+                          ${step.id === project.step
+                            ? 'bg-brand-600/20 border-brand-500/50 text-brand-300'
+                            : isReached
+                              ? 'border-dark-border text-gray-400 hover:text-white hover:border-gray-600'
+                              : 'border-dark-border text-gray-700 cursor-not-allowed'}
+                        `}
+                      >
+                        <step.icon size={12} />
+                      </button>
+                    );
+                  })}
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
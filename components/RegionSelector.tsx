@@ -0,0 +1,186 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Scissors, RotateCcw } from 'lucide-react';
+import { AudioRegion, TrackAnalysis } from '../types';
+import { REGION_FADES } from '../constants';
+import { MAX_REGION_SECONDS, clipRegion, snapRegion } from '../services/audioRegion';
+
+interface RegionSelectorProps {
+  analysis: TrackAnalysis;
+  region: AudioRegion | null;
+  duration: number; // Default clip length while no region is set
+  getCurrentTime: () => number;
+  onChange: (region: AudioRegion | null) => void;
+}
+
+type DragMode = 'start' | 'end' | 'move';
+
+const selectClass = 'bg-dark-bg border border-gray-700 rounded-md px-2 py-1 text-xs text-gray-200 outline-none focus:border-brand-500';
+
+const formatTime = (seconds: number) => {
+  const m = Math.floor(seconds / 60);
+  const s = seconds - m * 60;
+  return `${m}:${s.toFixed(1).padStart(4, '0')}`;
+};
+
+/**
+ * Whole-track waveform with the clip region on top. Handles snap to bars, so
+ * the clip always starts and ends on a downbeat.
+ */
+export const RegionSelector: React.FC<RegionSelectorProps> = ({ analysis, region, duration, getCurrentTime, onChange }) => {
+  const trackRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const playheadRef = useRef<HTMLDivElement>(null);
+  const [draft, setDraft] = useState<AudioRegion | null>(null); // While dragging
+
+  const trackDuration = analysis.duration;
+  const shown = draft ?? clipRegion(region, duration, analysis);
+  const bars = analysis.downbeats.filter(d => d >= shown.start - 1e-3 && d < shown.end - 1e-3).length;
+  const percent = (time: number) => (time / trackDuration) * 100;
+
+  const timeFromClientX = (clientX: number) => {
+    const rect = trackRef.current?.getBoundingClientRect();
+    if (!rect || rect.width === 0) return 0;
+    return Math.min(1, Math.max(0, (clientX - rect.left) / rect.width)) * trackDuration;
+  };
+
+  // Waveform and bar lines
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const track = trackRef.current;
+    if (!canvas || !track) return;
+
+    const draw = () => {
+      const ctx = canvas.getContext('2d');
+      if (!ctx) return;
+      const dpr = window.devicePixelRatio || 1;
+      const { width, height } = track.getBoundingClientRect();
+      canvas.width = width * dpr;
+      canvas.height = height * dpr;
+      ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+      ctx.clearRect(0, 0, width, height);
+
+      ctx.fillStyle = 'rgba(139, 92, 246, 0.6)';
+      const mid = height / 2;
+      const buckets = analysis.waveform.length;
+      for (let px = 0; px < width; px++) {
+        const from = Math.floor((px / width) * buckets);
+        const to = Math.max(from + 1, Math.floor(((px + 1) / width) * buckets));
+        let peak = 0;
+        for (let i = from; i < to && i < buckets; i++) peak = Math.max(peak, analysis.waveform[i]);
+        const h = peak * (height * 0.45);
+        ctx.fillRect(px, mid - h, 1, h * 2);
+      }
+
+      ctx.fillStyle = 'rgba(255, 255, 255, 0.12)';
+      for (const bar of analysis.downbeats) ctx.fillRect(Math.round((bar / trackDuration) * width), 0, 1, height);
+    };
+
+    draw();
+    const observer = new ResizeObserver(draw);
+    observer.observe(track);
+    return () => observer.disconnect();
+  }, [analysis, trackDuration]);
+
+  // Playhead follows the audio without re-rendering React
+  useEffect(() => {
+    let frame = 0;
+    const tick = () => {
+      if (playheadRef.current) playheadRef.current.style.left = `${Math.min(100, percent(getCurrentTime()))}%`;
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [getCurrentTime, trackDuration]);
+
+  const handlePointerDown = (e: React.PointerEvent, mode: DragMode) => {
+    e.stopPropagation();
+    if (e.button !== 0) return;
+    const base = shown;
+    const grab = timeFromClientX(e.clientX);
+    let latest = base;
+
+    const move = (ev: PointerEvent) => {
+      const t = timeFromClientX(ev.clientX);
+      const moved = mode === 'start' ? { ...base, start: t }
+        : mode === 'end' ? { ...base, end: t }
+        : { ...base, start: base.start + t - grab, end: base.end + t - grab };
+      latest = snapRegion(analysis, trackDuration, moved);
+      setDraft(latest);
+    };
+    const up = () => {
+      window.removeEventListener('pointermove', move);
+      window.removeEventListener('pointerup', up);
+      setDraft(null);
+      if (latest !== base) onChange(latest);
+    };
+    window.addEventListener('pointermove', move);
+    window.addEventListener('pointerup', up);
+  };
+
+  const setFade = (key: 'fadeIn' | 'fadeOut', seconds: number) =>
+    onChange(snapRegion(analysis, trackDuration, { ...shown, [key]: seconds }));
+
+  return (
+    <div className="w-full space-y-3">
+      <div className="flex items-center justify-between text-xs">
+        <span className="text-white font-medium flex items-center gap-2">
+          <Scissors size={14} className="text-brand-400" /> Clip Region
+        </span>
+        <span className="text-gray-400">
+          {formatTime(shown.start)} – {formatTime(shown.end)} · {bars} {bars === 1 ? 'bar' : 'bars'} · {(shown.end - shown.start).toFixed(1)}s
+        </span>
+      </div>
+
+      <div ref={trackRef} className="relative h-24 bg-black/40 rounded-lg overflow-hidden select-none">
+        <canvas ref={canvasRef} className="absolute inset-0 w-full h-full" />
+
+        {/* Dim everything outside the clip */}
+        <div className="absolute inset-y-0 left-0 bg-black/60 pointer-events-none" style={{ width: `${percent(shown.start)}%` }} />
+        <div className="absolute inset-y-0 right-0 bg-black/60 pointer-events-none" style={{ left: `${percent(shown.end)}%` }} />
+
+        <div
+          onPointerDown={(e) => handlePointerDown(e, 'move')}
+          className="absolute inset-y-0 border-y-2 border-brand-400/70 cursor-grab active:cursor-grabbing"
+          style={{ left: `${percent(shown.start)}%`, width: `${percent(shown.end - shown.start)}%` }}
+          title="Drag to move the clip"
+        />
+        {(['start', 'end'] as const).map(edge => (
+          <div
+            key={edge}
+            onPointerDown={(e) => handlePointerDown(e, edge)}
+            className="absolute inset-y-0 w-3 -translate-x-1/2 cursor-ew-resize flex justify-center"
+            style={{ left: `${percent(shown[edge])}%` }}
+            title={edge === 'start' ? 'Clip start (snaps to bars)' : 'Clip end (snaps to bars)'}
+          >
+            <div className="w-1 h-full bg-brand-400 rounded-full" />
+          </div>
+        ))}
+
+        <div ref={playheadRef} className="absolute top-0 bottom-0 w-0.5 bg-white pointer-events-none" style={{ left: 0 }} />
+      </div>
+
+      <div className="flex items-center gap-3 text-xs">
+        <label className="flex items-center gap-2 text-gray-400">
+          Fade in
+          <select value={shown.fadeIn} onChange={(e) => setFade('fadeIn', parseFloat(e.target.value))} className={selectClass}>
+            {REGION_FADES.map(f => <option key={f.seconds} value={f.seconds}>{f.label}</option>)}
+          </select>
+        </label>
+        <label className="flex items-center gap-2 text-gray-400">
+          Fade out
+          <select value={shown.fadeOut} onChange={(e) => setFade('fadeOut', parseFloat(e.target.value))} className={selectClass}>
+            {REGION_FADES.map(f => <option key={f.seconds} value={f.seconds}>{f.label}</option>)}
+          </select>
+        </label>
+        {region && (
+          <button onClick={() => onChange(null)} className="ml-auto flex items-center gap-1 text-gray-500 hover:text-white" title="Use the first seconds of the track">
+            <RotateCcw size={12} /> Reset
+          </button>
+        )}
+      </div>
+      <p className="text-[11px] text-gray-500 leading-tight">
+        Up to {MAX_REGION_SECONDS}s. The clip starts and ends on a bar line, so it loops seamlessly. Preview and export use this region.
+      </p>
+    </div>
+  );
+};
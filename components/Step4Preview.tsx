@@ -1,50 +1,160 @@
-import React, { useEffect, useRef, useState, useCallback } from 'react';
-import { Play, Pause, Download, RefreshCcw, AlertTriangle, Loader2, Zap, Music } from 'lucide-react';
-import { AppState, PoseType, GeneratedFrame } from '../types';
+import React, { useEffect, useRef, useState, useCallback, useMemo } from 'react';
+import { Play, Pause, Download, RefreshCcw, AlertTriangle, Loader2, Zap, Check, X, Clock, Blend, Layers, Scissors, Upload, Sparkles, Maximize, Minimize, Mic, Frame } from 'lucide-react';
+import { AppState, PoseType, ExportFormat, ExportSettings, FrameJob, GeneratedFrame, GenerationRun, PoseTransitionSettings, SafeArea } from '../types';
+import { BACKGROUND_EFFECTS, EASINGS, EXPORT_BITRATES, EXPORT_COLORS, EXPORT_FORMATS, MOD_SOURCES, POSE_TRANSITIONS, POST_EFFECTS, SEGMENTATION_SOURCES, TRANSITION_LENGTHS } from '../constants';
+import { BackgroundLayer, advanceChoreography, buildSequence, createChoreographyState, currentPose, drawScene, keyframePoses, resolvePoseBlend } from '../services/renderer';
+import { applyMask, createCleanPlate } from '../services/segmentation';
+import { beatCrossed, beatPhaseAt, createModulationState, evaluateModulation, measureBands } from '../services/modulation';
+import { PostFxChain, createPostFxChain } from '../services/postFx';
+import { findStyle } from '../services/styleLibrary';
+import { clipRegion, fadeGainAt } from '../services/audioRegion';
+import { LoadedLayer, advanceLayers, createLayerMotion, loadLayerImages } from '../services/sceneLayers';
+import { drawOverlays } from '../services/overlays';
+import { createVisualizerState } from '../services/visualizer';
+import { createLiveBeatTracker, liveBeatPhase, openLiveInput, stopLiveInput, trackLiveBeat } from '../services/liveInput';
+import { containRect, exportResolutions, findOutputPreset, fitExportSettings, previewSize } from '../services/outputFormat';
+import { resolveFrameGenerator } from '../services/frameGenerator';
+import { loadImage } from '../services/localGenerator';
+import { downloadBlob, exportLoop } from '../services/exporter';
+import { Timeline } from './Timeline';
+import { GenerationPanel } from './GenerationPanel';
+import { LayerPanel } from './LayerPanel';
+import { OverlayPanel } from './OverlayPanel';
+import { VisualizerPanel } from './VisualizerPanel';
+import { OutputFormatPicker } from './OutputFormatPicker';
+
+type Rect = { x: number; y: number; width: number; height: number };
+
+// Platform UI zones dimmed, the safe area outlined. Drawn on the display
+// canvas only, never into the output.
+const drawSafeArea = (ctx: CanvasRenderingContext2D, frame: Rect, safe: SafeArea) => {
+  const left = frame.x + frame.width * safe.left;
+  const top = frame.y + frame.height * safe.top;
+  const right = frame.x + frame.width * (1 - safe.right);
+  const bottom = frame.y + frame.height * (1 - safe.bottom);
+
+  ctx.fillStyle = 'rgba(0, 0, 0, 0.25)';
+  ctx.fillRect(frame.x, frame.y, frame.width, top - frame.y);
+  ctx.fillRect(frame.x, bottom, frame.width, frame.y + frame.height - bottom);
+  ctx.fillRect(frame.x, top, left - frame.x, bottom - top);
+  ctx.fillRect(right, top, frame.x + frame.width - right, bottom - top);
+
+  ctx.save();
+  ctx.strokeStyle = 'rgba(255, 255, 255, 0.6)';
+  ctx.lineWidth = 1;
+  ctx.setLineDash([6, 4]);
+  ctx.strokeRect(Math.round(left) + 0.5, Math.round(top) + 0.5, Math.round(right - left), Math.round(bottom - top));
+  ctx.restore();
+};
+
+const FrameJobRow: React.FC<{ job: FrameJob }> = ({ job }) => {
+  const label = {
+    pending: 'Queued',
+    rendering: 'Rendering...',
+    retrying: `Retrying (attempt ${job.attempt})...`,
+    done: 'Done',
+    failed: 'Failed',
+    cancelled: 'Cancelled',
+  }[job.status];
+  return (
+    <div className="flex items-center gap-3 bg-dark-surface border border-dark-border rounded-lg px-3 py-2 text-xs">
+      <span className="font-bold text-white uppercase tracking-wider w-12">{job.pose}</span>
+      <span className="flex-1 truncate text-gray-500" title={job.error || job.prompt}>{job.error || job.prompt}</span>
+      <span className={`flex items-center gap-1 shrink-0
+        ${job.status === 'done' ? 'text-green-400' : job.status === 'failed' ? 'text-red-400' : job.status === 'retrying' ? 'text-yellow-400' : 'text-gray-400'}
+      `}>
+        {job.status === 'done' && <Check size={12} />}
+        {job.status === 'failed' && <X size={12} />}
+        {job.status === 'pending' && <Clock size={12} />}
+        {(job.status === 'rendering' || job.status === 'retrying') && <Loader2 size={12} className="animate-spin" />}
+        {label}
+      </span>
+    </div>
+  );
+};
 
 interface Step4Props {
   state: AppState;
   onGenerateMore: () => void;
+  onCancelGeneration: () => void;
+  onAlignFrames: () => Promise<void>;
+  onSegmentFrames: () => Promise<void>;
+  onBackgroundUpload: (file: File | null) => void;
+  onRegenerateFrame: (pose: PoseType, prompt: string) => Promise<void>;
+  onRestoreRun: (run: GenerationRun) => void;
+  onAddLayer: (file: File) => void;
+  onGenerateLayer: (id: string) => void;
+  onCancelLayerGeneration: () => void;
+  onUpdate: (key: string, value: any) => void;
 }
 
-export const Step4Preview: React.FC<Step4Props> = ({ state, onGenerateMore }) => {
-  const canvasRef = useRef<HTMLCanvasElement>(null);
+export const Step4Preview: React.FC<Step4Props> = ({
+  state, onGenerateMore, onCancelGeneration, onAlignFrames, onSegmentFrames, onBackgroundUpload, onRegenerateFrame, onRestoreRun,
+  onAddLayer, onGenerateLayer, onCancelLayerGeneration, onUpdate
+}) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null); // Display, follows the element size
+  const outputRef = useRef<HTMLCanvasElement | null>(null); // Offscreen frame at the output size
   const containerRef = useRef<HTMLDivElement>(null);
+  const stageRef = useRef<HTMLDivElement>(null); // Canvas and controls, the fullscreen element
   
   // Audio Graph Refs
   const audioRef = useRef<HTMLAudioElement | null>(null);
   const audioCtxRef = useRef<AudioContext | null>(null);
   const analyserRef = useRef<AnalyserNode | null>(null);
-  const destRef = useRef<MediaStreamAudioDestinationNode | null>(null);
+  const gainRef = useRef<GainNode | null>(null); // Region fades
   const sourceRef = useRef<MediaElementAudioSourceNode | null>(null);
+  const streamRef = useRef<MediaStream | null>(null); // Live input
+  const liveBeatRef = useRef(createLiveBeatTracker());
   
   // Animation State Refs
   const requestRef = useRef<number>(0);
   const lastBeatTimeRef = useRef<number>(0);
+  const lastFrameTimeRef = useRef<number>(0);
+  const lastAudioTimeRef = useRef<number>(0); // For beat grid crossings
   
   // Beat Detection State
   const energyHistoryRef = useRef<number[]>([]);
+  const modulationRef = useRef(createModulationState());
+  const visualizerRef = useRef(createVisualizerState());
+
+  // WebGL post-processing, null when WebGL is unavailable
+  const postFxRef = useRef<PostFxChain | null>(null);
+  const styleEffects = useMemo(() => findStyle(state.selectedStyleId, state.customStyles)?.effects ?? [], [state.selectedStyleId, state.customStyles]);
+  const effects = useMemo(() => state.postEffects ? styleEffects : [], [state.postEffects, styleEffects]);
   
-  // Choreography State
-  // We now use a sequence index instead of hardcoded poses
-  const sequenceIndexRef = useRef<number>(0); 
-  const beatFlashRef = useRef<number>(0);
+  // Choreography State (shared with the offline exporter)
+  const poses = useMemo(() => keyframePoses(state.keyframeCount), [state.keyframeCount]);
+  const sequence = useMemo(() => buildSequence(poses, state.sequenceOrder), [poses, state.sequenceOrder]);
+  const choreoRef = useRef(createChoreographyState(sequence));
+
+  useEffect(() => {
+    choreoRef.current = createChoreographyState(sequence);
+  }, [sequence, state.choreography]);
   
   // Component State
   const [isPlaying, setIsPlaying] = useState(false);
-  const [isRecording, setIsRecording] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
   const [downloadProgress, setDownloadProgress] = useState(0);
   const [audioReady, setAudioReady] = useState(false);
   
   const [poseImages, setPoseImages] = useState<Record<string, HTMLImageElement>>({});
   const [imagesReady, setImagesReady] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [isFullscreen, setIsFullscreen] = useState(false);
+  const [showSafeArea, setShowSafeArea] = useState(true);
+
+  const outputPreset = findOutputPreset(state.outputPreset);
+  const output = useMemo(() => previewSize(outputPreset), [outputPreset]);
+
+  // Live input has no track: no beat grid, timeline or region
+  const isLive = state.audioSource === 'live';
+  const analysis = isLive ? null : state.audioAnalysis;
 
   // ---------------------------------------------------------------------------
   // 1. Asset Loading (Images)
   // ---------------------------------------------------------------------------
   useEffect(() => {
-    const framesToLoad = state.generatedFrames.length > 0 
+    const framesToLoad: GeneratedFrame[] = state.generatedFrames.length > 0 
       ? state.generatedFrames 
       : state.imagePreviewUrl 
         ? [{ url: state.imagePreviewUrl, pose: 'base' as PoseType }] 
@@ -55,7 +165,7 @@ export const Step4Preview: React.FC<Step4Props> = ({ state, onGenerateMore }) =>
         return;
     }
 
-    setImagesReady(false);
+    // Keep showing the previous images while swapped frames load
     const newPoseMap: Record<string, HTMLImageElement> = {};
     let loadedCount = 0;
     let isMounted = true;
@@ -67,7 +177,7 @@ export const Step4Preview: React.FC<Step4Props> = ({ state, onGenerateMore }) =>
                 // Fallback: Map missing poses to base if needed
                 const baseImg = newPoseMap['base'];
                 if (baseImg) {
-                    ['var1', 'var2', 'var3'].forEach(p => {
+                    poses.forEach(p => {
                         if (!newPoseMap[p]) newPoseMap[p] = baseImg;
                     });
                     setPoseImages(newPoseMap);
@@ -79,24 +189,96 @@ export const Step4Preview: React.FC<Step4Props> = ({ state, onGenerateMore }) =>
         }
     };
 
+    // Segmented frames are drawn as cutouts over the background layer
+    const useCutouts = state.segmentation !== 'off';
     framesToLoad.forEach((frame) => {
-      const img = new Image();
-      img.crossOrigin = "anonymous"; 
-      img.src = frame.url;
-      img.onload = () => {
-        newPoseMap[frame.pose] = img;
-        loadedCount++;
-        checkDone();
-      };
-      img.onerror = (e) => {
-        console.error(`Failed to load frame ${frame.pose}`, e);
-        loadedCount++;
-        checkDone();
-      };
+      const load = useCutouts && frame.maskUrl ? applyMask(frame.url, frame.maskUrl) : loadImage(frame.url);
+      load
+        .then(img => { newPoseMap[frame.pose] = img; })
+        .catch(e => console.error(`Failed to load frame ${frame.pose}`, e))
+        .finally(() => {
+          loadedCount++;
+          checkDone();
+        });
     });
 
     return () => { isMounted = false; };
-  }, [state.generatedFrames, state.imagePreviewUrl]);
+  }, [state.generatedFrames, state.imagePreviewUrl, state.segmentation, poses]);
+
+  // Scene layers. Decoded images are cached per pose set, so moving or
+  // restyling a layer does not decode it again.
+  const layerImageCache = useRef(new WeakMap<GeneratedFrame[], { cutout: boolean; images: Promise<HTMLImageElement[]> }>());
+  const [loadedLayers, setLoadedLayers] = useState<LoadedLayer[]>([]);
+  const layerMotionRef = useRef(createLayerMotion());
+
+  useEffect(() => {
+    let isMounted = true;
+    const cache = layerImageCache.current;
+    Promise.all(state.layers.map(async (layer): Promise<LoadedLayer> => {
+      let entry = cache.get(layer.frames);
+      if (!entry || entry.cutout !== layer.cutout) {
+        entry = { cutout: layer.cutout, images: loadLayerImages(layer).catch(() => []) };
+        cache.set(layer.frames, entry);
+      }
+      return { layer, images: await entry.images };
+    })).then(layers => { if (isMounted) setLoadedLayers(layers); });
+    return () => { isMounted = false; };
+  }, [state.layers]);
+
+  // Background layer: the replacement if set, else the base frame with its
+  // subject painted out. Only used once frames are segmented.
+  const [background, setBackground] = useState<Omit<BackgroundLayer, 'effect'> | null>(null);
+  const baseFrame = state.generatedFrames.find(f => f.pose === 'base');
+
+  useEffect(() => {
+    let isMounted = true;
+    let video: HTMLVideoElement | null = null;
+
+    const load = async (): Promise<Omit<BackgroundLayer, 'effect'> | null> => {
+      if (state.segmentation === 'off') return null;
+      if (state.backgroundFile && state.backgroundPreviewUrl) {
+        if (!state.backgroundFile.type.startsWith('video/')) {
+          return { source: await loadImage(state.backgroundPreviewUrl), fit: 'cover' };
+        }
+        video = document.createElement('video');
+        video.muted = true;
+        video.loop = true;
+        video.playsInline = true;
+        video.src = state.backgroundPreviewUrl;
+        video.play().catch(e => console.warn("Background video did not start:", e));
+        return { source: video, fit: 'cover' };
+      }
+      if (baseFrame?.maskUrl) return { source: await createCleanPlate(baseFrame.url, baseFrame.maskUrl), fit: 'contain' };
+      return null;
+    };
+
+    load()
+      .then(layer => { if (isMounted) setBackground(layer); })
+      .catch(e => {
+        console.error("Background layer failed:", e);
+        if (isMounted) setBackground(null);
+      });
+
+    return () => {
+      isMounted = false;
+      video?.pause();
+      video?.removeAttribute('src');
+    };
+  }, [state.segmentation, state.backgroundFile, state.backgroundPreviewUrl, baseFrame?.url, baseFrame?.maskUrl]);
+
+  // The clean plate lines up with the subject, so it follows a crop
+  const backgroundLayer = useMemo<BackgroundLayer | undefined>(
+    () => background
+      ? { ...background, fit: state.framing === 'crop' ? 'cover' : background.fit, effect: state.backgroundEffect }
+      : undefined,
+    [background, state.framing, state.backgroundEffect]
+  );
+
+  // Track span that plays, loops and exports
+  const region = useMemo(
+    () => clipRegion(state.audioRegion, state.duration, state.audioAnalysis),
+    [state.audioRegion, state.duration, state.audioAnalysis]
+  );
 
   // ---------------------------------------------------------------------------
   // 2. Audio Engine Initialization
@@ -130,18 +312,17 @@ export const Step4Preview: React.FC<Step4Props> = ({ state, onGenerateMore }) =>
         // Important for mobile/Safari
         (audio as any).playsInline = true; 
 
-        const dest = ctx.createMediaStreamDestination(); 
-
         // Create source only once
         const source = ctx.createMediaElementSource(audio);
-        source.connect(analyser);
+        const gain = ctx.createGain();
+        source.connect(gain);
+        gain.connect(analyser); // Analyse after the fades, like the export
         analyser.connect(ctx.destination); // To speakers
-        source.connect(dest); // To recorder
 
         audioCtxRef.current = ctx;
         analyserRef.current = analyser;
+        gainRef.current = gain;
         audioRef.current = audio;
-        destRef.current = dest;
         sourceRef.current = source;
 
         audio.addEventListener('ended', () => setIsPlaying(false));
@@ -155,55 +336,125 @@ export const Step4Preview: React.FC<Step4Props> = ({ state, onGenerateMore }) =>
     }
   }, [state.audioPreviewUrl]);
 
+  const startLiveInput = useCallback(async () => {
+    try {
+        if (audioCtxRef.current) audioCtxRef.current.close();
+        audioRef.current?.pause();
+        audioRef.current = null;
+
+        const stream = await openLiveInput(state.liveInput.deviceId);
+        const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
+        const ctx = new AudioContextClass();
+        const analyser = ctx.createAnalyser();
+        analyser.fftSize = 2048;
+        analyser.smoothingTimeConstant = 0.8;
+        // Analysed only, the room already hears the source
+        ctx.createMediaStreamSource(stream).connect(analyser);
+
+        audioCtxRef.current = ctx;
+        analyserRef.current = analyser;
+        gainRef.current = null;
+        streamRef.current = stream;
+        liveBeatRef.current = createLiveBeatTracker();
+        energyHistoryRef.current = [];
+        setIsPlaying(true);
+    } catch (err) {
+        console.error("Live input error:", err);
+        setError(err instanceof Error ? err.message : "Could not open the audio input.");
+    }
+  }, [state.liveInput.deviceId]);
+
+  const stopLive = useCallback(() => {
+    stopLiveInput(streamRef.current);
+    streamRef.current = null;
+    audioCtxRef.current?.close();
+    audioCtxRef.current = null;
+    analyserRef.current = null;
+    setIsPlaying(false);
+  }, []);
+
+  // Release the input, the track and the audio context when leaving the preview
+  useEffect(() => () => {
+    stopLiveInput(streamRef.current);
+    audioRef.current?.pause();
+    audioCtxRef.current?.close();
+  }, []);
+
+  useEffect(() => {
+    const onChange = () => setIsFullscreen(document.fullscreenElement === stageRef.current);
+    document.addEventListener('fullscreenchange', onChange);
+    return () => document.removeEventListener('fullscreenchange', onChange);
+  }, []);
+
+  // Output view for projection, the canvas follows the element size
+  const toggleFullscreen = () => {
+    if (document.fullscreenElement) {
+        document.exitFullscreen();
+    } else {
+        stageRef.current?.requestFullscreen().catch(() => setError("Fullscreen is not available in this browser."));
+    }
+  };
+
   // ---------------------------------------------------------------------------
   // 3. Render Loop (The Choreographer)
   // ---------------------------------------------------------------------------
   const renderFrame = useCallback((time: number) => {
-    const canvas = canvasRef.current;
-    const ctx = canvas?.getContext('2d');
+    const display = canvasRef.current;
+    const displayCtx = display?.getContext('2d');
+    if (!outputRef.current) outputRef.current = document.createElement('canvas');
+    const canvas = outputRef.current;
+    const ctx = canvas.getContext('2d');
     
-    if (!canvas || !ctx || !imagesReady || !poseImages['base']) {
+    if (!display || !displayCtx || !ctx || !imagesReady || !poseImages['base']) {
         requestRef.current = requestAnimationFrame(renderFrame);
         return;
     }
 
-    // Handle High DPI
-    const parent = containerRef.current;
-    if (parent) {
-        const rect = parent.getBoundingClientRect();
-        const dpr = window.devicePixelRatio || 1;
-        
-        // Resize if needed
-        if (canvas.width !== rect.width * dpr || canvas.height !== rect.height * dpr) {
-            canvas.width = rect.width * dpr;
-            canvas.height = rect.height * dpr;
-            ctx.scale(dpr, dpr);
-        }
+    // The frame is drawn at the output size, independent of the page layout
+    const { width, height } = output;
+    if (canvas.width !== width || canvas.height !== height) {
+        canvas.width = width;
+        canvas.height = height;
     }
 
-    const width = canvas.width / (window.devicePixelRatio || 1);
-    const height = canvas.height / (window.devicePixelRatio || 1);
+    const deltaTime = lastFrameTimeRef.current ? time - lastFrameTimeRef.current : 0;
+    lastFrameTimeRef.current = time;
 
     // --- AUDIO ANALYSIS ---
     let isBeat = false;
-    let bassLevel = 0; // 0.0 to 1.0
-    
-    if (analyserRef.current && (isPlaying || isRecording)) {
+    let dataArray: Uint8Array | null = null;
+    let waveform: Uint8Array | null = null;
+    let rms = 0;
+
+    // Loop the region. The element loops the whole track, so a wrap to 0 is caught here too.
+    const audio = audioRef.current;
+    if (!isLive && audio && isPlaying && (audio.currentTime >= region.end || audio.currentTime < region.start - 0.05)) {
+        audio.currentTime = region.start;
+    }
+    // Live input runs on the frame clock
+    const audioTime = isLive ? time / 1000 : (audio?.currentTime ?? 0);
+    if (gainRef.current) gainRef.current.gain.value = fadeGainAt(region, audioTime);
+
+    if (analyserRef.current && isPlaying) {
         const bufferLength = analyserRef.current.frequencyBinCount;
-        const dataArray = new Uint8Array(bufferLength);
+        dataArray = new Uint8Array(bufferLength);
         analyserRef.current.getByteFrequencyData(dataArray);
 
-        // Calculate Bass Energy (40Hz - 150Hz)
-        // SampleRate ~48000 / 2048 = ~23Hz per bin
-        // Bins 2 to 8 roughly cover the kick area
-        let bassSum = 0;
-        const startBin = 2;
-        const endBin = 8;
-        for (let i = startBin; i < endBin; i++) {
-            bassSum += dataArray[i];
-        }
-        bassLevel = (bassSum / (endBin - startBin)) / 255;
+        waveform = new Uint8Array(analyserRef.current.fftSize);
+        analyserRef.current.getByteTimeDomainData(waveform);
+        let energy = 0;
+        for (let i = 0; i < waveform.length; i++) energy += ((waveform[i] - 128) / 128) ** 2;
+        rms = Math.sqrt(energy / waveform.length);
+    }
+
+    // Band levels for the modulation matrix, bass also drives the beat detector
+    const beatPhase = !isPlaying ? 0 : isLive ? liveBeatPhase(liveBeatRef.current, time) : beatPhaseAt(analysis, audioTime);
+    // The preview context runs at the device rate, the export analysis at 48kHz
+    const sampleRate = audioCtxRef.current?.sampleRate;
+    const bands = measureBands(modulationRef.current, dataArray, rms, beatPhase, sampleRate);
+    const bassLevel = bands.bass;
 
+    if (dataArray) {
         // Dynamic Thresholding
         const historySize = 60; // ~1 second at 60fps
         energyHistoryRef.current.push(bassLevel);
@@ -227,97 +478,77 @@ export const Step4Preview: React.FC<Step4Props> = ({ state, onGenerateMore }) =>
         }
     }
 
-    // --- SEQUENCER (Ping-Pong Loop) ---
-    // This pattern ensures smooth transitions: Base -> Var1 -> Var2 -> Var3 -> Var2 -> Var1 -> Base
-    const sequence: PoseType[] = ['base', 'var1', 'var2', 'var3', 'var2', 'var1'];
-    
-    if (isBeat) {
-        beatFlashRef.current = 1.0;
-        // Advance the sequence
-        sequenceIndexRef.current = (sequenceIndexRef.current + 1) % sequence.length;
-        
-        // Occasional random stutter for dynamic feel (10% chance on beat)
-        if (Math.random() < 0.1) {
-             sequenceIndexRef.current = (sequenceIndexRef.current + 2) % sequence.length;
-        }
-    }
-
-    const desiredPose = sequence[sequenceIndexRef.current];
-    const img = poseImages[desiredPose] || poseImages['base'];
-
-    // --- DRAWING ---
-    
-    // 1. Clear
-    ctx.fillStyle = '#000';
-    ctx.fillRect(0, 0, width, height);
-
-    // 2. Draw Image with "Thump" Scale
-    if (img) {
-        // Thump calculation
-        const thump = bassLevel * 0.05; // Max 5% scale
-        const scale = Math.min(width / img.width, height / img.height) * (1 + thump);
-        
-        const drawW = img.width * scale;
-        const drawH = img.height * scale;
-        // Center and apply slight shake on beat
-        let shakeX = 0;
-        let shakeY = 0;
-        if (bassLevel > 0.6) {
-            shakeX = (Math.random() - 0.5) * 10;
-            shakeY = (Math.random() - 0.5) * 10;
-        }
+    // Live: detections arrive late, a tempo lock fires the beats on time instead
+    if (isLive && isPlaying) isBeat = trackLiveBeat(liveBeatRef.current, isBeat, time, state.liveInput.latency);
 
-        const drawX = (width - drawW) / 2 + shakeX;
-        const drawY = (height - drawH) / 2 + shakeY;
+    // --- SEQUENCER ---
+    // Timeline first, then the pre-analysed beat grid, else detected beats.
+    // Follows the audio position even when paused so scrubbing updates the pose.
+    const { values: mod, advance } = evaluateModulation(state.modulation, modulationRef.current, bands, deltaTime);
+    advanceChoreography(choreoRef.current, {
+        time: audioTime,
+        isBeat,
+        cues: isLive ? [] : state.choreography,
+        analysis,
+        beatDivision: state.beatDivision,
+        advance,
+    });
 
-        ctx.save();
-        ctx.translate(width/2, height/2);
-        
-        // Slight rotation based on bass for extra life
-        const rotation = Math.sin(time / 500) * 0.01 + (bassLevel * 0.02 * (sequenceIndexRef.current % 2 === 0 ? 1 : -1));
-        ctx.rotate(rotation);
-        
-        ctx.drawImage(img, -drawW/2, -drawH/2, drawW, drawH);
-        ctx.restore();
-    }
+    // Particles follow the beat grid when there is one, else the detector
+    const visualizerBeat = isPlaying && (analysis ? beatCrossed(analysis, lastAudioTimeRef.current, audioTime) : isBeat);
+    lastAudioTimeRef.current = audioTime;
 
-    // 3. Beat Flash Overlay
-    if (beatFlashRef.current > 0.01) {
-        beatFlashRef.current *= 0.85; // Fast decay
-        ctx.globalCompositeOperation = 'overlay';
-        ctx.fillStyle = `rgba(255, 255, 255, ${beatFlashRef.current * 0.15})`;
-        ctx.fillRect(0, 0, width, height);
-        ctx.globalCompositeOperation = 'source-over';
-    }
+    const img = poseImages[currentPose(choreoRef.current)] || poseImages['base'];
+    const beatPeriod = isLive ? liveBeatRef.current.period / 1000 || undefined : analysis?.beatPeriod;
+    const blend = resolvePoseBlend(choreoRef.current, audioTime, state.poseTransition, beatPeriod, poseImages);
 
-    // 4. Mirrored Visualizer
-    if (analyserRef.current && (isPlaying || isRecording)) {
-        const bufferLength = analyserRef.current.frequencyBinCount;
-        const dataArray = new Uint8Array(bufferLength);
-        analyserRef.current.getByteFrequencyData(dataArray);
+    // --- DRAWING ---
+    drawScene(ctx, width, height, {
+        img,
+        bassLevel,
+        time,
+        deltaTime,
+        spectrum: dataArray,
+        waveform,
+        sampleRate,
+        visualizer: { settings: state.visualizer, state: visualizerRef.current },
+        beat: visualizerBeat,
+        blend,
+        background: backgroundLayer,
+        layers: advanceLayers(layerMotionRef.current, loadedLayers, bands, deltaTime),
+        framing: state.framing,
+        mod,
+    }, choreoRef.current, Math.random);
+    postFxRef.current?.apply(ctx, effects, bands, audioTime);
+    drawOverlays(ctx, width, height, state.overlays, isLive ? null : audioTime, bands, Math.random);
 
-        const bars = 32;
-        const barWidth = width / bars / 2; // Split left/right
-        const center = width / 2;
-
-        ctx.fillStyle = 'rgba(255, 255, 255, 0.5)';
-        ctx.beginPath();
-        for (let i = 0; i < bars; i++) {
-            // Logarithmic bin selection for better visual
-            const binIndex = Math.floor(Math.pow(i / bars, 1.5) * (bufferLength / 2));
-            const val = dataArray[binIndex];
-            const barH = (val / 255) * (height * 0.25);
-
-            // Right side
-            ctx.rect(center + (i * barWidth), height - barH - 10, barWidth - 1, barH);
-            // Left side
-            ctx.rect(center - ((i + 1) * barWidth), height - barH - 10, barWidth - 1, barH);
-        }
-        ctx.fill();
+    // --- DISPLAY ---
+    // Letterboxed into the element at device resolution
+    const parent = containerRef.current;
+    const dpr = window.devicePixelRatio || 1;
+    const area = parent ? parent.getBoundingClientRect() : { width, height };
+    const displayW = Math.round(area.width * dpr);
+    const displayH = Math.round(area.height * dpr);
+    if (display.width !== displayW || display.height !== displayH) {
+        display.width = displayW;
+        display.height = displayH;
     }
+    const frameRect = containRect(width, height, displayW, displayH);
+    displayCtx.fillStyle = '#000';
+    displayCtx.fillRect(0, 0, displayW, displayH);
+    displayCtx.drawImage(canvas, frameRect.x, frameRect.y, frameRect.width, frameRect.height);
+    if (showSafeArea && !isFullscreen) drawSafeArea(displayCtx, frameRect, outputPreset.safeArea);
 
     requestRef.current = requestAnimationFrame(renderFrame);
-  }, [imagesReady, poseImages, isPlaying, isRecording, state.intensity]);
+  }, [imagesReady, poseImages, isPlaying, state.intensity, analysis, isLive, state.liveInput.latency, state.beatDivision, state.choreography, state.poseTransition, state.modulation, effects, backgroundLayer, loadedLayers, region, state.framing, output, outputPreset, showSafeArea, isFullscreen, state.overlays, state.visualizer]);
+
+  useEffect(() => {
+    postFxRef.current = createPostFxChain();
+    return () => {
+      postFxRef.current?.dispose();
+      postFxRef.current = null;
+    };
+  }, []);
 
   // Start Loop
   useEffect(() => {
@@ -329,6 +560,12 @@ export const Step4Preview: React.FC<Step4Props> = ({ state, onGenerateMore }) =>
   // 4. Interactions
   // ---------------------------------------------------------------------------
   const togglePlay = async () => {
+    if (isLive) {
+        if (isPlaying) stopLive();
+        else await startLiveInput();
+        return;
+    }
+
     if (!audioRef.current) {
         if (!initAudio()) return;
     }
@@ -344,6 +581,8 @@ export const Step4Preview: React.FC<Step4Props> = ({ state, onGenerateMore }) =>
         audioRef.current.pause();
         setIsPlaying(false);
     } else {
+        const { currentTime } = audioRef.current;
+        if (currentTime < region.start || currentTime >= region.end) audioRef.current.currentTime = region.start;
         audioRef.current.play()
             .then(() => setIsPlaying(true))
             .catch(e => {
@@ -353,103 +592,105 @@ export const Step4Preview: React.FC<Step4Props> = ({ state, onGenerateMore }) =>
     }
   };
 
+  const exportFormat = EXPORT_FORMATS.find(f => f.id === state.exportFormat) || EXPORT_FORMATS[0];
+  const exportSettings = state.exportSettings[exportFormat.id];
+  const resolutions = exportResolutions(outputPreset);
+
+  const updateExportSettings = (patch: Partial<ExportSettings>) => {
+      onUpdate('exportSettings', {
+          ...state.exportSettings,
+          [exportFormat.id]: { ...exportSettings, ...patch },
+      });
+  };
+
+  const updateTransition = (patch: Partial<PoseTransitionSettings>) => {
+      onUpdate('poseTransition', { ...state.poseTransition, ...patch });
+  };
+
+  const canProviderSegment = !!resolveFrameGenerator(state.generatorId).segmentFrame;
+  const unmaskedCount = state.generatedFrames.filter(f => !f.maskUrl).length;
+
+  // ---------------------------------------------------------------------------
+  // 5. Timeline
+  // ---------------------------------------------------------------------------
+  const regionLength = region.end - region.start;
+
+  const getCurrentTime = useCallback(() => audioRef.current?.currentTime ?? 0, []);
+
+  const handleSeek = (time: number) => {
+    if (!audioRef.current && !initAudio()) return;
+    if (audioRef.current) audioRef.current.currentTime = time;
+  };
+
   const handleDownload = async () => {
-      // 1. Prepare Audio
-      if (!audioRef.current) if (!initAudio()) return;
-      if (!audioRef.current || !destRef.current || !canvasRef.current || !audioCtxRef.current) {
-          setError("Engine not ready for export.");
+      // Silent loops do not need the track, live input is never recorded
+      if (exportFormat.kind === 'video' && !state.audioPreviewUrl) {
+          setError(isLive ? "Video export needs an audio file. Live input is not recorded." : "Audio file is missing.");
           return;
       }
 
-      setIsRecording(true);
-      setDownloadProgress(0);
-
-      // Reset playback
-      if (isPlaying) {
+      // Stop live playback, the export does not depend on it
+      if (isPlaying && audioRef.current) {
         audioRef.current.pause();
         setIsPlaying(false);
       }
-      audioRef.current.currentTime = 0;
-      audioRef.current.loop = false; 
-
-      if (audioCtxRef.current.state === 'suspended') await audioCtxRef.current.resume();
-
-      // 2. Setup Recorder
-      // 30 FPS for smoother video
-      const canvasStream = canvasRef.current.captureStream(30); 
-      const audioStream = destRef.current.stream;
-      
-      const combined = new MediaStream([
-          ...canvasStream.getVideoTracks(),
-          ...audioStream.getAudioTracks()
-      ]);
-
-      // Prefer VP9 for better quality/compression, fallback to default
-      const mimeType = MediaRecorder.isTypeSupported('video/webm;codecs=vp9') 
-        ? 'video/webm;codecs=vp9'
-        : 'video/webm';
-
-      const recorder = new MediaRecorder(combined, {
-          mimeType,
-          videoBitsPerSecond: 5000000 // 5Mbps
-      });
+      if (isPlaying && isLive) stopLive();
+
+      setIsExporting(true);
+      setDownloadProgress(0);
 
-      const chunks: Blob[] = [];
-      recorder.ondataavailable = (e) => { if (e.data.size > 0) chunks.push(e.data); };
-      
-      recorder.onstop = () => {
-          const blob = new Blob(chunks, { type: 'video/webm' });
-          const url = URL.createObjectURL(blob);
-          
-          // Auto trigger download
-          const a = document.createElement('a');
-          a.href = url;
-          a.download = `RhythmLoop_${Date.now()}.webm`;
-          document.body.appendChild(a);
-          a.click();
-          document.body.removeChild(a);
-          
-          URL.revokeObjectURL(url);
-          setIsRecording(false);
-          
-          // Restore loop state
-          if (audioRef.current) {
-            audioRef.current.loop = true;
-            audioRef.current.currentTime = 0;
-          }
-      };
-
-      // 3. Start Recording Sequence
-      recorder.start();
-      audioRef.current.play();
-
-      // 4. Monitor Progress
-      const duration = state.duration;
-      const interval = setInterval(() => {
-          if (!audioRef.current) return;
-          
-          const p = (audioRef.current.currentTime / duration) * 100;
-          setDownloadProgress(Math.min(99, p));
-          
-          if (audioRef.current.currentTime >= duration) {
-              recorder.stop();
-              audioRef.current.pause();
-              clearInterval(interval);
-              setDownloadProgress(100);
-          }
-      }, 100);
+      try {
+          const blob = await exportLoop({
+              format: exportFormat.id,
+              settings: exportSettings,
+              poseImages,
+              sequence,
+              analysis: state.audioAnalysis,
+              beatDivision: state.beatDivision,
+              cues: state.choreography,
+              transition: state.poseTransition,
+              background: backgroundLayer,
+              layers: loadedLayers,
+              framing: state.framing,
+              overlays: state.overlays,
+              visualizer: state.visualizer,
+              modulation: state.modulation,
+              effects,
+              audioUrl: state.audioPreviewUrl || '',
+              region,
+              intensity: state.intensity,
+              onProgress: setDownloadProgress,
+          });
+          downloadBlob(blob, `RhythmLoop_${Date.now()}.${exportFormat.extension}`);
+      } catch (err) {
+          console.error("Export failed:", err);
+          setError(err instanceof Error ? err.message : "Video export failed.");
+      } finally {
+          setIsExporting(false);
+      }
   };
 
   if (state.isGenerating) {
+    const finished = state.frameJobs.filter(j => j.status === 'done' || j.status === 'failed').length;
     return (
-      <div className="flex flex-col items-center justify-center h-[500px] w-full animate-fade-in">
-        <RefreshCcw className="animate-spin text-brand-500 mb-6" size={64} />
+      <div className="flex flex-col items-center justify-center min-h-[500px] w-full animate-fade-in">
+        <RefreshCcw className="animate-spin text-brand-500 mb-6" size={48} />
         <h2 className="text-2xl font-bold text-white">Generating Animation</h2>
         <p className="text-gray-400 mt-2 text-center max-w-md">
-            <span className="block font-semibold text-white mb-1">AI Director is planning your request...</span>
-            Analyzing "{state.motionPrompt}" and creating frame variations.<br/>
-            <span className="text-xs text-gray-600 mt-4 block">This takes about 15-20 seconds.</span>
+            Rendering {state.frameJobs.length} frame variations for "{state.motionPrompt}".
         </p>
+        <div className="w-64 h-2 bg-gray-800 rounded-full mt-6 overflow-hidden">
+            <div className="h-full bg-brand-500 transition-all duration-300" style={{ width: `${state.frameJobs.length ? (finished / state.frameJobs.length) * 100 : 0}%` }} />
+        </div>
+        <p className="text-gray-500 text-xs mt-2">{finished} / {state.frameJobs.length} frames</p>
+
+        <div className="w-full max-w-md mt-6 flex flex-col gap-1">
+            {state.frameJobs.map(job => <FrameJobRow key={job.pose} job={job} />)}
+        </div>
+
+        <button onClick={onCancelGeneration} className="mt-6 px-4 py-2 rounded-lg border border-gray-700 text-gray-300 hover:text-white hover:border-gray-500 text-sm transition-colors">
+            Cancel
+        </button>
       </div>
     );
   }
@@ -476,11 +717,11 @@ export const Step4Preview: React.FC<Step4Props> = ({ state, onGenerateMore }) =>
       <div className="flex flex-col lg:flex-row gap-8 w-full">
         {/* Canvas Container */}
         <div className="flex-1 flex flex-col gap-4">
-            <div className="bg-black rounded-2xl overflow-hidden shadow-2xl border border-dark-border relative group aspect-video lg:aspect-auto lg:h-[500px]">
+            <div ref={stageRef} className="bg-black rounded-2xl overflow-hidden shadow-2xl border border-dark-border relative group h-[360px] sm:h-[440px] lg:h-[500px]">
                 <div ref={containerRef} className="w-full h-full relative flex items-center justify-center bg-dark-surface">
-                    <canvas ref={canvasRef} className="w-full h-full object-contain" />
+                    <canvas ref={canvasRef} className="w-full h-full" />
                     
-                    {isRecording && (
+                    {isExporting && (
                         <div className="absolute inset-0 bg-black/80 z-30 flex flex-col items-center justify-center backdrop-blur-sm">
                             <div className="text-brand-500 mb-4 animate-pulse">
                                 <Zap size={48} />
@@ -489,82 +730,358 @@ export const Step4Preview: React.FC<Step4Props> = ({ state, onGenerateMore }) =>
                             <div className="w-64 h-2 bg-gray-800 rounded-full mt-6 overflow-hidden">
                                 <div className="h-full bg-brand-500 transition-all duration-100" style={{ width: `${downloadProgress}%` }} />
                             </div>
-                            <p className="text-gray-400 mt-4 text-sm">Recording real-time output...</p>
+                            <p className="text-gray-400 mt-4 text-sm">Rendering frames offline...</p>
                         </div>
                     )}
                 </div>
                 
-                {!isRecording && (
+                {!isExporting && (
                     <div className="absolute bottom-0 left-0 right-0 p-6 bg-gradient-to-t from-black/90 to-transparent flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity">
                         <button 
                             onClick={togglePlay} 
                             className="w-16 h-16 bg-white text-black rounded-full flex items-center justify-center hover:scale-105 transition-all shadow-lg shadow-white/20"
+                            title={isLive ? (isPlaying ? 'Stop listening' : 'Listen to the live input') : undefined}
                         >
-                            {isPlaying ? <Pause size={28} fill="currentColor" /> : <Play size={28} fill="currentColor" className="ml-1"/>}
+                            {isPlaying ? <Pause size={28} fill="currentColor" /> : isLive ? <Mic size={28} /> : <Play size={28} fill="currentColor" className="ml-1"/>}
+                        </button>
+                        <button
+                            onClick={() => setShowSafeArea(!showSafeArea)}
+                            className={`absolute left-6 p-2 hover:text-white ${showSafeArea ? 'text-brand-300' : 'text-white/70'}`}
+                            title={showSafeArea ? 'Hide safe area guides' : `Show safe area guides (${outputPreset.description})`}
+                        >
+                            <Frame size={20} />
+                        </button>
+                        <button
+                            onClick={toggleFullscreen}
+                            className="absolute right-6 p-2 text-white/70 hover:text-white"
+                            title={isFullscreen ? 'Exit fullscreen' : 'Fullscreen output'}
+                        >
+                            {isFullscreen ? <Minimize size={20} /> : <Maximize size={20} />}
                         </button>
                     </div>
                 )}
             </div>
+
+            {isLive ? (
+                <div className="bg-dark-surface p-4 rounded-2xl border border-dark-border shadow-lg flex items-center gap-3">
+                    <Mic size={16} className={isPlaying ? 'text-red-400 animate-pulse' : 'text-gray-500'} />
+                    <p className="text-xs text-gray-400 leading-tight">
+                        {isPlaying
+                            ? `Listening. Poses follow detected beats, fired ${state.liveInput.latency} ms early once the tempo locks.`
+                            : 'Live input. Press the microphone button to start listening, then go fullscreen for projection.'}
+                    </p>
+                </div>
+            ) : (
+            <Timeline
+                analysis={state.audioAnalysis}
+                start={region.start}
+                duration={regionLength}
+                beatDivision={state.beatDivision}
+                cues={state.choreography}
+                poses={poses}
+                sequence={sequence}
+                poseImages={poseImages}
+                getCurrentTime={getCurrentTime}
+                onSeek={handleSeek}
+                onChange={(cues) => onUpdate('choreography', cues)}
+            />
+            )}
         </div>
 
         {/* Sidebar Controls */}
         <div className="w-full lg:w-80 flex flex-col gap-4">
+           {/* Transitions Card */}
+           <div className="bg-dark-surface p-6 rounded-2xl border border-dark-border shadow-lg">
+             <h3 className="text-lg font-bold text-white mb-2 flex items-center gap-2">
+                 <Blend size={20} className="text-brand-400" /> Transitions
+             </h3>
+             <p className="text-gray-500 text-xs mb-4">
+                 {POSE_TRANSITIONS.find(t => t.id === state.poseTransition.mode)?.description}
+             </p>
+
+             <div className="grid grid-cols-4 gap-1 mb-3">
+                 {POSE_TRANSITIONS.map((mode) => (
+                     <button
+                        key={mode.id}
+                        onClick={() => updateTransition({ mode: mode.id })}
+                        className={`py-2 rounded-lg text-xs font-bold border transition-colors
+                          ${mode.id === state.poseTransition.mode
+                             ? 'bg-brand-600 border-brand-500 text-white'
+                             : 'bg-dark-bg border-gray-700 text-gray-400 hover:text-white'}
+                        `}
+                     >
+                        {mode.name}
+                     </button>
+                 ))}
+             </div>
+
+             {state.poseTransition.mode !== 'cut' && (
+                 <div className="grid grid-cols-2 gap-2">
+                     <select
+                        value={state.poseTransition.beats}
+                        onChange={(e) => updateTransition({ beats: parseFloat(e.target.value) })}
+                        className="bg-dark-bg border border-gray-700 rounded-lg px-2 py-2 text-xs text-gray-300 outline-none focus:border-brand-500"
+                     >
+                        {TRANSITION_LENGTHS.map(l => <option key={l.beats} value={l.beats}>{l.label} beat</option>)}
+                     </select>
+                     <select
+                        value={state.poseTransition.easing}
+                        onChange={(e) => updateTransition({ easing: e.target.value as PoseTransitionSettings['easing'] })}
+                        className="bg-dark-bg border border-gray-700 rounded-lg px-2 py-2 text-xs text-gray-300 outline-none focus:border-brand-500"
+                     >
+                        {EASINGS.map(e => <option key={e.id} value={e.id}>{e.name}</option>)}
+                     </select>
+                 </div>
+             )}
+           </div>
+
+           {/* Effects Card */}
+           <div className="bg-dark-surface p-6 rounded-2xl border border-dark-border shadow-lg">
+             <div className="flex items-center justify-between mb-2">
+                 <h3 className="text-lg font-bold text-white flex items-center gap-2">
+                     <Sparkles size={20} className="text-brand-400" /> Effects
+                 </h3>
+                 <button
+                    onClick={() => onUpdate('postEffects', !state.postEffects)}
+                    title={state.postEffects ? 'Disable style effects' : 'Enable style effects'}
+                    className={`w-9 h-5 rounded-full p-0.5 shrink-0 transition-colors ${state.postEffects ? 'bg-brand-600' : 'bg-gray-700'}`}
+                 >
+                    <span className={`block w-4 h-4 rounded-full bg-white transition-transform ${state.postEffects ? 'translate-x-4' : ''}`} />
+                 </button>
+             </div>
+             <p className="text-gray-500 text-xs mb-3">
+                 Post-processing stack of the selected style, pushed by the audio. Also applied to exports.
+             </p>
+             <div className={`space-y-1 ${state.postEffects ? '' : 'opacity-40'}`}>
+                 {styleEffects.map((effect) => (
+                     <div
+                        key={effect.type}
+                        title={POST_EFFECTS.find(e => e.id === effect.type)?.description}
+                        className="flex items-center justify-between bg-dark-bg border border-gray-700 rounded-lg px-3 py-1.5 text-xs"
+                     >
+                        <span className="text-gray-200">{POST_EFFECTS.find(e => e.id === effect.type)?.name}</span>
+                        <span className="text-gray-500">{MOD_SOURCES.find(s => s.id === effect.source)?.name}</span>
+                     </div>
+                 ))}
+                 {styleEffects.length === 0 && <p className="text-xs text-gray-500">This style has no effects.</p>}
+             </div>
+           </div>
+
+           <LayerPanel
+              layers={state.layers}
+              generatingLayerId={state.generatingLayerId}
+              onAdd={onAddLayer}
+              onChange={(layers) => onUpdate('layers', layers)}
+              onGenerate={onGenerateLayer}
+              onCancelGenerate={onCancelLayerGeneration}
+           />
+
+           <OverlayPanel
+              overlays={state.overlays}
+              getCurrentTime={getCurrentTime}
+              canSync={!isLive}
+              onChange={(overlays) => onUpdate('overlays', overlays)}
+              onError={setError}
+           />
+
+           <VisualizerPanel
+              settings={state.visualizer}
+              onChange={(visualizer) => onUpdate('visualizer', visualizer)}
+              disabledReason={exportFormat.kind === 'animation'
+                ? `${exportFormat.name} loops are silent and have no visualizer. Switch the export to MP4 or WebM to change it.`
+                : undefined}
+           />
+
+           {/* Background Card */}
+           <div className="bg-dark-surface p-6 rounded-2xl border border-dark-border shadow-lg">
+             <h3 className="text-lg font-bold text-white mb-2 flex items-center gap-2">
+                 <Layers size={20} className="text-brand-400" /> Background
+             </h3>
+             <p className="text-gray-500 text-xs mb-4">
+                 {SEGMENTATION_SOURCES.find(s => s.id === state.segmentation)?.description}
+             </p>
+
+             <div className="grid grid-cols-3 gap-1 mb-3">
+                 {SEGMENTATION_SOURCES.map((source) => (
+                     <button
+                        key={source.id}
+                        onClick={() => onUpdate('segmentation', source.id)}
+                        disabled={state.isSegmenting || (source.id === 'provider' && !canProviderSegment)}
+                        title={source.id === 'provider' && !canProviderSegment ? 'The selected frame generator cannot create masks' : source.description}
+                        className={`py-2 rounded-lg text-xs font-bold border transition-colors disabled:opacity-40
+                          ${source.id === state.segmentation
+                             ? 'bg-brand-600 border-brand-500 text-white'
+                             : 'bg-dark-bg border-gray-700 text-gray-400 hover:text-white'}
+                        `}
+                     >
+                        {source.name}
+                     </button>
+                 ))}
+             </div>
+
+             {state.segmentation !== 'off' && (
+                 <>
+                     {unmaskedCount > 0 && (
+                         <button
+                            onClick={onSegmentFrames}
+                            disabled={state.isSegmenting || state.isGenerating}
+                            className="w-full mb-3 py-2 rounded-lg border border-brand-500/50 text-brand-300 hover:text-white hover:border-brand-400 text-xs font-bold flex items-center justify-center gap-2 transition-colors disabled:opacity-50"
+                         >
+                            {state.isSegmenting
+                                ? <><Loader2 size={14} className="animate-spin" /> Cutting out...</>
+                                : <><Scissors size={14} /> Cut Out {unmaskedCount} {unmaskedCount === 1 ? 'Frame' : 'Frames'}</>}
+                         </button>
+                     )}
+
+                     <div className="grid grid-cols-3 gap-1 mb-3">
+                         {BACKGROUND_EFFECTS.map((effect) => (
+                             <button
+                                key={effect.id}
+                                onClick={() => onUpdate('backgroundEffect', effect.id)}
+                                title={effect.description}
+                                className={`py-2 rounded-lg text-xs font-bold border transition-colors
+                                  ${effect.id === state.backgroundEffect
+                                     ? 'bg-brand-600 border-brand-500 text-white'
+                                     : 'bg-dark-bg border-gray-700 text-gray-400 hover:text-white'}
+                                `}
+                             >
+                                {effect.name}
+                             </button>
+                         ))}
+                     </div>
+
+                     {state.backgroundFile ? (
+                         <div className="flex items-center gap-2 bg-dark-bg border border-gray-700 rounded-lg px-3 py-2 text-xs text-gray-300">
+                             <span className="flex-1 truncate" title={state.backgroundFile.name}>{state.backgroundFile.name}</span>
+                             <button onClick={() => onBackgroundUpload(null)} className="text-gray-500 hover:text-red-400" title="Use the original background">
+                                 <X size={14} />
+                             </button>
+                         </div>
+                     ) : (
+                         <label className="flex items-center justify-center gap-2 border-2 border-dashed border-gray-700 hover:border-brand-400 rounded-lg py-2 text-xs text-gray-400 hover:text-white cursor-pointer transition-colors">
+                             <Upload size={14} /> Replace with image or video
+                             <input
+                                type="file"
+                                accept="image/*,video/*"
+                                className="hidden"
+                                onChange={(e) => {
+                                    const file = e.target.files?.[0];
+                                    e.target.value = '';
+                                    if (file) onBackgroundUpload(file);
+                                }}
+                             />
+                         </label>
+                     )}
+                 </>
+             )}
+           </div>
+
            {/* Export Card */}
            <div className="bg-dark-surface p-6 rounded-2xl border border-dark-border shadow-lg">
              <h3 className="text-lg font-bold text-white mb-2 flex items-center gap-2">
-                 <Download size={20} className="text-brand-400" /> Export Video
+                 <Download size={20} className="text-brand-400" /> Export
              </h3>
-             <p className="text-gray-500 text-xs mb-6">
-                 Renders a {state.duration}s .webm video file with audio.
+             <p className="text-gray-500 text-xs mb-4">
+                 {exportFormat.kind === 'video' && !state.audioPreviewUrl
+                    ? 'Video export needs an audio file. Use GIF or APNG for a silent loop.'
+                    : exportFormat.kind === 'video'
+                    ? `Renders a ${Math.round(regionLength * 10) / 10}s .${exportFormat.extension} video file with audio.`
+                    : `Renders a silent looping .${exportFormat.extension} of the pose sequence.`}
              </p>
+
+             <div className="mb-4">
+                 <OutputFormatPicker
+                    preset={state.outputPreset}
+                    framing={state.framing}
+                    disabled={isExporting}
+                    onPresetChange={(id) => {
+                        onUpdate('outputPreset', id);
+                        onUpdate('exportSettings', fitExportSettings(state.exportSettings, findOutputPreset(id)));
+                    }}
+                    onFramingChange={(framing) => onUpdate('framing', framing)}
+                 />
+             </div>
+
+             <div className="grid grid-cols-4 gap-1 mb-4">
+                 {EXPORT_FORMATS.map((format) => (
+                     <button
+                        key={format.id}
+                        onClick={() => onUpdate('exportFormat', format.id as ExportFormat)}
+                        disabled={isExporting}
+                        className={`py-2 rounded-lg text-xs font-bold border transition-colors
+                          ${format.id === exportFormat.id
+                             ? 'bg-brand-600 border-brand-500 text-white'
+                             : 'bg-dark-bg border-gray-700 text-gray-400 hover:text-white'}
+                        `}
+                     >
+                        {format.name}
+                     </button>
+                 ))}
+             </div>
+
+             <div className="grid grid-cols-2 gap-2 mb-6">
+                 <select
+                    value={`${exportSettings.width}x${exportSettings.height}`}
+                    onChange={(e) => {
+                        const res = resolutions.find(r => `${r.width}x${r.height}` === e.target.value);
+                        if (res) updateExportSettings({ width: res.width, height: res.height });
+                    }}
+                    disabled={isExporting}
+                    className="bg-dark-bg border border-gray-700 rounded-lg px-2 py-2 text-xs text-gray-300 outline-none focus:border-brand-500"
+                 >
+                    {resolutions.map(r => (
+                        <option key={r.label} value={`${r.width}x${r.height}`}>{r.label} ({r.width}×{r.height})</option>
+                    ))}
+                 </select>
+                 {exportFormat.kind === 'video' ? (
+                     <select
+                        value={exportSettings.videoBitrate}
+                        onChange={(e) => updateExportSettings({ videoBitrate: parseInt(e.target.value) })}
+                        disabled={isExporting}
+                        className="bg-dark-bg border border-gray-700 rounded-lg px-2 py-2 text-xs text-gray-300 outline-none focus:border-brand-500"
+                     >
+                        {EXPORT_BITRATES.map(b => <option key={b.value} value={b.value}>{b.label}</option>)}
+                     </select>
+                 ) : (
+                     <select
+                        value={exportSettings.colors}
+                        onChange={(e) => updateExportSettings({ colors: parseInt(e.target.value) })}
+                        disabled={isExporting}
+                        className="bg-dark-bg border border-gray-700 rounded-lg px-2 py-2 text-xs text-gray-300 outline-none focus:border-brand-500"
+                     >
+                        {EXPORT_COLORS
+                            .filter(c => c.value > 0 || exportFormat.id === 'apng')
+                            .map(c => <option key={c.value} value={c.value}>{c.label}</option>)}
+                     </select>
+                 )}
+             </div>
              <button 
                onClick={handleDownload}
-               disabled={isRecording || !imagesReady}
+               disabled={isExporting || !imagesReady}
                className={`w-full py-4 rounded-xl font-bold flex items-center justify-center gap-2 transition-all
-                 ${isRecording 
+                 ${isExporting 
                     ? 'bg-gray-800 text-gray-400 cursor-not-allowed' 
                     : 'bg-brand-600 hover:bg-brand-500 text-white shadow-lg shadow-brand-900/50'}
                `}
              >
-               {isRecording ? 'Rendering...' : 'Download Video'}
+               {isExporting ? 'Rendering...' : `Download ${exportFormat.name}`}
              </button>
            </div>
 
-           {/* Assets Card */}
-           <div className="bg-dark-surface p-6 rounded-2xl border border-dark-border shadow-lg flex-1">
-             <h3 className="text-sm font-bold text-gray-300 mb-4 flex items-center gap-2">
-                <Music size={14} />
-                GENERATED SEQUENCE
-             </h3>
-             <div className="grid grid-cols-2 gap-2 mb-6">
-                 {['base', 'var1', 'var2', 'var3'].map((key) => {
-                     const img = poseImages[key];
-                     const isLoaded = !!img;
-                     return (
-                        <div key={key} className="relative aspect-square rounded-lg overflow-hidden border border-gray-700 bg-gray-900 group">
-                            {isLoaded ? (
-                                <img src={img.src} className="w-full h-full object-cover opacity-80 group-hover:opacity-100 transition-opacity" />
-                            ) : (
-                                <div className="w-full h-full flex items-center justify-center text-gray-700">
-                                    <Loader2 size={16} className="animate-spin" />
-                                </div>
-                            )}
-                            <div className="absolute bottom-0 inset-x-0 p-1 bg-black/60 backdrop-blur-sm">
-                                <span className="text-[10px] font-bold text-white uppercase tracking-wider block text-center">{key}</span>
-                            </div>
-                        </div>
-                     );
-                 })}
-             </div>
-             <button 
-                onClick={onGenerateMore} 
-                disabled={state.isGenerating} 
-                className="w-full bg-dark-bg hover:bg-gray-800 border border-gray-700 text-gray-300 py-3 rounded-xl text-sm flex items-center justify-center gap-2 transition-colors"
-             >
-               <RefreshCcw size={16} className={state.isGenerating ? "animate-spin" : ""} /> 
-               Regenerate Motion
-             </button>
-           </div>
+           <GenerationPanel
+              poses={poses}
+              poseImages={poseImages}
+              frames={state.generatedFrames}
+              history={state.generationHistory}
+              jobs={state.frameJobs}
+              isGenerating={state.isGenerating}
+              onGenerateMore={onGenerateMore}
+              onRegenerateFrame={onRegenerateFrame}
+              onAlignFrames={onAlignFrames}
+              onChangeFrames={(frames) => onUpdate('generatedFrames', frames)}
+              onRestoreRun={onRestoreRun}
+              onError={setError}
+           />
         </div>
       </div>
     </div>
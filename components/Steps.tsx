@@ -1,7 +1,16 @@
-import React, { useRef, useState, useEffect } from 'react';
-import { Upload, Music, Play, Pause, Volume2, Check, Wand2, Zap, AlertCircle, Type, Film } from 'lucide-react';
-import { AppState, StylePreset, AppStep } from '../types';
-import { STYLE_PRESETS } from '../constants';
+import React, { useRef, useState, useEffect, useCallback } from 'react';
+import { Upload, Music, Mic, Play, Pause, Volume2, Check, Wand2, Zap, AlertCircle, Type, Film, Cpu, Layers, Activity, Loader2, ScanFace, Plus, Pencil, Copy, FileUp, FileDown, X, Monitor, Image as ImageIcon } from 'lucide-react';
+import { AppState, AudioRegion, AudioSourceMode, LiveInputSettings, StylePreset, AppStep, TrackAnalysis } from '../types';
+import { BEAT_DIVISIONS, MAX_KEYFRAMES, MIN_KEYFRAMES, POST_EFFECTS, QA_MODES, SEQUENCE_ORDERS } from '../constants';
+import { listFrameGenerators } from '../services/frameGenerator';
+import { ModulationMatrix } from './ModulationMatrix';
+import { OutputFormatPicker } from './OutputFormatPicker';
+import { StyleEditor } from './StyleEditor';
+import { RegionSelector } from './RegionSelector';
+import { LiveInputPanel } from './LiveInputPanel';
+import { allStyles, createStyleId, isCustomStyle } from '../services/styleLibrary';
+import { clipRegion, fadeGainAt } from '../services/audioRegion';
+import { findOutputPreset, fitExportSettings } from '../services/outputFormat';
 
 /* -------------------------------------------------------------------------- */
 /*                                STEP 1: IMAGE                               */
@@ -82,20 +91,58 @@ export const Step1Image: React.FC<Step1Props> = ({ imagePreview, onUpload }) =>
 interface Step2Props {
   audioPreview: string | null;
   audioFile: File | null;
-  onUpload: (file: File) => void;
+  analysis: TrackAnalysis | null;
+  isAnalyzing: boolean;
+  region: AudioRegion | null;
+  duration: number;
+  source: AudioSourceMode;
+  liveInput: LiveInputSettings;
+  onUpload: (file: File | null) => void;
+  onRegionChange: (region: AudioRegion | null) => void;
+  onSourceChange: (source: AudioSourceMode) => void;
+  onLiveInputChange: (settings: LiveInputSettings) => void;
 }
 
-export const Step2Audio: React.FC<Step2Props> = ({ audioPreview, audioFile, onUpload }) => {
+export const Step2Audio: React.FC<Step2Props> = ({
+  audioPreview, audioFile, analysis, isAnalyzing, region, duration, source, liveInput,
+  onUpload, onRegionChange, onSourceChange, onLiveInputChange
+}) => {
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [isPlaying, setIsPlaying] = useState(false);
   const audioRef = useRef<HTMLAudioElement>(null);
 
+  // Audition the clip: loop inside the region and follow its fades
+  const clip = analysis ? clipRegion(region, duration, analysis) : null;
+  useEffect(() => {
+    const audio = audioRef.current;
+    if (!isPlaying || !audio || !clip) return;
+    let frame = 0;
+    const tick = () => {
+      if (audio.currentTime >= clip.end || audio.currentTime < clip.start) audio.currentTime = clip.start;
+      audio.volume = fadeGainAt(clip, audio.currentTime);
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => {
+      cancelAnimationFrame(frame);
+      audio.volume = 1;
+    };
+  }, [isPlaying, clip?.start, clip?.end, clip?.fadeIn, clip?.fadeOut]);
+
+  const getCurrentTime = useCallback(() => audioRef.current?.currentTime ?? 0, []);
+
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files[0]) {
       onUpload(e.target.files[0]);
     }
   };
 
+  const selectSource = (mode: AudioSourceMode) => {
+    audioRef.current?.pause();
+    setIsPlaying(false);
+    onSourceChange(mode);
+  };
+
   const togglePlay = () => {
     if (audioRef.current) {
       if (isPlaying) {
@@ -111,11 +158,27 @@ export const Step2Audio: React.FC<Step2Props> = ({ audioPreview, audioFile, onUp
     <div className="flex flex-col items-center justify-center h-full w-full animate-fade-in">
       <div className="w-full max-w-xl text-center mb-8">
         <h2 className="text-3xl font-bold mb-2 text-white">Add Audio Track</h2>
-        <p className="text-gray-400">Upload the beat that will drive the animation.</p>
+        <p className="text-gray-400">Upload the beat that will drive the animation, or play live into a microphone or line-in.</p>
       </div>
 
       <div className="w-full max-w-xl bg-dark-surface border border-dark-border rounded-2xl p-8">
-        {!audioFile ? (
+        <div className="grid grid-cols-2 gap-1 mb-6 bg-dark-bg p-1 rounded-xl">
+          {([['file', 'Audio File', Music], ['live', 'Live Input', Mic]] as const).map(([mode, label, Icon]) => (
+            <button
+              key={mode}
+              onClick={() => selectSource(mode)}
+              className={`flex items-center justify-center gap-2 py-2 rounded-lg text-sm font-medium transition-colors
+                ${source === mode ? 'bg-brand-600 text-white' : 'text-gray-400 hover:text-white'}
+              `}
+            >
+              <Icon size={14} /> {label}
+            </button>
+          ))}
+        </div>
+
+        {source === 'live' ? (
+          <LiveInputPanel settings={liveInput} onChange={onLiveInputChange} />
+        ) : !audioFile ? (
            <div 
              className="border-2 border-dashed border-gray-700 rounded-xl p-12 flex flex-col items-center justify-center cursor-pointer hover:border-brand-400 hover:bg-brand-900/10 transition-colors"
              onClick={() => fileInputRef.current?.click()}
@@ -136,31 +199,57 @@ export const Step2Audio: React.FC<Step2Props> = ({ audioPreview, audioFile, onUp
               <div className="flex-1">
                 <p className="text-white font-medium truncate">{audioFile.name}</p>
                 <div className="flex items-center gap-2 text-xs text-brand-300 mt-1">
-                  <Volume2 size={12} />
-                  <span>Ready for analysis</span>
+                  {isAnalyzing ? (
+                    <>
+                      <Loader2 size={12} className="animate-spin" />
+                      <span>Analyzing tempo...</span>
+                    </>
+                  ) : analysis ? (
+                    <>
+                      <Activity size={12} />
+                      <span>{Math.round(analysis.bpm)} BPM · {analysis.beats.length} beats · {analysis.downbeats.length} bars</span>
+                    </>
+                  ) : (
+                    <>
+                      <Volume2 size={12} />
+                      <span>Live beat detection</span>
+                    </>
+                  )}
                 </div>
               </div>
               <button 
-                onClick={() => { onUpload(null as any); setIsPlaying(false); }}
+                onClick={() => { onUpload(null); setIsPlaying(false); }}
                 className="text-gray-500 hover:text-red-400 text-sm px-3 py-1"
               >
                 Remove
               </button>
             </div>
             
-            {/* Simulated Waveform Visual */}
-            <div className="w-full h-24 flex items-end justify-between gap-1 mb-6 opacity-60">
-              {Array.from({ length: 40 }).map((_, i) => (
-                <div 
-                  key={i} 
-                  className="w-full bg-brand-500 rounded-t-sm transition-all duration-300"
-                  style={{ 
-                    height: `${Math.max(10, Math.random() * 100)}%`,
-                    opacity: isPlaying ? 0.8 : 0.3
-                  }}
+            {analysis ? (
+              <div className="mb-6 w-full">
+                <RegionSelector
+                  analysis={analysis}
+                  region={region}
+                  duration={duration}
+                  getCurrentTime={getCurrentTime}
+                  onChange={onRegionChange}
                 />
-              ))}
-            </div>
+              </div>
+            ) : (
+              /* Simulated Waveform Visual */
+              <div className="w-full h-24 flex items-end justify-between gap-1 mb-6 opacity-60">
+                {Array.from({ length: 40 }).map((_, i) => (
+                  <div 
+                    key={i} 
+                    className="w-full bg-brand-500 rounded-t-sm transition-all duration-300"
+                    style={{ 
+                      height: `${Math.max(10, Math.random() * 100)}%`,
+                      opacity: isPlaying ? 0.8 : 0.3
+                    }}
+                  />
+                ))}
+              </div>
+            )}
             
             <audio 
               ref={audioRef} 
@@ -187,11 +276,48 @@ export const Step2Audio: React.FC<Step2Props> = ({ audioPreview, audioFile, onUp
 /* -------------------------------------------------------------------------- */
 
 interface Step3Props {
-  config: Pick<AppState, 'selectedStyleId' | 'intensity' | 'duration' | 'motionPrompt'>;
+  config: Pick<AppState, 'selectedStyleId' | 'intensity' | 'duration' | 'audioRegion' | 'motionPrompt' | 'generatorId' | 'qaMode' | 'alignFrames' | 'keyframeCount' | 'sequenceOrder' | 'beatDivision' | 'modulation' | 'customStyles' | 'imagePreviewUrl' | 'styleReferenceUrl' | 'outputPreset' | 'framing' | 'exportSettings'>;
   onUpdate: (key: string, value: any) => void;
+  onSaveStyle: (preset: StylePreset) => Promise<void>;
+  onDeleteStyle: (id: string) => void;
+  onImportStyles: (file: File) => void;
+  onExportStyles: (presets: StylePreset[]) => void;
+  onRenderStyleThumbnail: (preset: StylePreset) => Promise<string>;
+  onStyleReferenceUpload: (file: File | null) => void;
 }
 
-export const Step3Config: React.FC<Step3Props> = ({ config, onUpdate }) => {
+export const Step3Config: React.FC<Step3Props> = ({
+  config, onUpdate, onSaveStyle, onDeleteStyle, onImportStyles, onExportStyles, onRenderStyleThumbnail, onStyleReferenceUpload
+}) => {
+  const [editing, setEditing] = useState<{ preset: StylePreset; isNew: boolean } | null>(null);
+  const styleInputRef = useRef<HTMLInputElement>(null);
+  const referenceInputRef = useRef<HTMLInputElement>(null);
+  const presetReference = allStyles(config.customStyles).find(s => s.id === config.selectedStyleId)?.referenceImage;
+  const reference = config.styleReferenceUrl || presetReference;
+  const clipLength = config.audioRegion ? config.audioRegion.end - config.audioRegion.start : config.duration;
+
+  // Picking a preset also applies its default reactivity
+  const selectStyle = (style: StylePreset) => {
+    onUpdate('selectedStyleId', style.id);
+    if (style.intensity !== undefined) onUpdate('intensity', style.intensity);
+  };
+
+  const newStyle = () => setEditing({
+    isNew: true,
+    preset: { id: createStyleId(), name: '', description: '', promptModifier: '', thumbnail: '', effects: [], intensity: config.intensity },
+  });
+
+  // Built-ins are read-only, editing one starts a custom copy
+  const editStyle = (style: StylePreset) => setEditing(isCustomStyle(style.id)
+    ? { isNew: false, preset: style }
+    : { isNew: true, preset: { ...style, id: createStyleId(), name: `${style.name} (copy)`, thumbnail: '' } });
+
+  const handleStyleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) onImportStyles(file);
+  };
+
   return (
     <div className="flex flex-col h-full w-full max-w-4xl mx-auto animate-fade-in pb-10">
       <div className="text-center mb-8">
@@ -223,14 +349,54 @@ export const Step3Config: React.FC<Step3Props> = ({ config, onUpdate }) => {
 
           {/* Style Selection */}
           <div className="space-y-3">
-            <label className="text-white font-semibold flex items-center gap-2">
-              <Wand2 size={18} className="text-purple-400" /> Art Style
-            </label>
+            <div className="flex items-center justify-between">
+              <label className="text-white font-semibold flex items-center gap-2">
+                <Wand2 size={18} className="text-purple-400" /> Art Style
+              </label>
+              <div className="flex items-center gap-3 text-xs">
+                <button onClick={() => styleInputRef.current?.click()} className="flex items-center gap-1 text-gray-500 hover:text-white" title="Import styles from a JSON file">
+                  <FileUp size={12} /> Import
+                </button>
+                <button
+                  onClick={() => onExportStyles(config.customStyles)}
+                  disabled={config.customStyles.length === 0}
+                  className="flex items-center gap-1 text-gray-500 hover:text-white disabled:opacity-40 disabled:cursor-not-allowed"
+                  title="Export your styles as a JSON file"
+                >
+                  <FileDown size={12} /> Export
+                </button>
+                <button onClick={newStyle} className="flex items-center gap-1 text-brand-300 hover:text-white">
+                  <Plus size={12} /> New
+                </button>
+                <input type="file" ref={styleInputRef} onChange={handleStyleFile} accept=".json,application/json" className="hidden" />
+              </div>
+            </div>
+
+            {editing && (
+              <StyleEditor
+                key={editing.preset.id}
+                preset={editing.preset}
+                isNew={editing.isNew}
+                canRenderSample={!!config.imagePreviewUrl}
+                onSave={async (preset) => {
+                  await onSaveStyle(preset);
+                  setEditing(null);
+                }}
+                onDelete={editing.isNew ? undefined : () => {
+                  onDeleteStyle(editing.preset.id);
+                  setEditing(null);
+                }}
+                onExport={editing.isNew ? undefined : () => onExportStyles([editing.preset])}
+                onRenderThumbnail={onRenderStyleThumbnail}
+                onClose={() => setEditing(null)}
+              />
+            )}
+
             <div className="grid grid-cols-2 gap-3">
-              {STYLE_PRESETS.map((style) => (
+              {allStyles(config.customStyles).map((style) => (
                 <div
                   key={style.id}
-                  onClick={() => onUpdate('selectedStyleId', style.id)}
+                  onClick={() => selectStyle(style)}
                   className={`
                     cursor-pointer rounded-xl p-3 border-2 transition-all duration-200 relative overflow-hidden flex items-center gap-3
                     ${config.selectedStyleId === style.id 
@@ -239,25 +405,233 @@ export const Step3Config: React.FC<Step3Props> = ({ config, onUpdate }) => {
                   `}
                 >
                    <div className="w-12 h-12 rounded-md overflow-hidden bg-gray-800 flex-shrink-0">
-                     <img src={style.thumbnail} alt={style.name} className="w-full h-full object-cover" />
+                     {style.thumbnail && <img src={style.thumbnail} alt={style.name} className="w-full h-full object-cover" />}
                    </div>
                    <div className="min-w-0">
                      <p className="font-medium text-sm text-white truncate">{style.name}</p>
-                     <p className="text-[10px] text-gray-500 leading-tight truncate">Preset</p>
+                     <p className="text-[10px] text-gray-500 leading-tight truncate">{style.effects.map(e => POST_EFFECTS.find(p => p.id === e.type)?.name).join(' + ') || (isCustomStyle(style.id) ? 'Custom' : 'Preset')}</p>
                    </div>
                   {config.selectedStyleId === style.id && (
                     <div className="absolute top-2 right-2 text-brand-500">
                       <Check size={14} />
                     </div>
                   )}
+                  <button
+                    onClick={(e) => { e.stopPropagation(); editStyle(style); }}
+                    className="absolute bottom-2 right-2 text-gray-600 hover:text-white"
+                    title={isCustomStyle(style.id) ? 'Edit style' : 'Copy into a custom style'}
+                  >
+                    {isCustomStyle(style.id) ? <Pencil size={12} /> : <Copy size={12} />}
+                  </button>
                 </div>
               ))}
             </div>
           </div>
+
+          {/* Style Reference */}
+          <div className="bg-dark-surface p-4 rounded-xl border border-dark-border flex items-center gap-4">
+            <div className="w-16 h-16 rounded-lg overflow-hidden bg-gray-800 flex-shrink-0 flex items-center justify-center">
+              {reference
+                ? <img src={reference} alt="Style reference" className="w-full h-full object-cover" />
+                : <ImageIcon size={20} className="text-gray-600" />}
+            </div>
+            <div className="flex-1 min-w-0">
+              <p className="text-white text-sm font-semibold">Style Reference</p>
+              <p className="text-[11px] text-gray-500 leading-tight">
+                {config.styleReferenceUrl
+                  ? 'Frames match the palette and rendering of this image.'
+                  : presetReference
+                    ? 'Using the reference saved with the selected style.'
+                    : 'Optional artwork or brand sheet whose palette and look the frames should match.'}
+              </p>
+            </div>
+            <button
+              onClick={() => referenceInputRef.current?.click()}
+              className="flex items-center gap-1 text-xs text-gray-400 hover:text-white px-2 py-1 rounded-md border border-gray-700 hover:border-gray-500"
+            >
+              <Upload size={12} /> {config.styleReferenceUrl ? 'Replace' : 'Upload'}
+            </button>
+            {config.styleReferenceUrl && (
+              <button onClick={() => onStyleReferenceUpload(null)} className="text-gray-500 hover:text-red-400" title="Remove reference">
+                <X size={14} />
+              </button>
+            )}
+            <input
+              type="file"
+              ref={referenceInputRef}
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                e.target.value = '';
+                if (file) onStyleReferenceUpload(file);
+              }}
+              accept="image/png,image/jpeg,image/webp"
+              className="hidden"
+            />
+          </div>
+
+          {/* Modulation Matrix */}
+          <ModulationMatrix routings={config.modulation} onChange={(routings) => onUpdate('modulation', routings)} />
         </div>
 
         {/* Right Col: Sliders */}
         <div className="md:col-span-5 space-y-6 bg-dark-surface p-6 rounded-xl border border-dark-border h-fit">
+           {/* Output Format */}
+           <div>
+            <label className="text-white font-medium flex items-center gap-2 text-sm mb-2">
+              <Monitor size={16} className="text-brand-400" /> Output Format
+            </label>
+            <OutputFormatPicker
+              preset={config.outputPreset}
+              framing={config.framing}
+              onPresetChange={(id) => {
+                onUpdate('outputPreset', id);
+                onUpdate('exportSettings', fitExportSettings(config.exportSettings, findOutputPreset(id)));
+              }}
+              onFramingChange={(framing) => onUpdate('framing', framing)}
+            />
+            <p className="text-[11px] text-gray-500 mt-2 leading-tight">
+              Frames are generated at this aspect.
+            </p>
+           </div>
+
+           {/* Frame Generator */}
+           <div>
+            <label className="text-white font-medium flex items-center gap-2 text-sm mb-2">
+              <Cpu size={16} className="text-brand-400" /> Frame Generator
+            </label>
+            <div className="space-y-2">
+              {listFrameGenerators().map((generator) => {
+                const available = generator.isAvailable();
+                const selected = config.generatorId === generator.id;
+                return (
+                  <button
+                    key={generator.id}
+                    onClick={() => onUpdate('generatorId', generator.id)}
+                    disabled={!available}
+                    className={`
+                      w-full text-left rounded-lg p-3 border transition-colors
+                      ${selected ? 'border-brand-500 bg-brand-900/20' : 'border-gray-700 hover:border-gray-500'}
+                      ${!available ? 'opacity-50 cursor-not-allowed' : ''}
+                    `}
+                  >
+                    <p className="text-sm text-white font-medium flex items-center justify-between">
+                      {generator.name}
+                      {selected && <Check size={14} className="text-brand-500" />}
+                    </p>
+                    <p className="text-[11px] text-gray-500 leading-tight">
+                      {available ? generator.description : 'Unavailable (no API key). Falls back to Local.'}
+                    </p>
+                  </button>
+                );
+              })}
+            </div>
+           </div>
+
+           {/* Identity Check */}
+           <div>
+            <label className="text-white font-medium flex items-center gap-2 text-sm mb-2">
+              <ScanFace size={16} className="text-brand-400" /> Identity Check
+            </label>
+            <div className="grid grid-cols-3 gap-1">
+              {QA_MODES.map((mode) => (
+                <button
+                  key={mode.id}
+                  onClick={() => onUpdate('qaMode', mode.id)}
+                  title={mode.description}
+                  className={`
+                    py-1.5 rounded-md text-xs border transition-colors
+                    ${config.qaMode === mode.id
+                      ? 'border-brand-500 bg-brand-900/20 text-white'
+                      : 'border-gray-700 text-gray-400 hover:text-white'}
+                  `}
+                >
+                  {mode.name}
+                </button>
+              ))}
+            </div>
+            <p className="text-[11px] text-gray-500 mt-2 leading-tight">
+              {QA_MODES.find(m => m.id === config.qaMode)?.description}. {reference
+                ? 'Compares shape and framing with the base image. Colors are ignored, the style reference changes them.'
+                : 'Compares shape, colors and framing with the base image.'}
+            </p>
+            <button
+              onClick={() => onUpdate('alignFrames', !config.alignFrames)}
+              className="w-full flex items-center justify-between mt-3 text-left"
+            >
+              <span>
+                <span className="block text-xs text-white">Align to base frame</span>
+                <span className="block text-[11px] text-gray-500 leading-tight">Match framing, position and colors so poses read as motion.</span>
+              </span>
+              <span className={`w-9 h-5 rounded-full p-0.5 shrink-0 transition-colors ${config.alignFrames ? 'bg-brand-600' : 'bg-gray-700'}`}>
+                <span className={`block w-4 h-4 rounded-full bg-white transition-transform ${config.alignFrames ? 'translate-x-4' : ''}`} />
+              </span>
+            </button>
+           </div>
+
+           {/* Keyframes */}
+           <div>
+            <div className="flex justify-between mb-2">
+              <label className="text-white font-medium flex items-center gap-2 text-sm">
+                <Layers size={16} className="text-brand-400" /> Keyframes
+              </label>
+              <span className="text-brand-300 text-sm">{config.keyframeCount}</span>
+            </div>
+            <input
+              type="range"
+              min={MIN_KEYFRAMES}
+              max={MAX_KEYFRAMES}
+              value={config.keyframeCount}
+              onChange={(e) => onUpdate('keyframeCount', parseInt(e.target.value))}
+              className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-brand-500"
+            />
+            <div className="grid grid-cols-3 gap-1 mt-3">
+              {SEQUENCE_ORDERS.map((order) => (
+                <button
+                  key={order.id}
+                  onClick={() => onUpdate('sequenceOrder', order.id)}
+                  title={order.description}
+                  className={`
+                    py-1.5 rounded-md text-xs border transition-colors
+                    ${config.sequenceOrder === order.id
+                      ? 'border-brand-500 bg-brand-900/20 text-white'
+                      : 'border-gray-700 text-gray-400 hover:text-white'}
+                  `}
+                >
+                  {order.name}
+                </button>
+              ))}
+            </div>
+            <p className="text-[11px] text-gray-500 mt-2 leading-tight">
+              Base image plus {config.keyframeCount - 1} generated poses. More keyframes give longer, smoother dances.
+            </p>
+           </div>
+
+           {/* Beat Grid */}
+           <div>
+            <label className="text-white font-medium flex items-center gap-2 text-sm mb-2">
+              <Activity size={16} className="text-brand-400" /> Pose Changes On
+            </label>
+            <div className="grid grid-cols-3 gap-1">
+              {BEAT_DIVISIONS.map((division) => (
+                <button
+                  key={division.id}
+                  onClick={() => onUpdate('beatDivision', division.id)}
+                  className={`
+                    py-1.5 rounded-md text-xs border transition-colors
+                    ${config.beatDivision === division.id
+                      ? 'border-brand-500 bg-brand-900/20 text-white'
+                      : 'border-gray-700 text-gray-400 hover:text-white'}
+                  `}
+                >
+                  {division.name}
+                </button>
+              ))}
+            </div>
+            <p className="text-[11px] text-gray-500 mt-2 leading-tight">
+              Poses snap to the detected beat grid of your track.
+            </p>
+           </div>
+
            {/* Intensity */}
            <div>
             <div className="flex justify-between mb-2">
@@ -275,29 +649,33 @@ export const Step3Config: React.FC<Step3Props> = ({ config, onUpdate }) => {
               className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-brand-500"
             />
             <p className="text-[11px] text-gray-500 mt-2 leading-tight">
-              Sensitivity to beat detection. Higher values trigger motion on subtler sounds.
+              Sensitivity of live beat detection, used when no beat grid is available. Higher values trigger motion on subtler sounds.
             </p>
            </div>
 
-           {/* Duration */}
+           {/* Duration, the clip region replaces it once one is chosen */}
            <div>
             <div className="flex justify-between mb-2">
               <label className="text-white font-medium text-sm">Duration</label>
-              <span className="text-brand-300 text-sm">{config.duration}s</span>
+              <span className="text-brand-300 text-sm">{Math.round(clipLength * 10) / 10}s</span>
             </div>
-            <input
-              type="range"
-              min="5"
-              max="30"
-              step="5"
-              value={config.duration}
-              onChange={(e) => onUpdate('duration', parseInt(e.target.value))}
-              className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-brand-500"
-            />
+            {config.audioRegion ? (
+              <p className="text-[11px] text-gray-400 leading-tight">Set by the clip region chosen in the audio step.</p>
+            ) : (
+              <input
+                type="range"
+                min="5"
+                max="30"
+                step="5"
+                value={config.duration}
+                onChange={(e) => onUpdate('duration', parseInt(e.target.value))}
+                className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-brand-500"
+              />
+            )}
             <div className="flex justify-between items-center mt-2">
               <p className="text-[11px] text-gray-500">Max 30s (Free)</p>
               <span className="text-[10px] bg-brand-900 text-brand-200 px-1.5 py-0.5 rounded border border-brand-700">
-                {Math.ceil(config.duration / 5) * 5} Credits
+                {Math.ceil(clipLength / 5) * 5} Credits
               </span>
             </div>
            </div>
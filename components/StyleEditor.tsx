@@ -0,0 +1,252 @@
+import React, { useRef, useState } from 'react';
+import { Plus, Trash2, Upload, X, Loader2, Wand2, Download, Image as ImageIcon } from 'lucide-react';
+import { ModSource, PostEffect, PostEffectType, StylePreset } from '../types';
+import { MOD_SOURCES, POST_EFFECTS } from '../constants';
+import { fileToGenericBase64 } from '../services/gemini';
+import { shrinkReferenceImage } from '../services/styleLibrary';
+import { errorMessage } from '../services/jobRunner';
+
+interface StyleEditorProps {
+  preset: StylePreset; // Draft, a fresh id for new presets and copies of built-ins
+  isNew: boolean;
+  canRenderSample: boolean; // A base image is loaded
+  onSave: (preset: StylePreset) => Promise<void>;
+  onDelete?: () => void;
+  onExport?: () => void;
+  onRenderThumbnail: (preset: StylePreset) => Promise<string>;
+  onClose: () => void;
+}
+
+const inputClass = 'w-full bg-dark-bg border border-gray-700 rounded-lg p-2 text-sm text-gray-200 outline-none focus:border-brand-500';
+
+/**
+ * Form for one custom style preset: prompt, reference image, default
+ * reactivity and post-processing stack, plus a sample render for the thumbnail.
+ */
+export const StyleEditor: React.FC<StyleEditorProps> = ({
+  preset, isNew, canRenderSample, onSave, onDelete, onExport, onRenderThumbnail, onClose
+}) => {
+  const [draft, setDraft] = useState<StylePreset>(preset);
+  const [isRendering, setIsRendering] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const referenceInputRef = useRef<HTMLInputElement>(null);
+
+  const update = (patch: Partial<StylePreset>) => setDraft(prev => ({ ...prev, ...patch }));
+
+  const updateEffect = (index: number, patch: Partial<PostEffect>) =>
+    update({ effects: draft.effects.map((e, i) => i === index ? { ...e, ...patch } : e) });
+
+  // One pass per effect type, the stack order is the render order
+  const unusedEffect = POST_EFFECTS.find(e => !draft.effects.some(d => d.type === e.id));
+  const addEffect = () => {
+    if (!unusedEffect) return;
+    update({ effects: [...draft.effects, { type: unusedEffect.id, amount: 0.2, source: 'bass', reactivity: 0.5 }] });
+  };
+
+  const handleReference = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      update({ referenceImage: await shrinkReferenceImage(await fileToGenericBase64(file)) });
+    } catch (err) {
+      setError(errorMessage(err));
+    }
+  };
+
+  const renderSample = async () => {
+    setIsRendering(true);
+    setError(null);
+    try {
+      update({ thumbnail: await onRenderThumbnail(draft) });
+    } catch (err) {
+      setError(errorMessage(err));
+    } finally {
+      setIsRendering(false);
+    }
+  };
+
+  const save = async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      await onSave({ ...draft, name: draft.name.trim(), updatedAt: Date.now() });
+    } catch (err) {
+      setError(errorMessage(err));
+      setIsSaving(false);
+    }
+  };
+
+  const isValid = draft.name.trim() !== '' && draft.promptModifier.trim() !== '';
+
+  return (
+    <div className="bg-dark-surface border border-brand-500/50 rounded-xl p-4 space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-white font-semibold">{isNew ? 'New Style' : 'Edit Style'}</h3>
+        <button onClick={onClose} className="text-gray-500 hover:text-white" title="Close">
+          <X size={16} />
+        </button>
+      </div>
+
+      <div className="flex gap-4">
+        <div className="flex flex-col items-center gap-2 shrink-0">
+          <div className="w-24 h-24 rounded-lg overflow-hidden bg-gray-800 flex items-center justify-center">
+            {draft.thumbnail
+              ? <img src={draft.thumbnail} alt={draft.name} className="w-full h-full object-cover" />
+              : <ImageIcon size={24} className="text-gray-600" />}
+          </div>
+          <button
+            onClick={renderSample}
+            disabled={!canRenderSample || isRendering || !draft.promptModifier.trim()}
+            title={canRenderSample ? 'Render the base image in this style' : 'Upload an image first'}
+            className="flex items-center gap-1 text-[11px] text-brand-300 hover:text-white disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            {isRendering ? <Loader2 size={12} className="animate-spin" /> : <Wand2 size={12} />} Render Sample
+          </button>
+        </div>
+        <div className="flex-1 space-y-2">
+          <input
+            value={draft.name}
+            onChange={(e) => update({ name: e.target.value })}
+            placeholder="Style name"
+            className={inputClass}
+          />
+          <input
+            value={draft.description}
+            onChange={(e) => update({ description: e.target.value })}
+            placeholder="Short description"
+            className={inputClass}
+          />
+        </div>
+      </div>
+
+      <textarea
+        value={draft.promptModifier}
+        onChange={(e) => update({ promptModifier: e.target.value })}
+        rows={3}
+        placeholder="Prompt modifier, e.g. 'watercolor, soft edges, pastel palette'"
+        className={`${inputClass} resize-none`}
+      />
+
+      <div className="flex items-center gap-3">
+        <div className="w-12 h-12 rounded-md overflow-hidden bg-gray-800 shrink-0 flex items-center justify-center">
+          {draft.referenceImage
+            ? <img src={draft.referenceImage} alt="Reference" className="w-full h-full object-cover" />
+            : <ImageIcon size={16} className="text-gray-600" />}
+        </div>
+        <div className="flex-1">
+          <p className="text-xs text-white">Reference image</p>
+          <p className="text-[11px] text-gray-500 leading-tight">Optional example of the look.</p>
+        </div>
+        <button onClick={() => referenceInputRef.current?.click()} className="p-1.5 text-gray-400 hover:text-white" title="Upload reference">
+          <Upload size={14} />
+        </button>
+        {draft.referenceImage && (
+          <button onClick={() => update({ referenceImage: undefined })} className="p-1.5 text-gray-400 hover:text-red-400" title="Remove reference">
+            <Trash2 size={14} />
+          </button>
+        )}
+        <input type="file" ref={referenceInputRef} onChange={handleReference} accept="image/*" className="hidden" />
+      </div>
+
+      <div>
+        <div className="flex justify-between text-xs mb-1">
+          <span className="text-white">Reactivity</span>
+          <span className="text-brand-300">{draft.intensity ?? 50}%</span>
+        </div>
+        <input
+          type="range"
+          min="0"
+          max="100"
+          value={draft.intensity ?? 50}
+          onChange={(e) => update({ intensity: parseInt(e.target.value) })}
+          className="w-full h-1.5 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-brand-500"
+        />
+      </div>
+
+      <div className="space-y-2">
+        <p className="text-xs text-white">Effects</p>
+        {draft.effects.map((effect, index) => (
+          <div key={effect.type} className="bg-dark-bg border border-gray-700 rounded-lg p-2 space-y-2">
+            <div className="flex items-center gap-2">
+              <select
+                value={effect.type}
+                onChange={(e) => updateEffect(index, { type: e.target.value as PostEffectType })}
+                className="bg-dark-surface border border-gray-700 rounded-md px-2 py-1 text-xs text-gray-200 outline-none"
+              >
+                {POST_EFFECTS.filter(p => p.id === effect.type || !draft.effects.some(d => d.type === p.id)).map(p => (
+                  <option key={p.id} value={p.id}>{p.name}</option>
+                ))}
+              </select>
+              <select
+                value={effect.source}
+                onChange={(e) => updateEffect(index, { source: e.target.value as ModSource })}
+                className="bg-dark-surface border border-gray-700 rounded-md px-2 py-1 text-xs text-gray-200 outline-none"
+              >
+                {MOD_SOURCES.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+              </select>
+              <button
+                onClick={() => update({ effects: draft.effects.filter((_, i) => i !== index) })}
+                className="ml-auto p-1 text-gray-500 hover:text-red-400"
+                title="Remove effect"
+              >
+                <Trash2 size={12} />
+              </button>
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              {(['amount', 'reactivity'] as const).map(key => (
+                <label key={key} className="block">
+                  <span className="flex justify-between text-[11px] text-gray-500">
+                    <span>{key === 'amount' ? 'Base' : 'Audio'}</span>
+                    <span className="text-brand-300">{Math.round(effect[key] * 100)}%</span>
+                  </span>
+                  <input
+                    type="range"
+                    min="0"
+                    max="1"
+                    step="0.05"
+                    value={effect[key]}
+                    onChange={(e) => updateEffect(index, { [key]: parseFloat(e.target.value) })}
+                    className="w-full h-1.5 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-brand-500"
+                  />
+                </label>
+              ))}
+            </div>
+          </div>
+        ))}
+        <button
+          onClick={addEffect}
+          disabled={!unusedEffect}
+          className="w-full flex items-center justify-center gap-1 border border-dashed border-gray-700 hover:border-brand-400 rounded-lg py-1.5 text-xs text-gray-400 hover:text-white transition-colors disabled:opacity-40"
+        >
+          <Plus size={12} /> Add Effect
+        </button>
+      </div>
+
+      {error && <p className="text-xs text-red-400">{error}</p>}
+
+      <div className="flex items-center justify-between pt-1">
+        <div className="flex gap-3">
+          {onDelete && (
+            <button onClick={onDelete} className="flex items-center gap-1 text-xs text-gray-500 hover:text-red-400">
+              <Trash2 size={12} /> Delete
+            </button>
+          )}
+          {onExport && (
+            <button onClick={onExport} className="flex items-center gap-1 text-xs text-gray-500 hover:text-white">
+              <Download size={12} /> Export
+            </button>
+          )}
+        </div>
+        <button
+          onClick={save}
+          disabled={!isValid || isSaving}
+          className="px-4 py-1.5 rounded-lg text-sm font-bold text-white bg-brand-600 hover:bg-brand-500 disabled:bg-gray-800 disabled:text-gray-500 transition-colors"
+        >
+          {isSaving ? 'Saving...' : 'Save Style'}
+        </button>
+      </div>
+    </div>
+  );
+};
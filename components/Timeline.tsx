@@ -0,0 +1,330 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Clock, Trash2, Wand2, X } from 'lucide-react';
+import { BeatDivision, ChoreographyCue, PoseType, TrackAnalysis, TransitionType } from '../types';
+import { TRANSITIONS } from '../constants';
+import { WAVEFORM_RATE, beatGrid, snapToGrid } from '../services/audioAnalysis';
+
+interface TimelineProps {
+  analysis: TrackAnalysis | null;
+  start: number; // Track time at the left edge (the clip start)
+  duration: number; // Visible seconds (the clip length)
+  beatDivision: BeatDivision;
+  cues: ChoreographyCue[];
+  poses: PoseType[];
+  sequence: PoseType[];
+  poseImages: Record<string, HTMLImageElement>;
+  getCurrentTime: () => number;
+  onSeek: (time: number) => void;
+  onChange: (cues: ChoreographyCue[]) => void;
+}
+
+const createCueId = () => Math.random().toString(36).slice(2, 10);
+
+const sortCues = (cues: ChoreographyCue[]) => [...cues].sort((a, b) => a.time - b.time);
+
+export const Timeline: React.FC<TimelineProps> = ({
+  analysis, start, duration, beatDivision, cues, poses, sequence, poseImages, getCurrentTime, onSeek, onChange
+}) => {
+  const trackRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const playheadRef = useRef<HTMLDivElement>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [dragCue, setDragCue] = useState<{ id: string; time: number } | null>(null);
+
+  const selected = cues.find(c => c.id === selectedId) || null;
+  const end = start + duration;
+
+  // Position of a track time along the visible span, in percent
+  const percent = (time: number) => ((time - start) / duration) * 100;
+
+  const timeFromClientX = (clientX: number) => {
+    const rect = trackRef.current?.getBoundingClientRect();
+    if (!rect || rect.width === 0) return 0;
+    const ratio = Math.min(1, Math.max(0, (clientX - rect.left) / rect.width));
+    return start + ratio * duration;
+  };
+
+  const snap = (time: number) => Math.min(Math.max(snapToGrid(analysis, beatDivision, time), start), end);
+
+  // ---------------------------------------------------------------------------
+  // Waveform + beat grid
+  // ---------------------------------------------------------------------------
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const track = trackRef.current;
+    if (!canvas || !track) return;
+
+    const draw = () => {
+      const ctx = canvas.getContext('2d');
+      if (!ctx) return;
+      const dpr = window.devicePixelRatio || 1;
+      const { width, height } = track.getBoundingClientRect();
+      canvas.width = width * dpr;
+      canvas.height = height * dpr;
+      ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+      ctx.clearRect(0, 0, width, height);
+
+      const x = (t: number) => ((t - start) / duration) * width;
+
+      // Waveform
+      if (analysis) {
+        ctx.fillStyle = 'rgba(139, 92, 246, 0.45)';
+        const mid = height / 2;
+        for (let px = 0; px < width; px++) {
+          const from = Math.floor((start + (px / width) * duration) * WAVEFORM_RATE);
+          const to = Math.max(from + 1, Math.floor((start + ((px + 1) / width) * duration) * WAVEFORM_RATE));
+          let peak = 0;
+          for (let i = from; i < to && i < analysis.waveform.length; i++) peak = Math.max(peak, analysis.waveform[i]);
+          const h = peak * (height * 0.45);
+          ctx.fillRect(px, mid - h, 1, h * 2);
+        }
+
+        // Beat grid (downbeats brighter)
+        const downbeats = new Set(analysis.downbeats);
+        for (const beat of analysis.beats) {
+          if (beat < start) continue;
+          if (beat > end) break;
+          ctx.fillStyle = downbeats.has(beat) ? 'rgba(255, 255, 255, 0.5)' : 'rgba(255, 255, 255, 0.15)';
+          ctx.fillRect(Math.round(x(beat)), 0, 1, height);
+        }
+
+        // Half-beat ticks when snapping finer than a beat
+        if (beatDivision === 'half') {
+          const { step, anchor } = beatGrid(analysis, 'half');
+          ctx.fillStyle = 'rgba(255, 255, 255, 0.1)';
+          for (let t = anchor + step; t < end; t += step * 2) {
+            if (t >= start) ctx.fillRect(Math.round(x(t)), height * 0.75, 1, height * 0.25);
+          }
+        }
+      } else {
+        ctx.fillStyle = 'rgba(255, 255, 255, 0.08)';
+        for (let t = Math.ceil(start); t < end; t += 1) ctx.fillRect(Math.round(x(t)), 0, 1, height);
+      }
+    };
+
+    draw();
+    const observer = new ResizeObserver(draw);
+    observer.observe(track);
+    return () => observer.disconnect();
+  }, [analysis, start, duration, beatDivision]);
+
+  // Playhead follows the audio without re-rendering React
+  useEffect(() => {
+    let frame = 0;
+    const tick = () => {
+      if (playheadRef.current) {
+        const t = getCurrentTime();
+        playheadRef.current.style.left = `${Math.min(100, Math.max(0, ((t - start) / duration) * 100))}%`;
+      }
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [getCurrentTime, start, duration]);
+
+  // ---------------------------------------------------------------------------
+  // Editing
+  // ---------------------------------------------------------------------------
+  const placeCue = (pose: PoseType, time: number) => {
+    const snapped = snap(time);
+    // One cue per grid position: dropping onto an existing cue replaces its pose
+    const existing = cues.find(c => Math.abs(c.time - snapped) < 1e-3);
+    if (existing) {
+      onChange(cues.map(c => c.id === existing.id ? { ...c, pose } : c));
+      setSelectedId(existing.id);
+      return;
+    }
+    const cue: ChoreographyCue = { id: createCueId(), time: snapped, pose, transition: 'flash' };
+    onChange(sortCues([...cues, cue]));
+    setSelectedId(cue.id);
+  };
+
+  const updateCue = (id: string, patch: Partial<ChoreographyCue>) => {
+    onChange(sortCues(cues.map(c => c.id === id ? { ...c, ...patch } : c)));
+  };
+
+  const deleteCue = (id: string) => {
+    onChange(cues.filter(c => c.id !== id));
+    setSelectedId(null);
+  };
+
+  // Lays the automatic sequence out on the grid so it can be edited by hand
+  const fillFromSequence = () => {
+    const filled: ChoreographyCue[] = [];
+    if (analysis) {
+      const { step, anchor } = beatGrid(analysis, beatDivision);
+      let t = anchor;
+      while (t - step >= start) t -= step;
+      while (t < start) t += step;
+      for (let i = 0; t < end; t += step, i++) {
+        filled.push({ id: createCueId(), time: t, pose: sequence[i % sequence.length], transition: 'flash' });
+      }
+    } else {
+      for (let i = 0, t = start; t < end; t += 0.5, i++) {
+        filled.push({ id: createCueId(), time: t, pose: sequence[i % sequence.length], transition: 'flash' });
+      }
+    }
+    onChange(filled);
+    setSelectedId(null);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    const pose = e.dataTransfer.getData('text/plain') as PoseType;
+    if (poses.includes(pose)) placeCue(pose, timeFromClientX(e.clientX));
+  };
+
+  // Scrub on empty track area
+  const handleTrackPointerDown = (e: React.PointerEvent) => {
+    if (e.button !== 0) return;
+    onSeek(timeFromClientX(e.clientX));
+    const move = (ev: PointerEvent) => onSeek(timeFromClientX(ev.clientX));
+    const up = () => {
+      window.removeEventListener('pointermove', move);
+      window.removeEventListener('pointerup', up);
+    };
+    window.addEventListener('pointermove', move);
+    window.addEventListener('pointerup', up);
+  };
+
+  // Drag an existing cue along the grid
+  const handleCuePointerDown = (e: React.PointerEvent, cue: ChoreographyCue) => {
+    e.stopPropagation();
+    if (e.button !== 0) return;
+    setSelectedId(cue.id);
+    let latest = cue.time;
+    const move = (ev: PointerEvent) => {
+      latest = snap(timeFromClientX(ev.clientX));
+      setDragCue({ id: cue.id, time: latest });
+    };
+    const up = () => {
+      window.removeEventListener('pointermove', move);
+      window.removeEventListener('pointerup', up);
+      setDragCue(null);
+      if (latest === cue.time) return;
+      // Same rule as placeCue: the cue under the drop takes the dragged pose
+      const existing = cues.find(c => c.id !== cue.id && Math.abs(c.time - latest) < 1e-3);
+      if (existing) {
+        onChange(cues.filter(c => c.id !== cue.id).map(c => c.id === existing.id ? { ...c, pose: cue.pose } : c));
+        setSelectedId(existing.id);
+        return;
+      }
+      updateCue(cue.id, { time: latest });
+    };
+    window.addEventListener('pointermove', move);
+    window.addEventListener('pointerup', up);
+  };
+
+  return (
+    <div className="bg-dark-surface p-4 rounded-2xl border border-dark-border shadow-lg">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-sm font-bold text-gray-300 flex items-center gap-2">
+          <Clock size={14} />
+          TIMELINE
+          <span className="text-[10px] font-normal text-gray-500">
+            {cues.length > 0 ? `${cues.length} cues` : 'Auto (sequence on beat grid)'}
+          </span>
+        </h3>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={fillFromSequence}
+            className="text-xs text-gray-400 hover:text-white flex items-center gap-1 px-2 py-1 rounded border border-gray-700"
+          >
+            <Wand2 size={12} /> Fill from sequence
+          </button>
+          {cues.length > 0 && (
+            <button
+              onClick={() => { onChange([]); setSelectedId(null); }}
+              className="text-xs text-gray-400 hover:text-red-400 flex items-center gap-1 px-2 py-1 rounded border border-gray-700"
+            >
+              <X size={12} /> Clear
+            </button>
+          )}
+        </div>
+      </div>
+
+      {/* Pose palette */}
+      <div className="flex gap-2 mb-3 overflow-x-auto pb-1">
+        {poses.map((pose) => (
+          <div
+            key={pose}
+            draggable
+            onDragStart={(e) => e.dataTransfer.setData('text/plain', pose)}
+            className="flex-shrink-0 w-12 cursor-grab active:cursor-grabbing"
+            title={`Drag ${pose} onto the timeline`}
+          >
+            <div className="w-12 h-12 rounded-md overflow-hidden border border-gray-700 bg-gray-900">
+              {poseImages[pose] && <img src={poseImages[pose].src} className="w-full h-full object-cover pointer-events-none" />}
+            </div>
+            <span className="text-[9px] text-gray-500 uppercase block text-center mt-0.5">{pose}</span>
+          </div>
+        ))}
+      </div>
+
+      {/* Track */}
+      <div
+        ref={trackRef}
+        className="relative h-20 bg-black/40 rounded-lg overflow-hidden cursor-text select-none"
+        onPointerDown={handleTrackPointerDown}
+        onDragOver={(e) => e.preventDefault()}
+        onDrop={handleDrop}
+      >
+        <canvas ref={canvasRef} className="absolute inset-0 w-full h-full" />
+
+        {cues.map((cue, i) => {
+          const time = dragCue?.id === cue.id ? dragCue.time : cue.time;
+          const next = cues[i + 1];
+          const segmentEnd = Math.min(next ? next.time : end, end);
+          const segmentStart = Math.max(time, start);
+          // Cues outside the clip are kept, only a pose held into the clip shows its span
+          if (segmentEnd <= start || time >= end) return null;
+          return (
+            <React.Fragment key={cue.id}>
+              {/* Segment span */}
+              <div
+                className="absolute top-0 h-1 bg-brand-500/60 pointer-events-none"
+                style={{ left: `${percent(segmentStart)}%`, width: `${Math.max(0, (segmentEnd - segmentStart) / duration) * 100}%` }}
+              />
+              {time >= start && <div
+                onPointerDown={(e) => handleCuePointerDown(e, cue)}
+                className={`absolute top-2 -translate-x-1/2 w-8 h-8 rounded border-2 overflow-hidden cursor-grab bg-gray-900
+                  ${selectedId === cue.id ? 'border-brand-400 z-10' : 'border-gray-600'}
+                `}
+                style={{ left: `${percent(time)}%` }}
+                title={`${cue.pose} @ ${time.toFixed(2)}s`}
+              >
+                {poseImages[cue.pose] && <img src={poseImages[cue.pose].src} className="w-full h-full object-cover pointer-events-none" />}
+              </div>}
+            </React.Fragment>
+          );
+        })}
+
+        <div ref={playheadRef} className="absolute top-0 bottom-0 w-0.5 bg-white pointer-events-none" style={{ left: 0 }} />
+      </div>
+
+      {/* Selected cue */}
+      {selected && (
+        <div className="flex items-center gap-2 mt-3 text-xs">
+          <span className="text-gray-500">{selected.time.toFixed(2)}s</span>
+          <select
+            value={selected.pose}
+            onChange={(e) => updateCue(selected.id, { pose: e.target.value as PoseType })}
+            className="bg-dark-bg border border-gray-700 rounded px-2 py-1 text-gray-300 outline-none"
+          >
+            {poses.map(p => <option key={p} value={p}>{p}</option>)}
+          </select>
+          <select
+            value={selected.transition}
+            onChange={(e) => updateCue(selected.id, { transition: e.target.value as TransitionType })}
+            className="bg-dark-bg border border-gray-700 rounded px-2 py-1 text-gray-300 outline-none"
+          >
+            {TRANSITIONS.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+          </select>
+          <button onClick={() => deleteCue(selected.id)} className="ml-auto text-gray-500 hover:text-red-400 flex items-center gap-1">
+            <Trash2 size={12} /> Delete
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
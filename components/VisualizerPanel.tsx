@@ -0,0 +1,128 @@
+import React from 'react';
+import { AudioWaveform } from 'lucide-react';
+import { VisualizerSettings } from '../types';
+import { FREQUENCY_SCALES, MAX_VISUALIZER_BARS, MIN_VISUALIZER_BARS, VISUALIZER_POSITIONS, VISUALIZER_STYLES } from '../constants';
+
+interface VisualizerPanelProps {
+  settings: VisualizerSettings;
+  onChange: (settings: VisualizerSettings) => void;
+  disabledReason?: string; // Shown instead of the controls' description, locks them
+}
+
+const sliderClass = 'w-full h-1.5 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-brand-500';
+
+const optionClass = (selected: boolean) => `py-1 rounded-md text-[11px] border transition-colors
+  ${selected ? 'border-brand-500 bg-brand-900/20 text-white' : 'border-gray-700 text-gray-400 hover:text-white'}`;
+
+/**
+ * Style, placement and frequency mapping of the audio visualizer. Saved with
+ * the project and used by the export.
+ */
+export const VisualizerPanel: React.FC<VisualizerPanelProps> = ({ settings, onChange, disabledReason }) => {
+  const update = (patch: Partial<VisualizerSettings>) => onChange({ ...settings, ...patch });
+  const style = VISUALIZER_STYLES.find(s => s.id === settings.style);
+
+  return (
+    <div className="bg-dark-surface p-6 rounded-2xl border border-dark-border shadow-lg">
+      <h3 className="text-lg font-bold text-white mb-2 flex items-center gap-2">
+        <AudioWaveform size={20} className="text-brand-400" /> Visualizer
+      </h3>
+      <p className={`text-xs mb-4 ${disabledReason ? 'text-amber-400/80' : 'text-gray-500'}`}>{disabledReason ?? style?.description}</p>
+
+      <fieldset disabled={!!disabledReason} className={disabledReason ? 'opacity-50' : ''}>
+        <div className="grid grid-cols-5 gap-1 mb-4">
+          {VISUALIZER_STYLES.map(s => (
+            <button key={s.id} onClick={() => update({ style: s.id })} className={optionClass(settings.style === s.id)}>
+              {s.name}
+            </button>
+          ))}
+        </div>
+
+        {settings.style !== 'none' && (
+          <div className="space-y-3">
+            <div className="grid grid-cols-2 gap-3 items-end">
+              <input
+                type="color"
+                value={settings.color}
+                onChange={(e) => update({ color: e.target.value })}
+                className="w-full h-7 bg-transparent cursor-pointer"
+                title="Color"
+              />
+              <label className="block">
+                <span className="flex justify-between text-[11px] text-gray-500">
+                  <span>Opacity</span>
+                  <span className="text-brand-300">{Math.round(settings.opacity * 100)}%</span>
+                </span>
+                <input
+                  type="range"
+                  min="0.05"
+                  max="1"
+                  step="0.05"
+                  value={settings.opacity}
+                  onChange={(e) => update({ opacity: parseFloat(e.target.value) })}
+                  className={sliderClass}
+                />
+              </label>
+            </div>
+
+            <div className="grid grid-cols-3 gap-1">
+              {VISUALIZER_POSITIONS.map(p => (
+                <button key={p.id} onClick={() => update({ position: p.id })} className={optionClass(settings.position === p.id)}>
+                  {p.name}
+                </button>
+              ))}
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <label className="block">
+                <span className="flex justify-between text-[11px] text-gray-500">
+                  <span>Size</span>
+                  <span className="text-brand-300">{Math.round(settings.size * 100)}%</span>
+                </span>
+                <input
+                  type="range"
+                  min="0.05"
+                  max="0.6"
+                  step="0.01"
+                  value={settings.size}
+                  onChange={(e) => update({ size: parseFloat(e.target.value) })}
+                  className={sliderClass}
+                />
+              </label>
+              {settings.style !== 'oscilloscope' && (
+                <label className="block">
+                  <span className="flex justify-between text-[11px] text-gray-500">
+                    <span>{settings.style === 'particles' ? 'Particles' : 'Bars'}</span>
+                    <span className="text-brand-300">{settings.barCount}</span>
+                  </span>
+                  <input
+                    type="range"
+                    min={MIN_VISUALIZER_BARS}
+                    max={MAX_VISUALIZER_BARS}
+                    step="4"
+                    value={settings.barCount}
+                    onChange={(e) => update({ barCount: parseInt(e.target.value) })}
+                    className={sliderClass}
+                  />
+                </label>
+              )}
+            </div>
+
+            {settings.style !== 'oscilloscope' && (
+              <div>
+                <span className="text-[11px] text-gray-500">Frequency scale</span>
+                <div className="grid grid-cols-3 gap-1 mt-1">
+                  {FREQUENCY_SCALES.map(f => (
+                    <button key={f.id} onClick={() => update({ scale: f.id })} title={f.description} className={optionClass(settings.scale === f.id)}>
+                      {f.name}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+      </fieldset>
+    </div>
+  );
+};
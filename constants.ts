@@ -1,4 +1,4 @@
-import { StylePreset } from "./types";
+import { BackgroundEffect, BeatDivision, EasingType, ExportFormatInfo, FramingMode, FrequencyScale, ModCurve, ModSource, ModTarget, OutputPreset, OverlayAnimation, PostEffectType, PoseTransitionMode, QaMode, SegmentationSource, SequenceOrder, StylePreset, TransitionType, VisualizerPosition, VisualizerStyle } from "./types";
 
 export const STYLE_PRESETS: StylePreset[] = [
   {
@@ -6,27 +6,260 @@ export const STYLE_PRESETS: StylePreset[] = [
     name: 'Neon Cyberpunk',
     description: 'Glowing neon lights, dark tech aesthetic, high contrast.',
     promptModifier: 'cyberpunk style, neon lights, glowing edges, futuristic city atmosphere, dark background with vibrant cyan and magenta highlights. High contrast. Sharp details.',
-    thumbnail: 'https://picsum.photos/id/132/100/100'
+    thumbnail: 'https://picsum.photos/id/132/100/100',
+    effects: [
+      { type: 'bloom', amount: 0.35, source: 'bass', reactivity: 0.5 },
+      { type: 'chromaticAberration', amount: 0.1, source: 'highs', reactivity: 0.5 },
+    ]
   },
   {
     id: 'retro-anime',
     name: 'Retro Anime (90s)',
     description: 'Vintage cel-shaded look, grain, VHS aesthetic.',
     promptModifier: '90s anime style, cel shaded, vhs glitch effect, retro aesthetic, lo-fi anime screenshot, hand drawn look.',
-    thumbnail: 'https://picsum.photos/id/234/100/100'
+    thumbnail: 'https://picsum.photos/id/234/100/100',
+    effects: [
+      { type: 'vhs', amount: 0.5, source: 'rms', reactivity: 0.3 },
+      { type: 'rgbSplit', amount: 0, source: 'onset', reactivity: 0.4 },
+    ]
   },
   {
     id: 'acid-glitch',
     name: 'Acid Glitch',
     description: 'Distorted visuals, chromatic aberration, digital noise.',
     promptModifier: 'glitch art, datamosh, chromatic aberration, distorted digital noise, acid colors, psychedelic, raw aesthetics.',
-    thumbnail: 'https://picsum.photos/id/345/100/100'
+    thumbnail: 'https://picsum.photos/id/345/100/100',
+    effects: [
+      { type: 'datamosh', amount: 0, source: 'bass', reactivity: 0.7 },
+      { type: 'rgbSplit', amount: 0.2, source: 'onset', reactivity: 0.8 },
+      { type: 'chromaticAberration', amount: 0.2, source: 'highs', reactivity: 0.5 },
+    ]
   },
   {
     id: 'oil-painting',
     name: 'Dreamy Oil',
     description: 'Fluid strokes, vivid colors, Van Gogh inspired.',
     promptModifier: 'impasto oil painting, thick brush strokes, vivid colors, dreamy atmosphere, swirling patterns, expressionist art.',
-    thumbnail: 'https://picsum.photos/id/456/100/100'
+    thumbnail: 'https://picsum.photos/id/456/100/100',
+    effects: [
+      { type: 'bloom', amount: 0.25, source: 'mids', reactivity: 0.3 },
+      { type: 'kaleidoscope', amount: 0, source: 'sub', reactivity: 0.4 },
+    ]
   }
-];
\ No newline at end of file
+];
+
+export const MIN_KEYFRAMES = 2;
+export const MAX_KEYFRAMES = 16;
+
+// Frames rendered at the same time, keeps bursts under API rate limits
+export const GENERATION_CONCURRENCY = 2;
+
+export const QA_MODES: { id: QaMode; name: string; description: string }[] = [
+  { id: 'regenerate', name: 'Auto-fix', description: 'Re-render frames that drift from the base character' },
+  { id: 'flag', name: 'Flag', description: 'Keep every frame, mark the ones that drift' },
+  { id: 'off', name: 'Off', description: 'No identity check' },
+];
+
+// Extra renders for a frame that fails the identity check, the best scoring one is kept
+export const QA_MAX_REJECTIONS = 1;
+
+// Oldest runs are dropped beyond this, frames still in the active set survive
+export const MAX_HISTORY_RUNS = 20;
+
+export const SEQUENCE_ORDERS: { id: SequenceOrder; name: string; description: string }[] = [
+  { id: 'pingpong', name: 'Ping-Pong', description: 'Base -> Var1 -> ... -> VarN -> ... -> Var1' },
+  { id: 'forward', name: 'Loop', description: 'Base -> Var1 -> ... -> VarN, then restart' },
+  { id: 'shuffle', name: 'Shuffle', description: 'Fixed shuffled order, same every playback' },
+];
+
+export const BEAT_DIVISIONS: { id: BeatDivision; name: string }[] = [
+  { id: 'half', name: '1/2 Beat' },
+  { id: 'beat', name: 'Beat' },
+  { id: 'bar', name: 'Bar' },
+];
+
+export const TRANSITIONS: { id: TransitionType; name: string }[] = [
+  { id: 'flash', name: 'Cut + Flash' },
+  { id: 'cut', name: 'Hard Cut' },
+];
+
+export const POSE_TRANSITIONS: { id: PoseTransitionMode; name: string; description: string }[] = [
+  { id: 'cut', name: 'Cut', description: 'Instant switch on the beat' },
+  { id: 'crossfade', name: 'Fade', description: 'Timed dissolve into the next pose' },
+  { id: 'morph', name: 'Morph', description: 'Warps along the motion between the two frames' },
+  { id: 'motionBlur', name: 'Blur', description: 'Next pose smears in and lands on the beat' },
+];
+
+// Transition length as a fraction of a beat
+export const TRANSITION_LENGTHS = [
+  { beats: 0.125, label: '1/8' },
+  { beats: 0.25, label: '1/4' },
+  { beats: 0.5, label: '1/2' },
+  { beats: 1, label: '1' },
+];
+
+// Fade lengths for the clip region, in seconds
+export const REGION_FADES = [
+  { seconds: 0, label: 'Off' },
+  { seconds: 0.5, label: '0.5s' },
+  { seconds: 1, label: '1s' },
+  { seconds: 2, label: '2s' },
+];
+
+export const EASINGS: { id: EasingType; name: string }[] = [
+  { id: 'linear', name: 'Linear' },
+  { id: 'easeIn', name: 'Ease In' },
+  { id: 'easeOut', name: 'Ease Out' },
+  { id: 'easeInOut', name: 'Ease In-Out' },
+];
+
+export const SEGMENTATION_SOURCES: { id: SegmentationSource; name: string; description: string }[] = [
+  { id: 'off', name: 'Off', description: 'Frames are drawn as one flat image' },
+  { id: 'local', name: 'On-device', description: 'U²-Net model running in the browser, no API calls' },
+  { id: 'provider', name: 'Generator', description: 'Asks the frame generator for a subject mask' },
+];
+
+// Salient object model (U²-Netp, 320x320 input), served from public/models
+export const SEGMENTATION_MODEL_URL = '/models/u2netp.onnx';
+
+export const BACKGROUND_EFFECTS: { id: BackgroundEffect; name: string; description: string }[] = [
+  { id: 'static', name: 'Static', description: 'Background holds still behind the subject' },
+  { id: 'parallax', name: 'Parallax', description: 'Background drifts against the subject motion' },
+  { id: 'colorPulse', name: 'Pulse', description: 'Background hue pulses with the bass' },
+];
+
+export const MOD_SOURCES: { id: ModSource; name: string; description: string }[] = [
+  { id: 'sub', name: 'Sub', description: 'Below ~60Hz, the rumble under the kick' },
+  { id: 'bass', name: 'Bass', description: 'Kick drum and bass line, ~45-190Hz' },
+  { id: 'mids', name: 'Mids', description: 'Vocals, snares and synths, ~250Hz-4kHz' },
+  { id: 'highs', name: 'Highs', description: 'Hi-hats, cymbals and air above ~4kHz' },
+  { id: 'rms', name: 'RMS', description: 'Overall loudness' },
+  { id: 'onset', name: 'Onset', description: 'Spikes on new notes and hits' },
+  { id: 'beatPhase', name: 'Beat Phase', description: '1 on each beat of the grid, ramping down until the next' },
+];
+
+export const OVERLAY_FONTS: { id: string; name: string; family: string; weight: number }[] = [
+  { id: 'sans', name: 'Sans', family: 'system-ui, -apple-system, "Segoe UI", sans-serif', weight: 700 },
+  { id: 'impact', name: 'Impact', family: 'Impact, "Arial Black", sans-serif', weight: 400 },
+  { id: 'serif', name: 'Serif', family: 'Georgia, "Times New Roman", serif', weight: 700 },
+  { id: 'mono', name: 'Mono', family: '"Courier New", monospace', weight: 700 },
+];
+
+export const OVERLAY_ANIMATIONS: { id: OverlayAnimation; name: string; description: string }[] = [
+  { id: 'none', name: 'None', description: 'Static text' },
+  { id: 'pop', name: 'Pop', description: 'Scales up with the band' },
+  { id: 'shake', name: 'Shake', description: 'Jitters on loud hits' },
+  { id: 'glow', name: 'Glow', description: 'Glows in its own color with the band' },
+];
+
+export const VISUALIZER_STYLES: { id: VisualizerStyle; name: string; description: string }[] = [
+  { id: 'bars', name: 'Bars', description: 'Mirrored spectrum bars' },
+  { id: 'radial', name: 'Radial', description: 'Spectrum bars around a circle' },
+  { id: 'oscilloscope', name: 'Scope', description: 'Waveform line of the current audio' },
+  { id: 'particles', name: 'Particles', description: 'Bursts on every pose change, sized by the spectrum' },
+  { id: 'none', name: 'None', description: 'No visualizer' },
+];
+
+export const FREQUENCY_SCALES: { id: FrequencyScale; name: string; description: string }[] = [
+  { id: 'linear', name: 'Linear', description: 'Equal Hz per bar, mostly highs' },
+  { id: 'log', name: 'Log', description: 'Equal octaves per bar, like a mixing desk analyser' },
+  { id: 'mel', name: 'Mel', description: 'Follows pitch perception, more room for the mids' },
+];
+
+export const VISUALIZER_POSITIONS: { id: VisualizerPosition; name: string }[] = [
+  { id: 'top', name: 'Top' },
+  { id: 'center', name: 'Center' },
+  { id: 'bottom', name: 'Bottom' },
+];
+
+export const MIN_VISUALIZER_BARS = 8;
+export const MAX_VISUALIZER_BARS = 128;
+
+export const MOD_TARGETS: { id: ModTarget; name: string; description: string }[] = [
+  { id: 'scale', name: 'Scale', description: 'Zoom thump, up to 10% at full amount' },
+  { id: 'rotation', name: 'Rotation', description: 'Tilt, alternating direction per pose' },
+  { id: 'shake', name: 'Shake', description: 'Random jitter, up to ±10px' },
+  { id: 'flash', name: 'Flash', description: 'White overlay flash' },
+  { id: 'hue', name: 'Hue', description: 'Hue shift of the subject, up to 180°' },
+  { id: 'blur', name: 'Blur', description: 'Subject blur, up to 8px' },
+  { id: 'poseAdvance', name: 'Pose Advance', description: 'Jumps to the next pose when the level crosses half' },
+];
+
+export const MOD_CURVES: { id: ModCurve; name: string }[] = [
+  { id: 'linear', name: 'Linear' },
+  { id: 'exponential', name: 'Exponential' },
+  { id: 'logarithmic', name: 'Logarithmic' },
+  { id: 'gate', name: 'Gate' },
+];
+
+export const MAX_MOD_ROUTINGS = 12;
+
+export const POST_EFFECTS: { id: PostEffectType; name: string; description: string }[] = [
+  { id: 'bloom', name: 'Bloom', description: 'Highlights glow into their surroundings' },
+  { id: 'chromaticAberration', name: 'Chromatic Aberration', description: 'Color fringes toward the frame edges' },
+  { id: 'rgbSplit', name: 'RGB Split', description: 'Jittering horizontal channel offset' },
+  { id: 'vhs', name: 'VHS', description: 'Scanlines, line wobble and grain' },
+  { id: 'datamosh', name: 'Datamosh', description: 'Moving blocks drag the previous frame along' },
+  { id: 'kaleidoscope', name: 'Kaleidoscope', description: 'Six mirrored wedges fade in' },
+];
+
+export const EXPORT_FORMATS: ExportFormatInfo[] = [
+  { id: 'mp4', name: 'MP4', extension: 'mp4', mimeType: 'video/mp4', kind: 'video' },
+  { id: 'webm', name: 'WebM', extension: 'webm', mimeType: 'video/webm', kind: 'video' },
+  { id: 'gif', name: 'GIF', extension: 'gif', mimeType: 'image/gif', kind: 'animation' },
+  { id: 'apng', name: 'APNG', extension: 'png', mimeType: 'image/apng', kind: 'animation' },
+];
+
+// Safe areas follow the feed and story overlays of the platforms
+export const OUTPUT_PRESETS: OutputPreset[] = [
+  {
+    id: 'vertical', name: '9:16', description: 'Reels, TikTok and Shorts',
+    width: 1080, height: 1920, aspectRatio: '9:16',
+    safeArea: { top: 0.14, right: 0.12, bottom: 0.2, left: 0.06 },
+  },
+  {
+    id: 'square', name: '1:1', description: 'Feed posts',
+    width: 1080, height: 1080, aspectRatio: '1:1',
+    safeArea: { top: 0.05, right: 0.05, bottom: 0.05, left: 0.05 },
+  },
+  {
+    id: 'landscape', name: '16:9', description: 'YouTube and desktop',
+    width: 1920, height: 1080, aspectRatio: '16:9',
+    safeArea: { top: 0.05, right: 0.05, bottom: 0.05, left: 0.05 },
+  },
+  {
+    id: 'uhd', name: '4K', description: '16:9 at 3840×2160 for screens and projection',
+    width: 3840, height: 2160, aspectRatio: '16:9',
+    safeArea: { top: 0.05, right: 0.05, bottom: 0.05, left: 0.05 },
+  },
+];
+
+export const FRAMING_MODES: { id: FramingMode; name: string; description: string }[] = [
+  { id: 'fit', name: 'Fit', description: 'Whole frame visible, black bars where the aspect differs' },
+  { id: 'fill', name: 'Fill', description: 'Whole frame visible, a blurred copy fills the bars' },
+  { id: 'crop', name: 'Crop', description: 'Covers the output, the edges of the frame are cut' },
+];
+
+// Short side of the export, the long side follows the output preset's aspect
+export const EXPORT_RESOLUTIONS = [
+  { label: '270p', shortSide: 270 },
+  { label: '360p', shortSide: 360 },
+  { label: '480p', shortSide: 480 },
+  { label: '720p', shortSide: 720 },
+  { label: '1080p', shortSide: 1080 },
+  { label: '4K', shortSide: 2160 },
+];
+
+export const EXPORT_BITRATES = [
+  { label: '2.5 Mbps', value: 2500000 },
+  { label: '5 Mbps', value: 5000000 },
+  { label: '8 Mbps', value: 8000000 },
+  { label: '12 Mbps', value: 12000000 },
+];
+
+export const EXPORT_COLORS = [
+  { label: '64 colors', value: 64 },
+  { label: '128 colors', value: 128 },
+  { label: '256 colors', value: 256 },
+  { label: 'Lossless', value: 0 }, // APNG only
+];
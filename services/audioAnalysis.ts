@@ -0,0 +1,418 @@
+import { BeatDivision, TrackAnalysis } from "../types";
+
+// Offline audio analysis.
+// Per-frame features mirror the live AnalyserNode path in Step4Preview so that an
+// export computed here reacts to the music exactly like the real-time preview does.
+// Track analysis (onsets, tempo, beat/downbeat grid) drives the choreography.
+
+export const ANALYSIS_SAMPLE_RATE = 48000;
+export const FFT_SIZE = 2048; // Same as the live analyser
+
+// AnalyserNode defaults, used to convert magnitudes to byte data
+const MIN_DECIBELS = -100;
+const MAX_DECIBELS = -30;
+const SMOOTHING = 0.8;
+
+// Kick area (see Step4Preview): ~23Hz per bin at 48kHz / 2048
+const BASS_START_BIN = 2;
+const BASS_END_BIN = 8;
+
+export interface FrameFeatures {
+  bassLevel: number; // 0.0 to 1.0
+  rms: number; // Time-domain RMS of the analysis window, 0.0 to 1.0
+  isBeat: boolean;
+  spectrum: Uint8Array; // Same layout as AnalyserNode.getByteFrequencyData
+  waveform: Uint8Array; // Same layout as AnalyserNode.getByteTimeDomainData
+}
+
+/**
+ * Decodes a whole audio URL, resampled to the analysis rate.
+ */
+export const decodeFullAudio = async (url: string): Promise<AudioBuffer> => {
+  const response = await fetch(url);
+  const data = await response.arrayBuffer();
+
+  const probe = new OfflineAudioContext(2, 1, ANALYSIS_SAMPLE_RATE);
+  return probe.decodeAudioData(data);
+};
+
+/**
+ * Decodes an audio URL and renders `duration` seconds from `start` through an
+ * OfflineAudioContext so the result is a fixed-rate, fixed-length stereo buffer.
+ */
+export const decodeAudio = async (url: string, start: number, duration: number): Promise<AudioBuffer> => {
+  const decoded = await decodeFullAudio(url);
+
+  const seconds = Math.min(duration, decoded.duration - start);
+  const offline = new OfflineAudioContext(2, Math.round(seconds * ANALYSIS_SAMPLE_RATE), ANALYSIS_SAMPLE_RATE);
+  const source = offline.createBufferSource();
+  source.buffer = decoded;
+  source.connect(offline.destination);
+  source.start(0, start);
+
+  return offline.startRendering();
+};
+
+/**
+ * In-place iterative radix-2 FFT.
+ */
+const fft = (re: Float64Array, im: Float64Array) => {
+  const n = re.length;
+
+  // Bit reversal
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+
+  for (let size = 2; size <= n; size <<= 1) {
+    const angle = (-2 * Math.PI) / size;
+    const wRe = Math.cos(angle);
+    const wIm = Math.sin(angle);
+    for (let start = 0; start < n; start += size) {
+      let curRe = 1;
+      let curIm = 0;
+      for (let k = 0; k < size / 2; k++) {
+        const a = start + k;
+        const b = a + size / 2;
+        const tRe = re[b] * curRe - im[b] * curIm;
+        const tIm = re[b] * curIm + im[b] * curRe;
+        re[b] = re[a] - tRe;
+        im[b] = im[a] - tIm;
+        re[a] += tRe;
+        im[a] += tIm;
+        const nextRe = curRe * wRe - curIm * wIm;
+        curIm = curRe * wIm + curIm * wRe;
+        curRe = nextRe;
+      }
+    }
+  }
+};
+
+const mixToMono = (buffer: AudioBuffer): Float32Array => {
+  const mono = new Float32Array(buffer.length);
+  for (let c = 0; c < buffer.numberOfChannels; c++) {
+    const channel = buffer.getChannelData(c);
+    for (let i = 0; i < channel.length; i++) mono[i] += channel[i] / buffer.numberOfChannels;
+  }
+  return mono;
+};
+
+/**
+ * Precomputes spectrum, bass energy and beat triggers for every video frame.
+ * Uses the same Blackman window, smoothing and dB mapping as AnalyserNode and
+ * the same dynamic thresholding as the live beat detector.
+ */
+export const analyzeFrames = (
+  buffer: AudioBuffer,
+  fps: number,
+  frameCount: number,
+  intensity: number
+): FrameFeatures[] => {
+  const samples = mixToMono(buffer);
+  const bins = FFT_SIZE / 2;
+
+  const window = new Float64Array(FFT_SIZE);
+  for (let i = 0; i < FFT_SIZE; i++) {
+    const x = i / FFT_SIZE;
+    window[i] = 0.42 - 0.5 * Math.cos(2 * Math.PI * x) + 0.08 * Math.cos(4 * Math.PI * x);
+  }
+
+  const smoothed = new Float64Array(bins);
+  const re = new Float64Array(FFT_SIZE);
+  const im = new Float64Array(FFT_SIZE);
+
+  const energyHistory: number[] = [];
+  const historySize = fps; // ~1 second
+  const sensitivity = 1.5 - (intensity / 200);
+  let lastBeatTime = -Infinity;
+
+  const features: FrameFeatures[] = [];
+
+  for (let f = 0; f < frameCount; f++) {
+    // Window of samples ending at this frame's timestamp
+    const end = Math.round((f / fps) * buffer.sampleRate);
+    const waveform = new Uint8Array(FFT_SIZE);
+    let energy = 0;
+    for (let i = 0; i < FFT_SIZE; i++) {
+      const idx = end - FFT_SIZE + i;
+      const sample = idx >= 0 && idx < samples.length ? samples[idx] : 0;
+      waveform[i] = Math.max(0, Math.min(255, Math.round(128 + sample * 128)));
+      energy += sample * sample;
+      re[i] = sample * window[i];
+      im[i] = 0;
+    }
+    fft(re, im);
+
+    const spectrum = new Uint8Array(bins);
+    for (let k = 0; k < bins; k++) {
+      const magnitude = Math.hypot(re[k], im[k]) / FFT_SIZE;
+      smoothed[k] = SMOOTHING * smoothed[k] + (1 - SMOOTHING) * magnitude;
+      const db = 20 * Math.log10(smoothed[k] || 1e-12);
+      const scaled = (255 / (MAX_DECIBELS - MIN_DECIBELS)) * (db - MIN_DECIBELS);
+      spectrum[k] = Math.max(0, Math.min(255, Math.floor(scaled)));
+    }
+
+    let bassSum = 0;
+    for (let i = BASS_START_BIN; i < BASS_END_BIN; i++) bassSum += spectrum[i];
+    const bassLevel = (bassSum / (BASS_END_BIN - BASS_START_BIN)) / 255;
+
+    energyHistory.push(bassLevel);
+    if (energyHistory.length > historySize) energyHistory.shift();
+    const avgEnergy = energyHistory.reduce((a, b) => a + b, 0) / energyHistory.length;
+
+    const time = (f / fps) * 1000;
+    let isBeat = false;
+    if (bassLevel > avgEnergy * sensitivity && bassLevel > 0.3 && time - lastBeatTime > 200) {
+      isBeat = true;
+      lastBeatTime = time;
+    }
+
+    features.push({ bassLevel, rms: Math.sqrt(energy / FFT_SIZE), isBeat, spectrum, waveform });
+  }
+
+  return features;
+};
+
+// ---------------------------------------------------------------------------
+// Track analysis: onsets, tempo and beat grid
+// ---------------------------------------------------------------------------
+
+const ONSET_FFT_SIZE = 1024;
+const ONSET_HOP = 512; // ~10.7ms at 48kHz
+const LOW_BAND_BINS = 4; // ~0-190Hz, used for downbeats
+const MIN_BPM = 60;
+const MAX_BPM = 200;
+const PREFERRED_BPM = 120;
+const BEATS_PER_BAR = 4;
+export const WAVEFORM_RATE = 50; // Buckets per second
+
+export const DIVISION_BEATS: Record<BeatDivision, number> = {
+  half: 0.5,
+  beat: 1,
+  bar: BEATS_PER_BAR,
+};
+
+/**
+ * Log-magnitude spectral flux of the whole track (full band + low band).
+ */
+const onsetEnvelope = (samples: Float32Array) => {
+  const frames = Math.max(0, Math.floor((samples.length - ONSET_FFT_SIZE) / ONSET_HOP) + 1);
+  const bins = ONSET_FFT_SIZE / 2;
+  const flux = new Float64Array(frames);
+  const lowFlux = new Float64Array(frames);
+
+  const window = new Float64Array(ONSET_FFT_SIZE);
+  for (let i = 0; i < ONSET_FFT_SIZE; i++) window[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / ONSET_FFT_SIZE);
+
+  const re = new Float64Array(ONSET_FFT_SIZE);
+  const im = new Float64Array(ONSET_FFT_SIZE);
+  let prev = new Float64Array(bins);
+  let cur = new Float64Array(bins);
+
+  for (let f = 0; f < frames; f++) {
+    const offset = f * ONSET_HOP;
+    for (let i = 0; i < ONSET_FFT_SIZE; i++) {
+      re[i] = samples[offset + i] * window[i];
+      im[i] = 0;
+    }
+    fft(re, im);
+
+    let total = 0;
+    let low = 0;
+    for (let k = 1; k < bins; k++) {
+      cur[k] = Math.log1p(100 * Math.hypot(re[k], im[k]));
+      const diff = Math.max(0, cur[k] - prev[k]);
+      total += diff;
+      if (k <= LOW_BAND_BINS) low += diff;
+    }
+    flux[f] = f === 0 ? 0 : total;
+    lowFlux[f] = f === 0 ? 0 : low;
+    [prev, cur] = [cur, prev];
+  }
+
+  // Subtract the local mean (~0.5s) so sustained energy does not read as onsets
+  const radius = 24;
+  const envelope = new Float64Array(frames);
+  let sum = 0;
+  for (let i = 0; i < Math.min(frames, radius); i++) sum += flux[i];
+  for (let f = 0; f < frames; f++) {
+    if (f + radius < frames) sum += flux[f + radius];
+    if (f - radius - 1 >= 0) sum -= flux[f - radius - 1];
+    const count = Math.min(frames - 1, f + radius) - Math.max(0, f - radius) + 1;
+    envelope[f] = Math.max(0, flux[f] - sum / count);
+  }
+
+  return { envelope, lowFlux, rate: ANALYSIS_SAMPLE_RATE / ONSET_HOP };
+};
+
+// Centre of an envelope frame's analysis window, in seconds
+const envelopeTime = (frame: number) => (frame * ONSET_HOP + ONSET_FFT_SIZE / 2) / ANALYSIS_SAMPLE_RATE;
+
+const pickOnsets = (envelope: Float64Array, rate: number): number[] => {
+  let mean = 0;
+  for (let i = 0; i < envelope.length; i++) mean += envelope[i];
+  mean /= envelope.length || 1;
+  let variance = 0;
+  for (let i = 0; i < envelope.length; i++) variance += (envelope[i] - mean) ** 2;
+  const threshold = mean + 0.5 * Math.sqrt(variance / (envelope.length || 1));
+
+  const minGap = Math.round(0.05 * rate);
+  const onsets: number[] = [];
+  let last = -Infinity;
+  for (let i = 1; i < envelope.length - 1; i++) {
+    const isPeak = envelope[i] > envelope[i - 1] && envelope[i] >= envelope[i + 1];
+    if (isPeak && envelope[i] > threshold && i - last >= minGap) {
+      onsets.push(envelopeTime(i));
+      last = i;
+    }
+  }
+  return onsets;
+};
+
+/**
+ * Autocorrelation tempo estimate, weighted towards ~120 BPM to avoid octave errors.
+ * Returns the beat period in envelope frames (fractional).
+ */
+const estimatePeriod = (envelope: Float64Array, rate: number): number => {
+  const minLag = Math.floor((60 / MAX_BPM) * rate);
+  const maxLag = Math.ceil((60 / MIN_BPM) * rate);
+
+  const autocorr = (lag: number) => {
+    let sum = 0;
+    for (let i = lag; i < envelope.length; i++) sum += envelope[i] * envelope[i - lag];
+    return sum / (envelope.length - lag || 1);
+  };
+
+  const scores: number[] = [];
+  let bestLag = Math.round((60 / PREFERRED_BPM) * rate);
+  let bestScore = -Infinity;
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    const bpm = (60 * rate) / lag;
+    const weight = Math.exp(-0.5 * Math.log2(bpm / PREFERRED_BPM) ** 2);
+    const score = (autocorr(lag) + 0.5 * autocorr(lag * 2)) * weight;
+    scores[lag] = score;
+    if (score > bestScore) {
+      bestScore = score;
+      bestLag = lag;
+    }
+  }
+
+  // Parabolic interpolation for a sub-frame period
+  const a = scores[bestLag - 1];
+  const b = scores[bestLag];
+  const c = scores[bestLag + 1];
+  if (a !== undefined && c !== undefined) {
+    const denom = a - 2 * b + c;
+    if (denom !== 0) return bestLag + (0.5 * (a - c)) / denom;
+  }
+  return bestLag;
+};
+
+const envelopeAt = (envelope: Float64Array, position: number, radius = 2) => {
+  const center = Math.round(position);
+  let best = 0;
+  for (let i = center - radius; i <= center + radius; i++) {
+    if (i >= 0 && i < envelope.length) best = Math.max(best, envelope[i]);
+  }
+  return best;
+};
+
+const computeWaveform = (samples: Float32Array, sampleRate: number): number[] => {
+  const bucketSize = Math.round(sampleRate / WAVEFORM_RATE);
+  const peaks: number[] = [];
+  for (let start = 0; start < samples.length; start += bucketSize) {
+    let peak = 0;
+    const end = Math.min(samples.length, start + bucketSize);
+    for (let i = start; i < end; i++) peak = Math.max(peak, Math.abs(samples[i]));
+    peaks.push(Math.round(Math.min(1, peak) * 1000) / 1000);
+  }
+  return peaks;
+};
+
+/**
+ * Pre-analyses a track: onset detection, tempo estimation and a constant-tempo
+ * beat/downbeat grid aligned to the strongest onsets.
+ */
+export const analyzeTrack = async (url: string): Promise<TrackAnalysis> => {
+  const buffer = await decodeFullAudio(url);
+  const samples = mixToMono(buffer);
+  const { envelope, lowFlux, rate } = onsetEnvelope(samples);
+
+  const period = estimatePeriod(envelope, rate);
+
+  // Beat phase: offset whose grid collects the most onset energy
+  let bestOffset = 0;
+  let bestScore = -Infinity;
+  for (let offset = 0; offset < period; offset++) {
+    let score = 0;
+    for (let t = offset; t < envelope.length; t += period) score += envelopeAt(envelope, t);
+    if (score > bestScore) {
+      bestScore = score;
+      bestOffset = offset;
+    }
+  }
+
+  const beatFrames: number[] = [];
+  for (let t = bestOffset; t < envelope.length; t += period) beatFrames.push(t);
+
+  // Downbeat phase: the bar position with the heaviest low end (kicks)
+  let barPhase = 0;
+  let barScore = -Infinity;
+  for (let phase = 0; phase < BEATS_PER_BAR; phase++) {
+    let score = 0;
+    for (let i = phase; i < beatFrames.length; i += BEATS_PER_BAR) score += envelopeAt(lowFlux, beatFrames[i]);
+    if (score > barScore) {
+      barScore = score;
+      barPhase = phase;
+    }
+  }
+
+  const beats = beatFrames.map(envelopeTime);
+  const beatPeriod = period / rate;
+
+  return {
+    duration: buffer.duration,
+    bpm: 60 / beatPeriod,
+    beatPeriod,
+    beats,
+    downbeats: beats.filter((_, i) => i % BEATS_PER_BAR === barPhase),
+    onsets: pickOnsets(envelope, rate),
+    waveform: computeWaveform(samples, buffer.sampleRate),
+  };
+};
+
+/**
+ * Step length and anchor of a beat grid. Steps are anchored on the first beat,
+ * or the first downbeat for bars.
+ */
+export const beatGrid = (analysis: TrackAnalysis, division: BeatDivision) => ({
+  step: analysis.beatPeriod * DIVISION_BEATS[division],
+  anchor: division === 'bar'
+    ? (analysis.downbeats[0] ?? analysis.beats[0] ?? 0)
+    : (analysis.beats[0] ?? 0),
+});
+
+/**
+ * Index of the grid step containing `time` (seconds). Times before the anchor are negative.
+ */
+export const gridStepAt = (analysis: TrackAnalysis, division: BeatDivision, time: number): number => {
+  const { step, anchor } = beatGrid(analysis, division);
+  return Math.floor((time - anchor) / step + 1e-6);
+};
+
+/**
+ * Snaps a time to the nearest grid line. Without a beat grid, snaps to quarter seconds.
+ */
+export const snapToGrid = (analysis: TrackAnalysis | null, division: BeatDivision, time: number): number => {
+  if (!analysis) return Math.max(0, Math.round(time * 4) / 4);
+
+  const { step, anchor } = beatGrid(analysis, division);
+  const snapped = anchor + Math.round((time - anchor) / step) * step;
+  return Math.max(0, snapped < 0 ? snapped + step : snapped);
+};
@@ -0,0 +1,86 @@
+import { AudioRegion, TrackAnalysis } from '../types';
+
+// The part of the track that is previewed and exported. Both ends sit on
+// downbeats, so the clip is a whole number of bars and loops without a
+// stumble when a platform repeats it.
+
+export const MAX_REGION_SECONDS = 30;
+const MIN_REGION_SECONDS = 1; // Without a beat grid
+
+const closest = (times: number[], time: number): number =>
+  times.reduce((best, t) => Math.abs(t - time) < Math.abs(best - time) ? t : best, times[0]);
+
+/**
+ * Downbeat closest to `time`, or `time` itself without a beat grid.
+ */
+export const snapToBar = (analysis: TrackAnalysis | null, time: number): number => {
+  const downbeats = analysis?.downbeats ?? [];
+  return downbeats.length > 0 ? closest(downbeats, time) : time;
+};
+
+/**
+ * Snaps both ends to bars and keeps the length between one bar and
+ * MAX_REGION_SECONDS. `end` is kept on a downbeat after `start`, so the
+ * region never collapses.
+ */
+export const snapRegion = (
+  analysis: TrackAnalysis | null,
+  trackDuration: number,
+  region: AudioRegion
+): AudioRegion => {
+  const downbeats = analysis?.downbeats ?? [];
+  // The last bar cannot start a region, nothing follows it to end on
+  const start = downbeats.length > 1
+    ? closest(downbeats.slice(0, -1), region.start)
+    : Math.min(Math.max(0, region.start), Math.max(0, trackDuration - MIN_REGION_SECONDS));
+
+  const candidates = downbeats.filter(d => d > start + 1e-3 && d - start <= MAX_REGION_SECONDS + 1e-3);
+  const end = candidates.length > 0
+    ? closest(candidates, region.end)
+    : Math.min(Math.max(region.end, start + MIN_REGION_SECONDS), start + MAX_REGION_SECONDS, trackDuration);
+
+  // Fades may not overlap
+  const length = end - start;
+  const fadeIn = Math.min(region.fadeIn, length / 2);
+  const fadeOut = Math.min(region.fadeOut, length / 2);
+  return { start, end, fadeIn, fadeOut };
+};
+
+/**
+ * The region to play: the user's selection, or the first `duration` seconds
+ * cut back to the last bar that fits.
+ */
+export const clipRegion = (
+  region: AudioRegion | null,
+  duration: number,
+  analysis: TrackAnalysis | null
+): AudioRegion => {
+  if (region) return region;
+
+  const end = Math.min(duration, analysis?.duration ?? duration);
+  const lastBar = [...(analysis?.downbeats ?? [])].reverse().find(d => d > 0 && d <= end + 1e-3);
+  return { start: 0, end: lastBar ?? end, fadeIn: 0, fadeOut: 0 };
+};
+
+/**
+ * Volume envelope at track time `time`, 0-1.
+ */
+export const fadeGainAt = (region: AudioRegion, time: number): number => {
+  let gain = 1;
+  if (region.fadeIn > 0) gain *= Math.min(1, Math.max(0, (time - region.start) / region.fadeIn));
+  if (region.fadeOut > 0) gain *= Math.min(1, Math.max(0, (region.end - time) / region.fadeOut));
+  return gain;
+};
+
+/**
+ * Applies the fades in place to a buffer that starts at `region.start`.
+ */
+export const applyFades = (buffer: AudioBuffer, region: AudioRegion) => {
+  if (region.fadeIn <= 0 && region.fadeOut <= 0) return;
+  for (let c = 0; c < buffer.numberOfChannels; c++) {
+    const data = buffer.getChannelData(c);
+    for (let i = 0; i < data.length; i++) {
+      data[i] *= fadeGainAt(region, region.start + i / buffer.sampleRate);
+    }
+  }
+};
@@ -0,0 +1,429 @@
+import { Muxer as WebMMuxer, ArrayBufferTarget as WebMTarget } from 'webm-muxer';
+import { Muxer as Mp4Muxer, ArrayBufferTarget as Mp4Target } from 'mp4-muxer';
+import { GIFEncoder, applyPalette, quantize } from 'gifenc';
+import * as UPNG from 'upng-js';
+import { AudioRegion, BeatDivision, ChoreographyCue, ExportFormat, ExportSettings, FramingMode, ModRouting, PostEffect, PoseTransitionSettings, PoseType, TextOverlay, TrackAnalysis, VisualizerSettings } from '../types';
+import { EXPORT_FORMATS } from '../constants';
+import { analyzeFrames, decodeAudio } from './audioAnalysis';
+import { applyFades } from './audioRegion';
+import { beatCrossed, beatPhaseAt, createModulationState, evaluateModulation, measureBands, syntheticBands } from './modulation';
+import { createPostFxChain } from './postFx';
+import { LoadedLayer, advanceLayers, createLayerMotion, holdLayers } from './sceneLayers';
+import { drawOverlays } from './overlays';
+import { createVisualizerState } from './visualizer';
+import { BackgroundLayer, advanceChoreography, createChoreographyState, createRng, currentPose, drawScene, resolvePoseBlend } from './renderer';
+
+// Offline (faster than real-time) export.
+// Every frame is drawn at a fixed timestep from precomputed audio features,
+// then encoded with WebCodecs and muxed together with the decoded audio.
+// GIF/APNG skip the audio and render one silent loop of the pose sequence.
+
+export interface ExportOptions {
+  format: ExportFormat;
+  settings: ExportSettings;
+  poseImages: Record<string, HTMLImageElement>;
+  sequence: PoseType[]; // Playback order of the poses
+  analysis: TrackAnalysis | null; // Beat grid, falls back to per-frame beat detection
+  beatDivision: BeatDivision;
+  cues: ChoreographyCue[]; // Timeline, overrides the automatic sequence when set
+  transition: PoseTransitionSettings;
+  background?: BackgroundLayer; // Layer under segmented frames
+  layers: LoadedLayer[]; // Extra subjects around the main one
+  framing: FramingMode; // Placement of frames that do not match the export aspect
+  overlays: TextOverlay[]; // Titles and lyrics, on top of the post-processing
+  visualizer: VisualizerSettings;
+  modulation: ModRouting[];
+  effects: PostEffect[]; // Post-processing stack, empty for the plain frame
+  audioUrl: string;
+  region: AudioRegion; // Part of the track to render, in track seconds
+  intensity: number; // 0-100
+  seed?: number;
+  onProgress?: (percent: number) => void;
+}
+
+export const EXPORT_SEED = 1337;
+
+const AUDIO_CHUNK_FRAMES = 4800; // 100ms at 48kHz
+const AUDIO_BITRATE = 128000;
+const MAX_ENCODE_QUEUE = 8;
+const LOOP_POSE_SECONDS = 0.5; // Each pose of a silent loop is held for one beat at 120 BPM
+
+interface CodecChoice {
+  codec: string; // WebCodecs codec string
+  muxCodec: string; // Container codec id
+}
+
+// Common interface of the webm-muxer and mp4-muxer instances
+interface LoopMuxer {
+  addVideoChunk(chunk: EncodedVideoChunk, meta?: EncodedVideoChunkMetadata): void;
+  addAudioChunk(chunk: EncodedAudioChunk, meta?: EncodedAudioChunkMetadata): void;
+  finalize(): void;
+  target: { buffer: ArrayBuffer };
+}
+
+const h264Codecs = (width: number, height: number): CodecChoice[] => {
+  // Level 4.0 covers 1080p, 5.1 covers 4K
+  const level = width * height > 1920 * 1088 ? '33' : '28';
+  return ['64', '4d', '42'].map(profile => ({ codec: `avc1.${profile}00${level}`, muxCodec: 'avc' }));
+};
+
+const VIDEO_CONTAINERS: Record<'mp4' | 'webm', {
+  videoCodecs: (width: number, height: number) => CodecChoice[];
+  audioCodec: CodecChoice;
+  createMuxer: (video: { codec: string; width: number; height: number; frameRate: number }, audio: { codec: string; numberOfChannels: number; sampleRate: number }) => LoopMuxer;
+}> = {
+  mp4: {
+    videoCodecs: h264Codecs,
+    audioCodec: { codec: 'mp4a.40.2', muxCodec: 'aac' },
+    createMuxer: (video, audio) => new Mp4Muxer({
+      target: new Mp4Target(),
+      video: { ...video, codec: video.codec as 'avc' },
+      audio: { ...audio, codec: audio.codec as 'aac' },
+      fastStart: 'in-memory',
+    }),
+  },
+  webm: {
+    videoCodecs: () => [
+      { codec: 'vp09.00.10.08', muxCodec: 'V_VP9' },
+      { codec: 'vp8', muxCodec: 'V_VP8' },
+    ],
+    audioCodec: { codec: 'opus', muxCodec: 'A_OPUS' },
+    createMuxer: (video, audio) => new WebMMuxer({ target: new WebMTarget(), video, audio }),
+  },
+};
+
+const pickVideoCodec = async (candidates: CodecChoice[], width: number, height: number, bitrate: number, framerate: number) => {
+  for (const candidate of candidates) {
+    const config: VideoEncoderConfig = { codec: candidate.codec, width, height, bitrate, framerate };
+    if (candidate.muxCodec === 'avc') config.avc = { format: 'avc' };
+    const support = await VideoEncoder.isConfigSupported(config);
+    if (support.supported) return { config, muxCodec: candidate.muxCodec };
+  }
+  throw new Error("No supported video codec found for this format.");
+};
+
+const waitForQueue = async (encoder: VideoEncoder) => {
+  while (encoder.encodeQueueSize > MAX_ENCODE_QUEUE) {
+    await new Promise(resolve => setTimeout(resolve, 0));
+  }
+};
+
+const yieldToUi = () => new Promise(resolve => setTimeout(resolve, 0));
+
+const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error("Could not create export canvas.");
+  return { canvas, ctx };
+};
+
+/**
+ * The exporter seeks its own copy of a video background, so the preview keeps playing.
+ */
+const prepareBackground = async (layer?: BackgroundLayer): Promise<BackgroundLayer | undefined> => {
+  if (!layer || !(layer.source instanceof HTMLVideoElement)) return layer;
+  const video = document.createElement('video');
+  video.muted = true;
+  video.playsInline = true;
+  video.preload = 'auto';
+  await new Promise((resolve, reject) => {
+    video.onloadeddata = resolve;
+    video.onerror = () => reject(new Error("Could not load the background video."));
+    video.src = layer.source.currentSrc || layer.source.src;
+  });
+  return { ...layer, source: video };
+};
+
+// Puts a video background on the frame for `time` (seconds), looping it
+const seekBackground = async (layer: BackgroundLayer | undefined, time: number) => {
+  if (!layer || !(layer.source instanceof HTMLVideoElement)) return;
+  const video = layer.source;
+  const target = video.duration > 0 ? time % video.duration : 0;
+  if (Math.abs(video.currentTime - target) < 1e-3) return;
+  await new Promise(resolve => {
+    video.onseeked = resolve;
+    video.currentTime = target;
+  });
+};
+
+/**
+ * Renders the audio-reactive loop offline into an MP4 or WebM blob.
+ * The same inputs always produce the same frames: audio features are computed
+ * per frame and all randomness comes from a seeded PRNG.
+ */
+const renderVideo = async (options: ExportOptions, container: 'mp4' | 'webm'): Promise<Blob> => {
+  if (typeof VideoEncoder === 'undefined' || typeof AudioEncoder === 'undefined') {
+    throw new Error("This browser does not support WebCodecs encoding.");
+  }
+
+  const { poseImages, settings, intensity, onProgress } = options;
+  const { width, height, fps } = settings;
+  const { videoCodecs, audioCodec, createMuxer } = VIDEO_CONTAINERS[container];
+
+  // 1. Decode + analyse audio
+  const { region } = options;
+  const audio = await decodeAudio(options.audioUrl, region.start, region.end - region.start);
+  applyFades(audio, region);
+  const frameCount = Math.floor(audio.duration * fps);
+  const features = analyzeFrames(audio, fps, frameCount, intensity);
+
+  // 2. Encoders + muxer
+  const { config, muxCodec } = await pickVideoCodec(videoCodecs(width, height), width, height, settings.videoBitrate, fps);
+  const audioConfig: AudioEncoderConfig = {
+    codec: audioCodec.codec,
+    numberOfChannels: audio.numberOfChannels,
+    sampleRate: audio.sampleRate,
+    bitrate: AUDIO_BITRATE,
+  };
+  if (!(await AudioEncoder.isConfigSupported(audioConfig)).supported) {
+    throw new Error(`This browser cannot encode ${audioCodec.muxCodec.toUpperCase()} audio.`);
+  }
+
+  const muxer = createMuxer(
+    { codec: muxCodec, width, height, frameRate: fps },
+    { codec: audioCodec.muxCodec, numberOfChannels: audio.numberOfChannels, sampleRate: audio.sampleRate }
+  );
+
+  let encodeError: Error | null = null;
+  const onError = (e: Error) => { encodeError = e; };
+
+  const videoEncoder = new VideoEncoder({
+    output: (chunk, meta) => muxer.addVideoChunk(chunk, meta),
+    error: onError,
+  });
+  videoEncoder.configure(config);
+
+  const audioEncoder = new AudioEncoder({
+    output: (chunk, meta) => muxer.addAudioChunk(chunk, meta),
+    error: onError,
+  });
+  audioEncoder.configure(audioConfig);
+
+  // 3. Audio track
+  for (let start = 0; start < audio.length; start += AUDIO_CHUNK_FRAMES) {
+    const length = Math.min(AUDIO_CHUNK_FRAMES, audio.length - start);
+    const planar = new Float32Array(length * audio.numberOfChannels);
+    for (let c = 0; c < audio.numberOfChannels; c++) {
+      planar.set(audio.getChannelData(c).subarray(start, start + length), c * length);
+    }
+    const data = new AudioData({
+      format: 'f32-planar',
+      sampleRate: audio.sampleRate,
+      numberOfFrames: length,
+      numberOfChannels: audio.numberOfChannels,
+      timestamp: Math.round((start / audio.sampleRate) * 1e6),
+      data: planar,
+    });
+    audioEncoder.encode(data);
+    data.close();
+  }
+
+  // 4. Video track, fixed timestep
+  const { canvas, ctx } = createCanvas(width, height);
+  const background = await prepareBackground(options.background);
+  const rng = createRng(options.seed ?? EXPORT_SEED);
+  const choreo = createChoreographyState(options.sequence);
+  const modulation = createModulationState();
+  const layerMotion = createLayerMotion();
+  const visualizer = createVisualizerState();
+  const postFx = options.effects.length > 0 ? createPostFxChain() : null;
+  const frameDuration = 1e6 / fps;
+
+  try {
+    for (let i = 0; i < frameCount; i++) {
+      if (encodeError) throw encodeError;
+
+      const { bassLevel, rms, isBeat, spectrum, waveform } = features[i];
+      const time = region.start + i / fps; // Track time, the beat grid and cues use it
+      const bands = measureBands(modulation, spectrum, rms, beatPhaseAt(options.analysis, time));
+      const { values: mod, advance } = evaluateModulation(options.modulation, modulation, bands, 1000 / fps);
+      advanceChoreography(choreo, {
+        time,
+        isBeat,
+        cues: options.cues,
+        analysis: options.analysis,
+        beatDivision: options.beatDivision,
+        advance,
+      });
+      const img = poseImages[currentPose(choreo)] || poseImages['base'];
+      await seekBackground(background, time);
+
+      drawScene(ctx, width, height, {
+        img,
+        bassLevel,
+        time: (i * 1000) / fps,
+        deltaTime: 1000 / fps,
+        spectrum,
+        waveform,
+        visualizer: { settings: options.visualizer, state: visualizer },
+        beat: options.analysis ? beatCrossed(options.analysis, time - 1 / fps, time) : isBeat,
+        blend: resolvePoseBlend(choreo, time, options.transition, options.analysis?.beatPeriod, poseImages),
+        background,
+        layers: advanceLayers(layerMotion, options.layers, bands, 1000 / fps),
+        framing: options.framing,
+        mod,
+      }, choreo, rng);
+      postFx?.apply(ctx, options.effects, bands, time);
+      drawOverlays(ctx, width, height, options.overlays, time, bands, rng);
+
+      const frame = new VideoFrame(canvas, {
+        timestamp: Math.round(i * frameDuration),
+        duration: Math.round(frameDuration),
+      });
+      videoEncoder.encode(frame, { keyFrame: i % (fps * 2) === 0 });
+      frame.close();
+
+      await waitForQueue(videoEncoder);
+      onProgress?.(Math.min(99, (i / frameCount) * 100));
+    }
+
+    await Promise.all([videoEncoder.flush(), audioEncoder.flush()]);
+  } finally {
+    postFx?.dispose();
+    // Also on a failed export, hardware encoder sessions are limited
+    if (videoEncoder.state !== 'closed') videoEncoder.close();
+    if (audioEncoder.state !== 'closed') audioEncoder.close();
+  }
+  if (encodeError) throw encodeError;
+
+  muxer.finalize();
+  onProgress?.(100);
+
+  const mimeType = EXPORT_FORMATS.find(f => f.id === container)!.mimeType;
+  return new Blob([muxer.target.buffer], { type: mimeType });
+};
+
+/**
+ * Renders one silent, seamless cycle of the pose sequence as RGBA frames.
+ * Each pose change gets a synthetic kick so the loop still pulses without audio.
+ */
+const renderPoseLoop = async (
+  options: ExportOptions,
+  onFrame: (rgba: Uint8ClampedArray, index: number, frameCount: number) => void
+) => {
+  const { poseImages, settings, onProgress } = options;
+  const { width, height, fps } = settings;
+  const { ctx } = createCanvas(width, height);
+  const background = await prepareBackground(options.background);
+
+  const rng = createRng(options.seed ?? EXPORT_SEED);
+  const choreo = createChoreographyState(options.sequence);
+  const framesPerPose = Math.max(1, Math.round(fps * LOOP_POSE_SECONDS));
+  const frameCount = framesPerPose * choreo.sequence.length;
+  const swayPeriod = 500 * 2 * Math.PI; // Matches the sway in drawScene
+
+  // Synthetic kick on every pose change. Pose advance is left out, the loop
+  // has a fixed length.
+  const modulation = createModulationState();
+  const modulate = (i: number) => {
+    const poseFrame = i % framesPerPose;
+    const kick = Math.exp(-(poseFrame / fps) * 6);
+    const bands = syntheticBands(kick, 1 - poseFrame / framesPerPose, poseFrame === 0);
+    return { kick, bands, mod: evaluateModulation(options.modulation, modulation, bands, 1000 / fps).values };
+  };
+  // One silent pass first, so smoothed levels at the end match the start
+  for (let i = 0; i < frameCount; i++) modulate(i);
+
+  const postFx = options.effects.length > 0 ? createPostFxChain() : null;
+  try {
+    for (let i = 0; i < frameCount; i++) {
+      const poseFrame = i % framesPerPose;
+      if (poseFrame === 0) {
+        const length = choreo.sequence.length;
+        choreo.sequenceIndex = i / framesPerPose;
+        choreo.pose = choreo.sequence[choreo.sequenceIndex];
+        // The first pose blends in from the last one, so the cycle stays seamless
+        choreo.previousPose = choreo.sequence[(choreo.sequenceIndex + length - 1) % length];
+        choreo.changeTime = i / fps;
+        choreo.beatFlash = 1.0;
+      }
+      const { kick: bassLevel, bands, mod } = modulate(i);
+      await seekBackground(background, i / fps);
+
+      drawScene(ctx, width, height, {
+        img: poseImages[currentPose(choreo)] || poseImages['base'],
+        bassLevel,
+        mod,
+        blend: resolvePoseBlend(choreo, i / fps, options.transition, LOOP_POSE_SECONDS, poseImages),
+        background,
+        layers: holdLayers(options.layers, bands),
+        framing: options.framing,
+        // Map the loop onto one full sway so the last frame flows into the first
+        time: (i / frameCount) * swayPeriod,
+        deltaTime: 1000 / fps,
+        spectrum: null,
+      }, choreo, rng);
+      postFx?.apply(ctx, options.effects, bands, i / fps);
+      // Lines stay as they are at the clip start, the loop has no track time
+      drawOverlays(ctx, width, height, options.overlays, options.region.start, bands, rng);
+
+      onFrame(ctx.getImageData(0, 0, width, height).data, i, frameCount);
+
+      onProgress?.(Math.min(99, (i / frameCount) * 100));
+      await yieldToUi();
+    }
+  } finally {
+    postFx?.dispose();
+  }
+};
+
+const renderGif = async (options: ExportOptions): Promise<Blob> => {
+  const { width, height, fps, colors } = options.settings;
+  const gif = GIFEncoder();
+
+  await renderPoseLoop(options, (rgba) => {
+    const palette = quantize(rgba, colors || 256);
+    const index = applyPalette(rgba, palette);
+    gif.writeFrame(index, width, height, { palette, delay: 1000 / fps, repeat: 0 });
+  });
+
+  gif.finish();
+  options.onProgress?.(100);
+  return new Blob([gif.bytes()], { type: 'image/gif' });
+};
+
+const renderApng = async (options: ExportOptions): Promise<Blob> => {
+  const { width, height, fps, colors } = options.settings;
+  const frames: ArrayBuffer[] = [];
+  const delays: number[] = [];
+
+  await renderPoseLoop(options, (rgba) => {
+    frames.push(rgba.slice().buffer);
+    delays.push(Math.round(1000 / fps));
+  });
+
+  const png = UPNG.encode(frames, width, height, colors, delays);
+  options.onProgress?.(100);
+  return new Blob([png], { type: 'image/apng' });
+};
+
+/**
+ * Exports the loop in the requested format.
+ */
+export const exportLoop = (options: ExportOptions): Promise<Blob> => {
+  switch (options.format) {
+    case 'mp4':
+    case 'webm':
+      return renderVideo(options, options.format);
+    case 'gif':
+      return renderGif(options);
+    case 'apng':
+      return renderApng(options);
+  }
+};
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+
+  // Auto trigger download
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,252 @@
+import { FrameAlignment, GeneratedFrame } from '../types';
+import { loadImage } from './localGenerator';
+
+// Registers generated frames against the base image before playback.
+// 1. Crop/pad to the base canvas (cover fit, centered).
+// 2. Estimate scale and translation with phase correlation on small grayscale
+//    copies, trying a few scales and keeping the sharpest correlation peak.
+// 3. Match per-channel mean and contrast to the base.
+// Afterwards every pose shares the base framing, so pose changes read as
+// motion instead of camera cuts.
+
+const CORRELATION_SIZE = 128; // Power of two for the FFT
+const SCALE_CANDIDATES = [0.85, 0.9, 0.95, 1, 1.05, 1.1, 1.15];
+const MAX_SHIFT = 0.25; // Fraction of the frame, larger peaks are treated as noise
+const MIN_GAIN = 0.6; // Color match limits, keeps stylised frames from being flattened
+const MAX_GAIN = 1.6;
+
+// In-place iterative radix-2 FFT
+const fft = (re: Float64Array, im: Float64Array, inverse: boolean) => {
+  const n = re.length;
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+  for (let len = 2; len <= n; len <<= 1) {
+    const angle = (inverse ? 2 : -2) * Math.PI / len;
+    const wRe = Math.cos(angle);
+    const wIm = Math.sin(angle);
+    for (let i = 0; i < n; i += len) {
+      let curRe = 1;
+      let curIm = 0;
+      for (let k = 0; k < len / 2; k++) {
+        const a = i + k;
+        const b = a + len / 2;
+        const tRe = re[b] * curRe - im[b] * curIm;
+        const tIm = re[b] * curIm + im[b] * curRe;
+        re[b] = re[a] - tRe;
+        im[b] = im[a] - tIm;
+        re[a] += tRe;
+        im[a] += tIm;
+        const nextRe = curRe * wRe - curIm * wIm;
+        curIm = curRe * wIm + curIm * wRe;
+        curRe = nextRe;
+      }
+    }
+  }
+  if (inverse) {
+    for (let i = 0; i < n; i++) {
+      re[i] /= n;
+      im[i] /= n;
+    }
+  }
+};
+
+// Rows then columns
+const fft2d = (re: Float64Array, im: Float64Array, size: number, inverse: boolean) => {
+  const rowRe = new Float64Array(size);
+  const rowIm = new Float64Array(size);
+  for (let pass = 0; pass < 2; pass++) {
+    for (let line = 0; line < size; line++) {
+      for (let k = 0; k < size; k++) {
+        const idx = pass === 0 ? line * size + k : k * size + line;
+        rowRe[k] = re[idx];
+        rowIm[k] = im[idx];
+      }
+      fft(rowRe, rowIm, inverse);
+      for (let k = 0; k < size; k++) {
+        const idx = pass === 0 ? line * size + k : k * size + line;
+        re[idx] = rowRe[k];
+        im[idx] = rowIm[k];
+      }
+    }
+  }
+};
+
+/**
+ * Phase correlation of two equally sized grayscale images. Returns the shift
+ * that moves `moving` onto `reference` (in samples) and the peak height,
+ * which is close to 1 for a clean match.
+ */
+export const phaseCorrelate = (reference: Float64Array, moving: Float64Array, size: number) => {
+  const aRe = Float64Array.from(reference);
+  const aIm = new Float64Array(aRe.length);
+  const bRe = Float64Array.from(moving);
+  const bIm = new Float64Array(bRe.length);
+  fft2d(aRe, aIm, size, false);
+  fft2d(bRe, bIm, size, false);
+
+  // Normalized cross-power spectrum A * conj(B) / |A * conj(B)|
+  for (let i = 0; i < aRe.length; i++) {
+    const re = aRe[i] * bRe[i] + aIm[i] * bIm[i];
+    const im = aIm[i] * bRe[i] - aRe[i] * bIm[i];
+    const mag = Math.hypot(re, im) || 1;
+    aRe[i] = re / mag;
+    aIm[i] = im / mag;
+  }
+  fft2d(aRe, aIm, size, true);
+
+  let peak = -Infinity;
+  let peakIndex = 0;
+  for (let i = 0; i < aRe.length; i++) {
+    if (aRe[i] > peak) {
+      peak = aRe[i];
+      peakIndex = i;
+    }
+  }
+
+  // Indices past the midpoint wrap around to negative shifts
+  let dx = peakIndex % size;
+  let dy = Math.floor(peakIndex / size);
+  if (dx > size / 2) dx -= size;
+  if (dy > size / 2) dy -= size;
+  return { dx, dy, peak };
+};
+
+const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error("Could not create alignment canvas.");
+  return { canvas, ctx };
+};
+
+// Draws the frame cover-fitted to the target box, scaled and shifted around the center
+const drawPlaced = (
+  ctx: CanvasRenderingContext2D,
+  img: CanvasImageSource & { width: number; height: number },
+  width: number,
+  height: number,
+  scale: number,
+  dx: number,
+  dy: number
+) => {
+  const cover = Math.max(width / img.width, height / img.height) * scale;
+  const w = img.width * cover;
+  const h = img.height * cover;
+  ctx.drawImage(img, (width - w) / 2 + dx, (height - h) / 2 + dy, w, h);
+};
+
+// Hann-windowed, mean-free luminance, so image borders do not dominate the correlation
+const toGrayscale = (ctx: CanvasRenderingContext2D, size: number): Float64Array => {
+  const data = ctx.getImageData(0, 0, size, size).data;
+  const gray = new Float64Array(size * size);
+  let mean = 0;
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = data[i * 4] * 0.299 + data[i * 4 + 1] * 0.587 + data[i * 4 + 2] * 0.114;
+    mean += gray[i];
+  }
+  mean /= gray.length;
+  for (let y = 0; y < size; y++) {
+    const wy = 0.5 - 0.5 * Math.cos((2 * Math.PI * y) / (size - 1));
+    for (let x = 0; x < size; x++) {
+      const wx = 0.5 - 0.5 * Math.cos((2 * Math.PI * x) / (size - 1));
+      gray[y * size + x] = (gray[y * size + x] - mean) * wx * wy;
+    }
+  }
+  return gray;
+};
+
+/**
+ * Best scale and shift (in base pixels) that put the frame onto the base.
+ */
+const estimateTransform = (base: HTMLImageElement, frame: HTMLImageElement): FrameAlignment => {
+  const size = CORRELATION_SIZE;
+  // Sample both at the base aspect, squeezed into the square correlation grid
+  const { ctx: baseCtx } = createCanvas(size, size);
+  baseCtx.drawImage(base, 0, 0, size, size);
+  const reference = toGrayscale(baseCtx, size);
+
+  const baseAspect = base.naturalWidth / base.naturalHeight;
+  const { canvas: boxCanvas, ctx: boxCtx } = createCanvas(Math.round(size * Math.max(1, baseAspect)), Math.round(size * Math.max(1, 1 / baseAspect)));
+  const { ctx: sampleCtx } = createCanvas(size, size);
+
+  let best: FrameAlignment & { peak: number } = { scale: 1, dx: 0, dy: 0, peak: -Infinity };
+  for (const scale of SCALE_CANDIDATES) {
+    boxCtx.clearRect(0, 0, boxCanvas.width, boxCanvas.height);
+    drawPlaced(boxCtx, frame, boxCanvas.width, boxCanvas.height, scale, 0, 0);
+    sampleCtx.clearRect(0, 0, size, size);
+    sampleCtx.drawImage(boxCanvas, 0, 0, size, size);
+
+    const { dx, dy, peak } = phaseCorrelate(reference, toGrayscale(sampleCtx, size), size);
+    if (Math.abs(dx) > size * MAX_SHIFT || Math.abs(dy) > size * MAX_SHIFT) continue;
+    if (peak > best.peak) {
+      best = { scale, dx: (dx / size) * base.naturalWidth, dy: (dy / size) * base.naturalHeight, peak };
+    }
+  }
+  return { scale: best.scale, dx: Math.round(best.dx), dy: Math.round(best.dy) };
+};
+
+/**
+ * Matches per-channel mean and standard deviation of the frame to the base.
+ */
+const matchColors = (target: ImageData, reference: ImageData) => {
+  const stats = (data: Uint8ClampedArray) => {
+    const sum = [0, 0, 0];
+    const sq = [0, 0, 0];
+    const n = data.length / 4;
+    for (let i = 0; i < data.length; i += 4) {
+      for (let c = 0; c < 3; c++) {
+        sum[c] += data[i + c];
+        sq[c] += data[i + c] * data[i + c];
+      }
+    }
+    return sum.map((s, c) => {
+      const mean = s / n;
+      return { mean, std: Math.sqrt(Math.max(0, sq[c] / n - mean * mean)) };
+    });
+  };
+
+  const from = stats(target.data);
+  const to = stats(reference.data);
+  const gains = from.map((f, c) => Math.min(MAX_GAIN, Math.max(MIN_GAIN, f.std > 1 ? to[c].std / f.std : 1)));
+
+  const data = target.data;
+  for (let i = 0; i < data.length; i += 4) {
+    for (let c = 0; c < 3; c++) {
+      data[i + c] = (data[i + c] - from[c].mean) * gains[c] + to[c].mean;
+    }
+  }
+};
+
+/**
+ * Returns the frame re-rendered onto the base canvas. Uncovered borders are
+ * filled with the base image, which shares the background. `matchColor` off
+ * keeps the frame's own palette, e.g. one taken from a style reference.
+ */
+export const alignToBase = async (baseUrl: string, frame: GeneratedFrame, matchColor = true): Promise<GeneratedFrame> => {
+  const [base, img] = await Promise.all([loadImage(baseUrl), loadImage(frame.url)]);
+  const width = base.naturalWidth;
+  const height = base.naturalHeight;
+  const alignment = estimateTransform(base, img);
+
+  const { canvas, ctx } = createCanvas(width, height);
+  ctx.drawImage(base, 0, 0, width, height);
+  const reference = ctx.getImageData(0, 0, width, height);
+  drawPlaced(ctx, img, width, height, alignment.scale, alignment.dx, alignment.dy);
+
+  if (matchColor) {
+    const aligned = ctx.getImageData(0, 0, width, height);
+    matchColors(aligned, reference);
+    ctx.putImageData(aligned, 0, 0);
+  }
+
+  // A mask cut from the unaligned image no longer fits
+  return { ...frame, url: canvas.toDataURL('image/png'), alignment, maskUrl: undefined };
+};
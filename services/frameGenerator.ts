@@ -0,0 +1,266 @@
+import { FrameJob, GeneratedFrame, GenerationEvent, PlannedMove, PoseType, QaMode, SegmentationSource } from "../types";
+import { GENERATION_CONCURRENCY, QA_MAX_REJECTIONS } from "../constants";
+import { geminiGenerator } from "./gemini";
+import { localGenerator } from "./localGenerator";
+import { RetryPolicy, errorMessage, isAbortError, runQueue, throwIfAborted, withRetry } from "./jobRunner";
+import { FrameChecker, createFrameChecker } from "./frameQA";
+import { alignToBase } from "./frameAlign";
+import { MaskProvider, segmentFrame } from "./segmentation";
+
+// --- PROVIDER INTERFACE ---
+
+export interface GenerationRequest {
+  baseImage: string; // Data URL of the source image
+  stylePrompt: string;
+  styleReference?: string; // Data URL of an image whose look the frames should match
+  motionPrompt: string;
+  keyframeCount: number; // Including base
+  aspectRatio?: string; // Output aspect, e.g. '9:16'. The base image already has it.
+}
+
+/**
+ * An image-generation backend. Planning turns the motion request into one
+ * description per keyframe, rendering turns one description into a frame.
+ */
+export interface FrameGenerator {
+  id: string;
+  name: string;
+  description: string;
+  isAvailable: () => boolean;
+  planSequence: (request: GenerationRequest, signal?: AbortSignal) => Promise<PlannedMove[]>;
+  // Errors carrying an HTTP status (429/5xx) are retried by the pipeline
+  renderFrame: (request: GenerationRequest, move: PlannedMove, signal?: AbortSignal) => Promise<GeneratedFrame | null>;
+  // Subject mask for layered compositing, generators without one use the on-device model
+  segmentFrame?: MaskProvider;
+}
+
+// --- REGISTRY ---
+
+const registry = new Map<string, FrameGenerator>();
+
+export const registerFrameGenerator = (generator: FrameGenerator) => {
+  registry.set(generator.id, generator);
+};
+
+registerFrameGenerator(geminiGenerator);
+registerFrameGenerator(localGenerator);
+
+export const listFrameGenerators = (): FrameGenerator[] => Array.from(registry.values());
+
+/**
+ * Returns the requested generator, or the local one when it is unknown or unavailable (e.g. no API key).
+ */
+export const resolveFrameGenerator = (id: string): FrameGenerator => {
+  const requested = registry.get(id);
+  if (requested?.isAvailable()) return requested;
+
+  console.warn(`Frame generator "${id}" unavailable, using "${localGenerator.id}".`);
+  return localGenerator;
+};
+
+export interface GenerationOptions {
+  signal?: AbortSignal;
+  onEvent?: (event: GenerationEvent) => void;
+  concurrency?: number;
+  retry?: RetryPolicy;
+  qaMode?: QaMode; // Identity check against the base image, off by default
+  align?: boolean; // Register the frame onto the base image after the check
+  segment?: SegmentationSource; // Attach a subject mask once the frame is final
+}
+
+/**
+ * Phase 1: ask the generator for one description per keyframe.
+ * Nothing is rendered until the user approves the plan.
+ */
+export const planDanceSequence = async (
+  generatorId: string,
+  request: GenerationRequest,
+  options: GenerationOptions = {}
+): Promise<PlannedMove[]> => {
+  options.onEvent?.({ type: 'planning' });
+  const plan = await resolveFrameGenerator(generatorId).planSequence(request, options.signal);
+  throwIfAborted(options.signal);
+  options.onEvent?.({ type: 'planned', total: plan.length });
+  return plan;
+};
+
+/**
+ * Assigns var1..varN in list order after the user edits, reorders, adds or deletes moves.
+ */
+export const renumberPlan = (plan: PlannedMove[]): PlannedMove[] =>
+  plan.map((move, i) => ({ ...move, pose: `var${i + 1}` }));
+
+// One render attempt chain: retries 429/5xx with backoff, treats an empty result as a hard failure
+const renderWithRetry = async (
+  generator: FrameGenerator,
+  request: GenerationRequest,
+  move: PlannedMove,
+  options: GenerationOptions
+): Promise<GeneratedFrame> => {
+  const frame = await withRetry(() => generator.renderFrame(request, move, options.signal), {
+    policy: options.retry,
+    signal: options.signal,
+    onRetry: (attempt, delayMs, error) => options.onEvent?.({
+      type: 'frame-retry', pose: move.pose, attempt, delayMs, error: errorMessage(error)
+    }),
+  });
+  if (!frame) throw new Error(`No image was generated for ${move.pose}.`);
+  return frame;
+};
+
+// Renders, scores the frame against the base image and, in 'regenerate' mode,
+// re-renders drifting frames. The best scoring attempt is kept either way.
+const renderScored = async (
+  generator: FrameGenerator,
+  request: GenerationRequest,
+  move: PlannedMove,
+  options: GenerationOptions,
+  checker: FrameChecker
+): Promise<GeneratedFrame> => {
+  const mode = options.qaMode ?? 'off';
+  let best: GeneratedFrame | null = null;
+
+  for (let rejections = 0; ; rejections++) {
+    const frame = await renderWithRetry(generator, request, move, options);
+    if (mode === 'off') return frame;
+
+    let scored: GeneratedFrame;
+    try {
+      scored = { ...frame, qa: await checker(frame.url) };
+    } catch (error) {
+      console.warn(`Could not score ${move.pose}:`, error);
+      return best || frame;
+    }
+
+    if (!best?.qa || scored.qa!.score > best.qa.score) best = scored;
+    if (scored.qa!.passed || mode === 'flag' || rejections >= QA_MAX_REJECTIONS) return best;
+
+    throwIfAborted(options.signal);
+    options.onEvent?.({ type: 'frame-rejected', pose: move.pose, attempt: rejections + 2, score: scored.qa! });
+  }
+};
+
+// A missing mask only costs the layered look, the frame is kept either way
+const withMask = async (generator: FrameGenerator, frame: GeneratedFrame, options: GenerationOptions): Promise<GeneratedFrame> => {
+  if (!options.segment || options.segment === 'off') return frame;
+  try {
+    return await segmentFrame(frame, options.segment, generator.segmentFrame, options.signal);
+  } catch (error) {
+    if (isAbortError(error) || options.signal?.aborted) throw error;
+    console.warn(`Could not segment ${frame.pose}, drawing it flat:`, error);
+    return frame;
+  }
+};
+
+// Scoring runs on the raw output so framing drift still counts against the
+// frame, the mask is cut from the aligned result
+const renderChecked = async (
+  generator: FrameGenerator,
+  request: GenerationRequest,
+  move: PlannedMove,
+  options: GenerationOptions,
+  checker: FrameChecker
+): Promise<GeneratedFrame> => {
+  let frame = await renderScored(generator, request, move, options, checker);
+  if (options.align) {
+    try {
+      // Color matching would pull the frame back off the reference palette
+      frame = await alignToBase(request.baseImage, frame, !request.styleReference);
+    } catch (error) {
+      console.warn(`Could not align ${move.pose}, keeping the raw frame:`, error);
+    }
+  }
+  return withMask(generator, frame, options);
+};
+
+/**
+ * Phase 2: render the approved plan through a concurrency-limited queue.
+ * Failed frames are reported as events and left out. When cancelled, the
+ * frames finished so far are returned and the rest reported as cancelled.
+ * `generatorId` of the result is the generator that rendered, after the
+ * local fallback.
+ */
+export const generateDanceFrames = async (
+  generatorId: string,
+  request: GenerationRequest,
+  plannedMoves: PlannedMove[],
+  options: GenerationOptions = {}
+): Promise<{ frames: GeneratedFrame[]; generatorId: string }> => {
+  const generator = resolveFrameGenerator(generatorId);
+  const checker = createFrameChecker(request.baseImage, !!request.styleReference);
+  const { signal, onEvent } = options;
+
+  // Always start with the base image as the anchor
+  const frames: GeneratedFrame[] = [{
+    url: request.baseImage,
+    pose: 'base',
+    promptUsed: 'Original Image'
+  }];
+
+  const settled = new Set<PoseType>();
+  let completed = 0;
+
+  await runQueue(plannedMoves, options.concurrency ?? GENERATION_CONCURRENCY, async (move) => {
+    onEvent?.({ type: 'frame-started', pose: move.pose, attempt: 1 });
+    try {
+      frames.push(await renderChecked(generator, request, move, options, checker));
+      completed++;
+      onEvent?.({ type: 'frame-rendered', pose: move.pose, completed, total: plannedMoves.length });
+    } catch (error) {
+      if (isAbortError(error) || signal?.aborted) return;
+      console.error(`Error generating ${move.pose} frame:`, error);
+      onEvent?.({ type: 'frame-failed', pose: move.pose, error: errorMessage(error) });
+    } finally {
+      if (!signal?.aborted) settled.add(move.pose);
+    }
+  }, signal);
+
+  plannedMoves.forEach(move => {
+    if (!settled.has(move.pose) && !frames.some(f => f.pose === move.pose)) {
+      onEvent?.({ type: 'frame-cancelled', pose: move.pose });
+    }
+  });
+
+  // The base mask cuts the clean background plate. Skipped on cancel, a
+  // cancel while it runs keeps the flat base.
+  if (!signal?.aborted) frames[0] = await withMask(generator, frames[0], options).catch(() => frames[0]);
+
+  return { frames, generatorId: generator.id };
+};
+
+/**
+ * Re-renders a single pose, optionally with an edited prompt. Throws when the
+ * generator returns nothing so the caller can keep the current frame. Returns
+ * the generator that rendered along with the frame, like generateDanceFrames.
+ */
+export const regenerateFrame = async (
+  generatorId: string,
+  request: GenerationRequest,
+  move: PlannedMove,
+  options: GenerationOptions = {}
+): Promise<{ frame: GeneratedFrame; generatorId: string }> => {
+  const generator = resolveFrameGenerator(generatorId);
+  const checker = createFrameChecker(request.baseImage, !!request.styleReference);
+  return { frame: await renderChecked(generator, request, move, options, checker), generatorId: generator.id };
+};
+
+/**
+ * Folds a pipeline event into the per-frame status list shown in the UI.
+ */
+export const applyGenerationEvent = (jobs: FrameJob[], event: GenerationEvent): FrameJob[] => {
+  if (!('pose' in event)) return jobs;
+  return jobs.map(job => {
+    if (job.pose !== event.pose) return job;
+    switch (event.type) {
+      case 'frame-started': return { ...job, status: 'rendering', attempt: event.attempt, error: undefined };
+      case 'frame-retry': return { ...job, status: 'retrying', attempt: event.attempt, error: event.error };
+      case 'frame-rejected': return {
+        ...job, status: 'retrying', attempt: event.attempt,
+        error: `Identity drift (${Math.round(event.score.score * 100)}%), re-rendering`
+      };
+      case 'frame-rendered': return { ...job, status: 'done', error: undefined };
+      case 'frame-failed': return { ...job, status: 'failed', error: event.error };
+      case 'frame-cancelled': return { ...job, status: 'cancelled' };
+    }
+  });
+};
@@ -0,0 +1,126 @@
+import { FrameScore } from '../types';
+import { loadImage } from './localGenerator';
+
+// Local identity check for generated frames. A keyframe should show the same
+// character as the base image in a slightly different pose, so a large drop in
+// structure (perceptual hash) or palette (color histogram), or a different
+// framing (aspect ratio), means the model swapped the subject and the loop
+// would flicker between two characters.
+
+const HASH_WIDTH = 9; // dHash compares horizontal neighbours, 9x8 -> 64 bits
+const HASH_HEIGHT = 8;
+const HISTOGRAM_SIZE = 64; // Pixels sampled per side for the histogram
+const HISTOGRAM_BINS = 4; // Per channel, 4^3 = 64 color buckets
+
+const HASH_WEIGHT = 0.5;
+const MIN_SCORE = 0.6; // Below this the frame counts as a different character
+const MAX_ASPECT_DRIFT = 0.05; // 5%, wider changes reframe the subject
+
+interface ImageFeatures {
+  width: number;
+  height: number;
+  hash: Uint8Array; // One 0/1 entry per bit
+  histogram: Float32Array; // Normalized to sum 1
+}
+
+const sample = (img: HTMLImageElement, width: number, height: number): Uint8ClampedArray => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error("Could not create QA canvas.");
+  ctx.drawImage(img, 0, 0, width, height);
+  return ctx.getImageData(0, 0, width, height).data;
+};
+
+// Difference hash: brightness gradient between neighbouring cells of a tiny grayscale copy
+const differenceHash = (img: HTMLImageElement): Uint8Array => {
+  const data = sample(img, HASH_WIDTH, HASH_HEIGHT);
+  const luma = (x: number, y: number) => {
+    const i = (y * HASH_WIDTH + x) * 4;
+    return data[i] * 0.299 + data[i + 1] * 0.587 + data[i + 2] * 0.114;
+  };
+  const bits = new Uint8Array((HASH_WIDTH - 1) * HASH_HEIGHT);
+  for (let y = 0; y < HASH_HEIGHT; y++) {
+    for (let x = 0; x < HASH_WIDTH - 1; x++) {
+      bits[y * (HASH_WIDTH - 1) + x] = luma(x, y) < luma(x + 1, y) ? 1 : 0;
+    }
+  }
+  return bits;
+};
+
+const colorHistogram = (img: HTMLImageElement): Float32Array => {
+  const data = sample(img, HISTOGRAM_SIZE, HISTOGRAM_SIZE);
+  const histogram = new Float32Array(HISTOGRAM_BINS ** 3);
+  const shift = 8 - Math.log2(HISTOGRAM_BINS);
+  let total = 0;
+  for (let i = 0; i < data.length; i += 4) {
+    if (data[i + 3] < 128) continue; // Ignore transparent pixels
+    const bin = ((data[i] >> shift) * HISTOGRAM_BINS + (data[i + 1] >> shift)) * HISTOGRAM_BINS + (data[i + 2] >> shift);
+    histogram[bin]++;
+    total++;
+  }
+  if (total > 0) histogram.forEach((v, i) => { histogram[i] = v / total; });
+  return histogram;
+};
+
+const extractFeatures = async (url: string): Promise<ImageFeatures> => {
+  const img = await loadImage(url);
+  return {
+    width: img.naturalWidth,
+    height: img.naturalHeight,
+    hash: differenceHash(img),
+    histogram: colorHistogram(img),
+  };
+};
+
+/**
+ * Scores a frame against the base image features. `shapeOnly` leaves the
+ * palette out of the score, for frames restyled on purpose.
+ */
+const compare = (base: ImageFeatures, frame: ImageFeatures, shapeOnly: boolean): FrameScore => {
+  let distance = 0;
+  base.hash.forEach((bit, i) => { if (bit !== frame.hash[i]) distance++; });
+  const hash = 1 - distance / base.hash.length;
+
+  let histogram = 0;
+  base.histogram.forEach((v, i) => { histogram += Math.min(v, frame.histogram[i]); });
+
+  const baseAspect = base.width / base.height;
+  const aspectDrift = Math.abs(frame.width / frame.height - baseAspect) / baseAspect;
+
+  const score = shapeOnly ? hash : HASH_WEIGHT * hash + (1 - HASH_WEIGHT) * histogram;
+  return {
+    hash,
+    histogram,
+    sameSize: base.width === frame.width && base.height === frame.height,
+    aspectDrift,
+    score,
+    passed: score >= MIN_SCORE && aspectDrift <= MAX_ASPECT_DRIFT,
+  };
+};
+
+export type FrameChecker = (frameUrl: string) => Promise<FrameScore>;
+
+/**
+ * Returns a checker bound to one base image, whose features are extracted once.
+ * Pass `shapeOnly` when a style reference changes the palette on purpose.
+ */
+export const createFrameChecker = (baseUrl: string, shapeOnly = false): FrameChecker => {
+  let base: Promise<ImageFeatures> | null = null;
+  return async (frameUrl: string) => {
+    if (!base) base = extractFeatures(baseUrl);
+    return compare(await base, await extractFeatures(frameUrl), shapeOnly);
+  };
+};
+
+/**
+ * Short human readable breakdown, used for tooltips.
+ */
+export const describeScore = (qa: FrameScore): string => [
+  `Identity ${Math.round(qa.score * 100)}%`,
+  `shape ${Math.round(qa.hash * 100)}%`,
+  `colors ${Math.round(qa.histogram * 100)}%`,
+  qa.aspectDrift > MAX_ASPECT_DRIFT ? `aspect off by ${Math.round(qa.aspectDrift * 100)}%` : null,
+  qa.sameSize ? null : 'different size',
+].filter(Boolean).join(' · ');
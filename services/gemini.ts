@@ -1,5 +1,7 @@
 import { GoogleGenAI, Type } from "@google/genai";
-import { GeneratedFrame, PoseType } from "../types";
+import { GeneratedFrame, PlannedMove, PoseType } from "../types";
+import { FrameGenerator, GenerationRequest } from "./frameGenerator";
+import { keyframePoses } from "./renderer";
 
 const API_KEY = process.env.API_KEY || '';
 
@@ -16,16 +18,27 @@ const stripBase64Prefix = (base64: string) => {
   return base64.replace(/^data:image\/(png|jpeg|jpg|webp);base64,/, '');
 };
 
-// --- MOCK DATA (Fallback) ---
-const MOCK_FRAMES: GeneratedFrame[] = [
-    { url: '', pose: 'base' },
-    { url: '', pose: 'var1' },
-    { url: '', pose: 'var2' },
-    { url: '', pose: 'var3' },
-];
+// Data URL -> inline image part, keeping the uploaded format
+const toImagePart = (dataUrl: string) => ({
+  inlineData: {
+    mimeType: dataUrl.match(/^data:(image\/[\w.+-]+);/)?.[1] || 'image/jpeg',
+    data: stripBase64Prefix(dataUrl),
+  },
+});
 
 // --- AI DIRECTOR LOGIC ---
 
+// Generic prompts used when planning fails, cycled for longer keyframe sets
+const FALLBACK_MOVES = [
+    `Slightly rotate the subject to the left. Maintain consistent character details and background.`,
+    `Slight zoom in on the subject with increased intensity. Maintain consistent character details.`,
+    `Slightly rotate the subject to the right. Maintain consistent character details.`,
+    `Subject leans back with a slight squash. Maintain consistent character details and background.`,
+];
+
+const fallbackPlan = (poses: PoseType[]): PlannedMove[] =>
+    poses.map((pose, i) => ({ pose, prompt: FALLBACK_MOVES[i % FALLBACK_MOVES.length] }));
+
 /**
  * Step 1: Analyze the base image and user intent to create specific frame prompts.
  */
@@ -33,17 +46,21 @@ const planAnimationSequence = async (
     ai: GoogleGenAI, 
     baseImageBase64: string, 
     motionPrompt: string,
-    stylePrompt: string
-): Promise<{ pose: PoseType, prompt: string }[]> => {
+    stylePrompt: string,
+    poses: PoseType[],
+    signal?: AbortSignal
+): Promise<PlannedMove[]> => {
+    const count = poses.length;
+    const loop = ['Base', ...poses.map(p => p.replace('var', 'Var'))].join(' -> ');
     
     const systemInstruction = `
     You are an expert Animation Director. 
-    Your task is to plan 3 keyframes (var1, var2, var3) to animate a still image based on a user's motion description.
-    The frames will be played in a loop (Base -> Var1 -> Var2 -> Var3 -> Var2 -> Var1 -> Base).
+    Your task is to plan ${count} keyframes (${poses.join(', ')}) to animate a still image based on a user's motion description.
+    The frames will be played in order in a loop (${loop} -> Base), possibly reversed back and forth.
     
     Rules:
     1. Analyze the provided image.
-    2. Generate a visual description for 3 variations that execute the user's motion.
+    2. Generate a visual description for ${count} variations that execute the user's motion as a continuous dance, each a small step from the previous one.
     3. The descriptions must be STRICTLY visual changes to the SUBJECT (e.g. "Subject head tilted left", "Subject zooming in", "Subject eyes glowing").
     4. Maintain consistency: Ensure the descriptions explicitly state to keep the same character, lighting, and background.
     5. DO NOT describe the art style (e.g. "cyberpunk"), only the physical changes for animation.
@@ -53,11 +70,11 @@ const planAnimationSequence = async (
     Motion Request: "${motionPrompt}"
     Style Context: "${stylePrompt}"
     
-    Output JSON format:
+    Output JSON format (exactly ${count} entries, poses ${poses[0]} to ${poses[count - 1]}):
     [
         { "pose": "var1", "prompt": "Detailed description of first movement frame..." },
-        { "pose": "var2", "prompt": "Detailed description of peak movement frame..." },
-        { "pose": "var3", "prompt": "Detailed description of return or alternative movement frame..." }
+        { "pose": "var2", "prompt": "Detailed description of the next movement frame..." },
+        ...
     ]
     `;
 
@@ -71,6 +88,7 @@ const planAnimationSequence = async (
                 ]
             },
             config: {
+                abortSignal: signal,
                 systemInstruction: systemInstruction,
                 responseMimeType: 'application/json',
                 responseSchema: {
@@ -78,7 +96,7 @@ const planAnimationSequence = async (
                     items: {
                         type: Type.OBJECT,
                         properties: {
-                            pose: { type: Type.STRING, enum: ['var1', 'var2', 'var3'] },
+                            pose: { type: Type.STRING, enum: poses },
                             prompt: { type: Type.STRING }
                         },
                         required: ['pose', 'prompt']
@@ -89,96 +107,137 @@ const planAnimationSequence = async (
 
         const text = response.text;
         if (!text) throw new Error("No plan generated");
-        return JSON.parse(text);
+        const planned: PlannedMove[] = JSON.parse(text);
+
+        // Keep one entry per requested pose, fill any the model skipped
+        const fallback = fallbackPlan(poses);
+        return poses.map((pose, i) => planned.find(m => m.pose === pose && m.prompt) || fallback[i]);
     } catch (e) {
+        if (signal?.aborted) throw e;
         console.warn("Failed to plan animation, using fallback prompts", e);
         // Fallback generic prompts if planning fails
-        return [
-            { pose: 'var1', prompt: `Slightly rotate the subject to the left. Maintain consistent character details and background.` },
-            { pose: 'var2', prompt: `Slight zoom in on the subject with increased intensity. Maintain consistent character details.` },
-            { pose: 'var3', prompt: `Slightly rotate the subject to the right. Maintain consistent character details.` },
-        ];
+        return fallbackPlan(poses);
     }
 };
 
 /**
- * Main Generation Function
+ * Step 2: Render one planned keyframe with the image model. With a style
+ * reference, each image is introduced by a text part naming its role, so the
+ * model takes the subject from the first and only the look from the second.
  */
-export const generateDanceFrames = async (
-  originalImageBase64: string, 
-  stylePrompt: string,
-  motionPrompt: string
-): Promise<GeneratedFrame[]> => {
-  
-  // Always start with the base image as the anchor
-  const frames: GeneratedFrame[] = [{
-    url: originalImageBase64,
-    pose: 'base',
-    promptUsed: 'Original Image'
-  }];
-
-  if (!API_KEY) {
-    console.warn("No API Key found. Returning mock data.");
-    // Just duplicate the base image for dev
-    ['var1', 'var2', 'var3'].forEach(p => frames.push({ url: originalImageBase64, pose: p as PoseType }));
-    return frames;
-  }
-
-  const ai = new GoogleGenAI({ apiKey: API_KEY });
-  const cleanBase64 = stripBase64Prefix(originalImageBase64);
-
-  // 1. Plan the sequence
-  const plannedMoves = await planAnimationSequence(ai, cleanBase64, motionPrompt, stylePrompt);
-
-  // 2. Generate frames in parallel
-  const promises = plannedMoves.map(async (move) => {
-    try {
-      // We combine style + the director's specific instruction
-      const fullPrompt = `
-        Apply this art style: ${stylePrompt}.
-        Transform the input image: ${move.prompt}.
-        CRITICAL: Keep the exact same character, face, clothes, and background. This is an animation frame. Do not change the identity.
-      `;
-
-      const response = await ai.models.generateContent({
-        model: 'gemini-2.5-flash-image',
-        contents: {
-          parts: [
-            {
-              inlineData: {
-                mimeType: 'image/jpeg',
-                data: cleanBase64
-              }
-            },
-            { text: fullPrompt }
-          ]
-        },
-      });
-
-      const parts = response.candidates?.[0]?.content?.parts;
-      if (parts) {
-        for (const part of parts) {
-            if (part.inlineData) {
-                return {
-                  url: `data:image/png;base64,${part.inlineData.data}`,
-                  pose: move.pose,
-                  promptUsed: move.prompt
-                } as GeneratedFrame;
-            }
-        }
+const renderPlannedFrame = async (
+    ai: GoogleGenAI,
+    baseImage: string,
+    styleReference: string | undefined,
+    stylePrompt: string,
+    aspectRatio: string | undefined,
+    move: PlannedMove,
+    signal?: AbortSignal
+): Promise<GeneratedFrame | null> => {
+    // We combine style + the director's specific instruction
+    const fullPrompt = `
+      Apply this art style: ${stylePrompt}.
+      ${styleReference ? 'Match the color palette, textures and rendering of the STYLE REFERENCE image. Do not copy its subject, layout or background.' : ''}
+      Transform the ${styleReference ? 'BASE IMAGE' : 'input image'}: ${move.prompt}.
+      CRITICAL: Keep the exact same character, face, clothes, and background. This is an animation frame. Do not change the identity.
+    `;
+
+    const parts = styleReference
+      ? [
+          { text: 'BASE IMAGE (the character and scene to animate):' },
+          toImagePart(baseImage),
+          { text: 'STYLE REFERENCE (only the look to match):' },
+          toImagePart(styleReference),
+          { text: fullPrompt },
+        ]
+      : [
+          { inlineData: { mimeType: 'image/jpeg', data: stripBase64Prefix(baseImage) } },
+          { text: fullPrompt },
+        ];
+
+    const response = await ai.models.generateContent({
+      model: 'gemini-2.5-flash-image',
+      contents: { parts },
+      config: { abortSignal: signal, ...(aspectRatio && { imageConfig: { aspectRatio } }) },
+    });
+
+    const output = response.candidates?.[0]?.content?.parts;
+    if (output) {
+      for (const part of output) {
+          if (part.inlineData) {
+              return {
+                url: `data:image/png;base64,${part.inlineData.data}`,
+                pose: move.pose,
+                promptUsed: move.prompt
+              };
+          }
       }
-      return null;
-    } catch (error) {
-      console.error(`Error generating ${move.pose} frame:`, error);
-      return null;
     }
-  });
+    return null;
+};
 
-  const results = await Promise.all(promises);
-  
-  results.forEach(res => {
-    if (res) frames.push(res);
-  });
-  
-  return frames;
-};
\ No newline at end of file
+/**
+ * Asks the image model for a black and white subject mask of a frame.
+ */
+const renderSubjectMask = async (
+    ai: GoogleGenAI,
+    imageBase64: string,
+    signal?: AbortSignal
+): Promise<string | null> => {
+    const prompt = `
+      Create a segmentation mask of this image.
+      Paint the main subject (character, person or object in focus) pure white and everything else pure black.
+      Keep the exact framing and size of the input. No shading, no text, no other colors.
+    `;
+
+    const response = await ai.models.generateContent({
+      model: 'gemini-2.5-flash-image',
+      contents: {
+        parts: [
+          { inlineData: { mimeType: 'image/png', data: imageBase64 } },
+          { text: prompt }
+        ]
+      },
+      config: { abortSignal: signal },
+    });
+
+    const part = response.candidates?.[0]?.content?.parts?.find(p => p.inlineData);
+    return part?.inlineData ? `data:image/png;base64,${part.inlineData.data}` : null;
+};
+
+// --- PROVIDER ---
+
+let client: GoogleGenAI | null = null;
+const getClient = () => {
+  if (!client) client = new GoogleGenAI({ apiKey: API_KEY });
+  return client;
+};
+
+export const geminiGenerator: FrameGenerator = {
+  id: 'gemini',
+  name: 'Gemini Flash Image',
+  description: 'AI Director planning and frame generation via the Gemini API.',
+  isAvailable: () => !!API_KEY,
+  planSequence: (request: GenerationRequest, signal?: AbortSignal) => planAnimationSequence(
+    getClient(),
+    stripBase64Prefix(request.baseImage),
+    request.motionPrompt,
+    request.stylePrompt,
+    keyframePoses(request.keyframeCount).slice(1),
+    signal
+  ),
+  renderFrame: (request: GenerationRequest, move: PlannedMove, signal?: AbortSignal) => renderPlannedFrame(
+    getClient(),
+    request.baseImage,
+    request.styleReference,
+    request.stylePrompt,
+    request.aspectRatio,
+    move,
+    signal
+  ),
+  segmentFrame: (imageUrl: string, signal?: AbortSignal) => renderSubjectMask(
+    getClient(),
+    stripBase64Prefix(imageUrl),
+    signal
+  ),
+};
@@ -0,0 +1,116 @@
+// Small async job helpers for the generation pipeline: abortable sleeps,
+// retry with exponential backoff on rate limits / server errors, and a
+// concurrency-limited queue.
+
+export interface RetryPolicy {
+  retries: number; // Extra attempts after the first
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  retries: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 16000,
+};
+
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof DOMException && error.name === 'AbortError';
+
+const abortError = () => new DOMException('Generation cancelled.', 'AbortError');
+
+export const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw abortError();
+};
+
+/**
+ * HTTP status carried by an API error, if any. The Gemini SDK sets `status`,
+ * fetch-style errors sometimes only mention the code in the message.
+ */
+const errorStatus = (error: unknown): number | null => {
+  const status = (error as { status?: unknown })?.status;
+  if (typeof status === 'number') return status;
+  const match = error instanceof Error ? error.message.match(/\b(429|5\d\d)\b/) : null;
+  return match ? parseInt(match[1]) : null;
+};
+
+/**
+ * Rate limits (429) and server errors (5xx) are worth retrying, anything else
+ * (bad request, safety block, missing key) fails the same way again.
+ */
+export const isRetryableError = (error: unknown): boolean => {
+  if (isAbortError(error)) return false;
+  const status = errorStatus(error);
+  if (status !== null) return status === 429 || status >= 500;
+  return error instanceof Error && /RESOURCE_EXHAUSTED|UNAVAILABLE|Failed to fetch|NetworkError/i.test(error.message);
+};
+
+export const errorMessage = (error: unknown): string =>
+  error instanceof Error ? error.message : String(error);
+
+/**
+ * Exponential backoff with full jitter, so parallel jobs do not retry in lockstep.
+ */
+export const backoffDelay = (attempt: number, policy: RetryPolicy = DEFAULT_RETRY_POLICY): number => {
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+  return Math.round(ceiling / 2 + Math.random() * ceiling / 2);
+};
+
+export const sleep = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(abortError());
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError());
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+export interface RetryOptions {
+  policy?: RetryPolicy;
+  signal?: AbortSignal;
+  onRetry?: (attempt: number, delayMs: number, error: unknown) => void; // attempt = the one about to start
+}
+
+/**
+ * Runs the task until it succeeds, fails with a non-retryable error or runs out of retries.
+ */
+export const withRetry = async <T>(task: (attempt: number) => Promise<T>, options: RetryOptions = {}): Promise<T> => {
+  const policy = options.policy || DEFAULT_RETRY_POLICY;
+  for (let attempt = 1; ; attempt++) {
+    throwIfAborted(options.signal);
+    try {
+      return await task(attempt);
+    } catch (error) {
+      if (options.signal?.aborted) throw abortError();
+      if (attempt > policy.retries || !isRetryableError(error)) throw error;
+      const delayMs = backoffDelay(attempt, policy);
+      options.onRetry?.(attempt + 1, delayMs, error);
+      await sleep(delayMs, options.signal);
+    }
+  }
+};
+
+/**
+ * Runs the worker over every item with at most `concurrency` in flight.
+ * Stops picking up new items once the signal aborts.
+ */
+export const runQueue = async <T>(
+  items: T[],
+  concurrency: number,
+  worker: (item: T, index: number) => Promise<void>,
+  signal?: AbortSignal
+): Promise<void> => {
+  let next = 0;
+  const lane = async () => {
+    while (next < items.length && !signal?.aborted) {
+      const index = next++;
+      await worker(items[index], index);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(concurrency, items.length)) }, lane));
+};
@@ -0,0 +1,142 @@
+import { AppState } from '../types';
+
+// Live audio input for performances: a microphone or line-in feeds the
+// analyser instead of an uploaded track. There is no beat grid, so beats come
+// from live detection. Detection only fires once the sound has reached the
+// analyser, so a tempo tracker predicts the next beat and fires it early by
+// the configured latency.
+
+const MIN_INTERVAL_MS = 250; // 240 BPM
+const MAX_INTERVAL_MS = 1500; // 40 BPM
+const INTERVAL_HISTORY = 8;
+const LOCK_TOLERANCE = 0.2; // Detections within 20% of a period re-anchor the grid
+const LOST_AFTER_PERIODS = 4; // Silence after which prediction stops
+
+// Live projects need no track to configure, generate and preview
+export const hasAudioSource = (state: Pick<AppState, 'audioFile'> & Partial<Pick<AppState, 'audioSource'>>) =>
+  state.audioSource === 'live' || !!state.audioFile;
+
+/**
+ * Audio inputs. Labels are empty until the user granted microphone access once.
+ */
+export const listInputDevices = async (): Promise<MediaDeviceInfo[]> => {
+  if (!navigator.mediaDevices?.enumerateDevices) return [];
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices.filter(d => d.kind === 'audioinput');
+};
+
+/**
+ * Opens an input with the browser's voice processing turned off, which would
+ * otherwise pump the level and cut bass on music.
+ */
+export const openLiveInput = async (deviceId: string): Promise<MediaStream> => {
+  if (!navigator.mediaDevices?.getUserMedia) {
+    throw new Error("This browser does not support live audio input.");
+  }
+  try {
+    return await navigator.mediaDevices.getUserMedia({
+      audio: {
+        deviceId: deviceId ? { exact: deviceId } : undefined,
+        echoCancellation: false,
+        noiseSuppression: false,
+        autoGainControl: false,
+      },
+    });
+  } catch (e) {
+    if (e instanceof DOMException && e.name === 'NotAllowedError') {
+      throw new Error("Microphone access was denied. Allow it in the browser to use live input.");
+    }
+    if (e instanceof DOMException && (e.name === 'NotFoundError' || e.name === 'OverconstrainedError')) {
+      throw new Error("The selected audio input is not available.");
+    }
+    throw e;
+  }
+};
+
+export const stopLiveInput = (stream: MediaStream | null) => {
+  stream?.getTracks().forEach(track => track.stop());
+};
+
+/**
+ * Latency the browser reports for the input path, in ms. A starting point for
+ * the manual setting, speakers and room are not included.
+ */
+export const reportedLatency = (ctx: AudioContext, stream: MediaStream): number => {
+  const settings = stream.getAudioTracks()[0]?.getSettings() as MediaTrackSettings & { latency?: number };
+  return Math.round(((settings?.latency ?? 0) + (ctx.baseLatency ?? 0)) * 1000);
+};
+
+export interface LiveBeatTracker {
+  lastBeat: number; // ms, compensated
+  period: number; // ms, 0 until a tempo is found
+  intervals: number[];
+  nextBeat: number; // ms, predicted
+}
+
+export const createLiveBeatTracker = (): LiveBeatTracker => ({ lastBeat: 0, period: 0, intervals: [], nextBeat: 0 });
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+};
+
+const addInterval = (tracker: LiveBeatTracker, interval: number) => {
+  tracker.intervals = [...tracker.intervals.slice(1 - INTERVAL_HISTORY), interval];
+  if (tracker.intervals.length >= 3) tracker.period = median(tracker.intervals);
+};
+
+// First predicted beat after `now` on the grid through `onset`
+const nextOnGrid = (tracker: LiveBeatTracker, onset: number, now: number) =>
+  tracker.period > 0 ? onset + tracker.period * Math.max(1, Math.ceil((now - onset) / tracker.period)) : Infinity;
+
+/**
+ * Feeds one frame of live detection (`detected`, at `now` ms) and returns
+ * whether a beat should show on this frame. The detected onset actually
+ * happened `latency` ms earlier; with a stable tempo the following beats are
+ * fired at their predicted time instead of after the delay.
+ */
+export const trackLiveBeat = (tracker: LiveBeatTracker, detected: boolean, now: number, latency: number): boolean => {
+  const { period } = tracker;
+  const locked = period > 0 && now - tracker.lastBeat < period * LOST_AFTER_PERIODS;
+
+  if (detected) {
+    const onset = now - latency;
+    const since = onset - tracker.lastBeat;
+
+    if (locked) {
+      // Beats the prediction fired in between count as separate intervals
+      const beats = Math.max(1, Math.round(since / period));
+      if (Math.abs(since - beats * period) > period * LOCK_TOLERANCE) return false; // Off the grid, e.g. a fill
+      addInterval(tracker, since / beats);
+      tracker.lastBeat = onset;
+      tracker.nextBeat = nextOnGrid(tracker, onset, now);
+      return false; // Already shown by the prediction
+    }
+
+    if (since >= MIN_INTERVAL_MS && since <= MAX_INTERVAL_MS) {
+      addInterval(tracker, since);
+    } else if (since > MAX_INTERVAL_MS) {
+      // Tempo lost, start over
+      tracker.intervals = [];
+      tracker.period = 0;
+    }
+    tracker.lastBeat = onset;
+    tracker.nextBeat = nextOnGrid(tracker, onset, now);
+    return true;
+  }
+
+  if (locked && now >= tracker.nextBeat) {
+    tracker.nextBeat += period;
+    return true;
+  }
+  return false;
+};
+
+/**
+ * Same shape as beatPhaseAt: 1 on the beat, falling to 0 before the next.
+ */
+export const liveBeatPhase = (tracker: LiveBeatTracker, now: number): number => {
+  if (tracker.period <= 0) return 0;
+  const phase = ((((now - tracker.lastBeat) / tracker.period) % 1) + 1) % 1;
+  return 1 - phase;
+};
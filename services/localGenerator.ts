@@ -0,0 +1,109 @@
+import { GeneratedFrame, PlannedMove } from "../types";
+import { FrameGenerator, GenerationRequest } from "./frameGenerator";
+import { createRng, keyframePoses } from "./renderer";
+import { transferPalette } from "./paletteTransfer";
+
+// Deterministic offline provider.
+// Produces real variation by applying procedural canvas transforms to the base
+// image, so the whole pipeline can be developed and tested without an API key.
+
+interface FrameTransform {
+  tilt: number; // degrees, positive = clockwise
+  zoom: number; // 1 = unchanged
+  squash: number; // vertical squash, 0 = none, 0.1 = 10% shorter and wider
+  hue: number; // degrees
+}
+
+export const loadImage = (url: string): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.crossOrigin = "anonymous";
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Failed to load image."));
+    img.src = url;
+  });
+};
+
+// FNV-1a, used to seed transforms from the move description
+const hashString = (text: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+/**
+ * Derives a transform from the move. The description seeds the amounts and a
+ * few keywords steer the direction, so edited prompts change the output.
+ */
+const transformForMove = (move: PlannedMove): FrameTransform => {
+  const rng = createRng(hashString(`${move.pose}:${move.prompt}`));
+  const text = move.prompt.toLowerCase();
+
+  // Whichever direction is mentioned first wins
+  const left = text.indexOf('left');
+  const right = text.indexOf('right');
+  let tilt = 3 + rng() * 6;
+  if (left >= 0 && (right < 0 || left < right)) tilt = -tilt;
+  else if (right < 0 && rng() < 0.5) tilt = -tilt;
+
+  const zoom = /zoom|closer|push/.test(text) ? 1.08 + rng() * 0.08 : 1 + rng() * 0.04;
+  const squash = /squash|bounce|stomp|jump/.test(text) ? 0.06 + rng() * 0.06 : rng() * 0.03;
+  const hue = /glow|color|colour|flash|hue/.test(text) ? 20 + rng() * 40 : (rng() - 0.5) * 16;
+
+  return { tilt, zoom, squash, hue };
+};
+
+const renderTransformed = (img: HTMLImageElement, t: FrameTransform): string => {
+  const canvas = document.createElement('canvas');
+  canvas.width = img.naturalWidth;
+  canvas.height = img.naturalHeight;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Could not create canvas.");
+
+  const { width, height } = canvas;
+  const angle = (t.tilt * Math.PI) / 180;
+
+  // Scale enough that the rotated image still covers the whole frame
+  const cover = Math.abs(Math.cos(angle)) + Math.abs(Math.sin(angle)) * Math.max(width / height, height / width);
+  const scale = Math.max(t.zoom, cover);
+
+  ctx.translate(width / 2, height / 2);
+  ctx.rotate(angle);
+  ctx.scale(scale * (1 + t.squash), scale * (1 - t.squash));
+  ctx.filter = `hue-rotate(${t.hue}deg)`;
+  ctx.drawImage(img, -width / 2, -height / 2, width, height);
+
+  return canvas.toDataURL('image/png');
+};
+
+// Cycled for longer keyframe sets
+const MOVE_TEMPLATES = [
+  'Tilt the subject to the left',
+  'Zoom in and squash down on the beat',
+  'Tilt the subject to the right',
+  'Bounce up with a colour flash',
+];
+
+export const localGenerator: FrameGenerator = {
+  id: 'local',
+  name: 'Local (Procedural)',
+  description: 'Offline tilt, zoom, squash and hue shifts of the base image, recolored from a style reference.',
+  isAvailable: () => true,
+  planSequence: async (request: GenerationRequest) =>
+    keyframePoses(request.keyframeCount).slice(1).map((pose, i) => ({
+      pose,
+      prompt: `${MOVE_TEMPLATES[i % MOVE_TEMPLATES.length]}. Motion: ${request.motionPrompt}`
+    })),
+  renderFrame: async (request: GenerationRequest, move: PlannedMove): Promise<GeneratedFrame> => {
+    const img = await loadImage(request.baseImage);
+    const url = renderTransformed(img, transformForMove(move));
+    return {
+      url: request.styleReference ? await transferPalette(url, request.styleReference) : url,
+      pose: move.pose,
+      promptUsed: move.prompt
+    };
+  },
+};
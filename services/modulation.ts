@@ -0,0 +1,166 @@
+import { ModCurve, ModRouting, ModSource, ModTarget, TrackAnalysis } from '../types';
+import { ANALYSIS_SAMPLE_RATE } from './audioAnalysis';
+
+// Audio-reactive modulation matrix, shared by the live preview and the
+// offline exporter. Each frame the spectrum is reduced to a few band levels,
+// every routing smooths its source, shapes it with a curve and adds
+// amount * range to its target. drawScene reads the summed targets.
+
+// Byte spectrum bins, ~23Hz each at 48kHz / 2048 (same layout as AnalyserNode).
+// Spectra at other rates are mapped onto the same frequencies, see bandBins.
+type Band = 'sub' | 'bass' | 'mids' | 'highs';
+const BAND_BINS: Record<Band, [number, number]> = {
+  sub: [1, 3],
+  bass: [2, 8], // The original kick detector range
+  mids: [11, 171],
+  highs: [171, 683],
+};
+const RMS_GAIN = 2; // Music rarely exceeds 0.5 RMS
+const ONSET_GAIN = 8; // Spectral flux is small even on hard hits
+const GATE_THRESHOLD = 0.6;
+const ADVANCE_THRESHOLD = 0.5;
+
+// Target value at amount 1 and a full source level
+const TARGET_RANGES: Record<ModTarget, number> = {
+  scale: 0.1, // Fraction of the fitted size
+  rotation: 0.04, // Radians
+  shake: 20, // Pixels, peak to peak
+  flash: 1, // Overlay strength, same scale as the pose change flash
+  hue: 180, // Degrees
+  blur: 8, // Pixels
+  poseAdvance: 1, // Trigger level
+};
+
+export type AudioBands = Record<ModSource, number>; // Each 0-1
+export type ModValues = Record<ModTarget, number>;
+
+export interface ModulationState {
+  levels: Map<string, number>; // Smoothed source level per routing id
+  previousSpectrum: Uint8Array | null; // For the onset flux
+  previousAdvance: number;
+}
+
+export const createModulationState = (): ModulationState => ({
+  levels: new Map(),
+  previousSpectrum: null,
+  previousAdvance: 0,
+});
+
+const CURVES: Record<ModCurve, (level: number) => number> = {
+  linear: x => x,
+  exponential: x => x * x, // Only strong hits come through
+  logarithmic: x => Math.sqrt(x), // Quiet parts already react
+  gate: x => (x > GATE_THRESHOLD ? 1 : 0),
+};
+
+const bandBins = (band: Band, sampleRate: number): [number, number] => {
+  const ratio = ANALYSIS_SAMPLE_RATE / sampleRate;
+  const [start, end] = BAND_BINS[band];
+  return [Math.round(start * ratio), Math.max(Math.round(start * ratio) + 1, Math.round(end * ratio))];
+};
+
+const bandLevel = (spectrum: Uint8Array, [start, end]: [number, number]) => {
+  let sum = 0;
+  const last = Math.min(end, spectrum.length);
+  for (let i = start; i < last; i++) sum += spectrum[i];
+  return last > start ? sum / (last - start) / 255 : 0;
+};
+
+/**
+ * Position in the beat grid as a decaying ramp: 1 on each beat, falling
+ * linearly to 0 just before the next. 0 without a beat grid.
+ */
+export const beatPhaseAt = (analysis: TrackAnalysis | null, time: number): number => {
+  if (!analysis || analysis.beatPeriod <= 0) return 0;
+  const anchor = analysis.beats[0] ?? 0;
+  const phase = (((time - anchor) / analysis.beatPeriod) % 1 + 1) % 1;
+  return 1 - phase;
+};
+
+/**
+ * Whether a beat of the grid falls in (from, to]. False without a beat grid
+ * and when playback jumped back.
+ */
+export const beatCrossed = (analysis: TrackAnalysis | null, from: number, to: number): boolean => {
+  if (!analysis || analysis.beatPeriod <= 0 || to <= from) return false;
+  const anchor = analysis.beats[0] ?? 0;
+  return Math.floor((to - anchor) / analysis.beatPeriod) > Math.floor((from - anchor) / analysis.beatPeriod);
+};
+
+/**
+ * Reduces one frame of audio to the matrix sources. `spectrum` is null when
+ * nothing is playing; `rms` is the raw time-domain RMS (0-1). `sampleRate` is
+ * that of the context the spectrum was taken in.
+ */
+export const measureBands = (
+  state: ModulationState,
+  spectrum: Uint8Array | null,
+  rms: number,
+  beatPhase: number,
+  sampleRate: number = ANALYSIS_SAMPLE_RATE
+): AudioBands => {
+  if (!spectrum) {
+    state.previousSpectrum = null;
+    return { sub: 0, bass: 0, mids: 0, highs: 0, rms: 0, onset: 0, beatPhase };
+  }
+
+  // Positive spectral flux against the previous frame
+  let onset = 0;
+  const previous = state.previousSpectrum;
+  const [fluxStart, fluxEnd] = [bandBins('sub', sampleRate)[0], Math.min(bandBins('highs', sampleRate)[1], spectrum.length)];
+  if (previous) {
+    for (let i = fluxStart; i < fluxEnd; i++) onset += Math.max(0, spectrum[i] - previous[i]);
+    onset = Math.min(1, (onset / (fluxEnd - fluxStart) / 255) * ONSET_GAIN);
+  }
+  state.previousSpectrum = spectrum.slice();
+
+  return {
+    sub: bandLevel(spectrum, bandBins('sub', sampleRate)),
+    bass: bandLevel(spectrum, bandBins('bass', sampleRate)),
+    mids: bandLevel(spectrum, bandBins('mids', sampleRate)),
+    highs: bandLevel(spectrum, bandBins('highs', sampleRate)),
+    rms: Math.min(1, rms * RMS_GAIN),
+    onset,
+    beatPhase,
+  };
+};
+
+/**
+ * Same feature set for the silent pose loop, driven by its synthetic kick.
+ */
+export const syntheticBands = (kick: number, beatPhase: number, isHit: boolean): AudioBands => ({
+  sub: kick,
+  bass: kick,
+  mids: kick * 0.5,
+  highs: kick * 0.25,
+  rms: kick * 0.5,
+  onset: isHit ? 1 : 0,
+  beatPhase,
+});
+
+/**
+ * Runs every routing for one frame. `advance` is true on the frame where the
+ * pose advance target rises past its threshold.
+ */
+export const evaluateModulation = (
+  routings: ModRouting[],
+  state: ModulationState,
+  bands: AudioBands,
+  deltaTime: number // ms
+): { values: ModValues; advance: boolean } => {
+  const values: ModValues = { scale: 0, rotation: 0, shake: 0, flash: 0, hue: 0, blur: 0, poseAdvance: 0 };
+
+  routings.forEach(routing => {
+    // Smoothing is defined per 60fps frame so preview and export feel alike
+    const keep = Math.pow(Math.min(0.95, Math.max(0, routing.smoothing)), Math.max(1, deltaTime) / (1000 / 60));
+    const level = (state.levels.get(routing.id) ?? 0) * keep + bands[routing.source] * (1 - keep);
+    state.levels.set(routing.id, level);
+    values[routing.target] += routing.amount * CURVES[routing.curve](level) * TARGET_RANGES[routing.target];
+  });
+
+  const advance = values.poseAdvance >= ADVANCE_THRESHOLD && state.previousAdvance < ADVANCE_THRESHOLD;
+  state.previousAdvance = values.poseAdvance;
+  return { values, advance };
+};
+
+export const createRoutingId = () => `mod-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
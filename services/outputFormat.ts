@@ -0,0 +1,112 @@
+import { ExportFormat, ExportSettings, FramingMode, OutputPreset, OutputPresetId } from '../types';
+import { EXPORT_FORMATS, EXPORT_RESOLUTIONS, OUTPUT_PRESETS } from '../constants';
+import { drawFramingFill, framingScale } from './renderer';
+import { loadImage } from './localGenerator';
+
+// Output formats for the platforms. The preset fixes the aspect and the full
+// size, exports pick a resolution at that aspect. Preview and export render
+// into a canvas of the output size, never the size of the page element.
+
+const PREVIEW_MAX_SIDE = 1920; // 4K previews render at half size
+const ASPECT_TOLERANCE = 0.01;
+
+export const findOutputPreset = (id: OutputPresetId): OutputPreset =>
+  OUTPUT_PRESETS.find(p => p.id === id) || OUTPUT_PRESETS[0];
+
+const even = (value: number) => Math.max(2, Math.round(value / 2) * 2); // H.264 requires even sizes
+
+/**
+ * The preset's aspect at a given short side.
+ */
+export const sizeAtShortSide = (preset: OutputPreset, shortSide: number) => {
+  const scale = shortSide / Math.min(preset.width, preset.height);
+  return { width: even(preset.width * scale), height: even(preset.height * scale) };
+};
+
+/**
+ * Export resolutions offered for a preset, up to its full size.
+ */
+export const exportResolutions = (preset: OutputPreset) =>
+  EXPORT_RESOLUTIONS
+    .filter(r => r.shortSide <= Math.min(preset.width, preset.height))
+    .map(r => ({ label: r.label, ...sizeAtShortSide(preset, r.shortSide) }));
+
+/**
+ * Export settings after switching presets: videos take the full preset size,
+ * animations keep their (smaller) resolution at the new aspect.
+ */
+export const fitExportSettings = (
+  settings: Record<ExportFormat, ExportSettings>,
+  preset: OutputPreset
+): Record<ExportFormat, ExportSettings> => {
+  const fitted = { ...settings };
+  for (const format of EXPORT_FORMATS) {
+    const current = settings[format.id];
+    const shortSide = Math.min(current.width, current.height, preset.width, preset.height);
+    fitted[format.id] = {
+      ...current,
+      ...(format.kind === 'video' ? { width: preset.width, height: preset.height } : sizeAtShortSide(preset, shortSide)),
+    };
+  }
+  return fitted;
+};
+
+/**
+ * Canvas size of the live preview: the preset size, scaled down for large
+ * presets so the preview stays real-time.
+ */
+export const previewSize = (preset: OutputPreset) => {
+  const scale = Math.min(1, PREVIEW_MAX_SIDE / Math.max(preset.width, preset.height));
+  return { width: Math.round(preset.width * scale), height: Math.round(preset.height * scale) };
+};
+
+/**
+ * Letterboxed rectangle of an output inside a display area.
+ */
+export const containRect = (width: number, height: number, areaWidth: number, areaHeight: number) => {
+  const scale = Math.min(areaWidth / width, areaHeight / height);
+  const w = width * scale;
+  const h = height * scale;
+  return { x: (areaWidth - w) / 2, y: (areaHeight - h) / 2, width: w, height: h };
+};
+
+/**
+ * Brings the source image to the output aspect with the chosen framing, so
+ * the base frame and the generated poses share the output's shape. Images
+ * already at the aspect are returned unchanged.
+ */
+export const conformToAspect = async (imageUrl: string, preset: OutputPreset, framing: FramingMode): Promise<string> => {
+  const img = await loadImage(imageUrl);
+  const aspect = preset.width / preset.height;
+  if (Math.abs(img.width / img.height - aspect) / aspect < ASPECT_TOLERANCE) return imageUrl;
+
+  // Keeps the source resolution along the side that is neither padded nor cut
+  const pad = framing !== 'crop';
+  const width = Math.round(pad ? Math.max(img.width, img.height * aspect) : Math.min(img.width, img.height * aspect));
+  const height = Math.round(width / aspect);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Could not create canvas.");
+
+  ctx.fillStyle = '#000';
+  ctx.fillRect(0, 0, width, height);
+  if (framing === 'fill') drawFramingFill(ctx, img, width, height);
+  const scale = framingScale(framing, img, width, height);
+  const drawW = img.width * scale;
+  const drawH = img.height * scale;
+  ctx.drawImage(img, (width - drawW) / 2, (height - drawH) / 2, drawW, drawH);
+
+  return canvas.toDataURL('image/jpeg', 0.92);
+};
+
+/**
+ * Whether two images share an aspect, within the tolerance conformToAspect uses.
+ */
+export const hasSameAspect = async (urlA: string, urlB: string): Promise<boolean> => {
+  const [a, b] = await Promise.all([loadImage(urlA), loadImage(urlB)]);
+  const aspect = a.width / a.height;
+  return Math.abs(b.width / b.height - aspect) / aspect < ASPECT_TOLERANCE;
+};
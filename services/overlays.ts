@@ -0,0 +1,187 @@
+import { OverlayLine, TextOverlay } from '../types';
+import { OVERLAY_FONTS } from '../constants';
+import { AudioBands } from './modulation';
+import { Rng } from './renderer';
+
+// Titles and lyrics over the finished frame. Drawn after post-processing so
+// text stays readable, shared by the live preview and the exporter.
+
+const LINE_FADE = 0.15; // Seconds
+const LAST_LINE_SECONDS = 4; // LRC has no end time for the last line
+const MAX_TEXT_WIDTH = 0.9; // Fraction of the frame width before wrapping
+const POP_SCALE = 0.25; // Extra scale at full level and amount
+const SHAKE = 0.02; // Fraction of the frame height
+const OUTLINE = 0.08; // Fraction of the font size
+
+export const createOverlayId = () => `overlay-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+/**
+ * New overlay centred near the bottom, lyrics sized a little smaller than titles.
+ */
+export const createTextOverlay = (name: string, lines: OverlayLine[]): TextOverlay => ({
+  id: createOverlayId(),
+  name,
+  lines,
+  font: 'sans',
+  size: lines.length > 1 ? 0.06 : 0.09,
+  color: '#ffffff',
+  x: 0.5,
+  y: lines.length > 1 ? 0.85 : 0.15,
+  animation: 'pop',
+  band: 'bass',
+  amount: 0.5,
+  visible: true,
+});
+
+// --- IMPORT ---
+
+// [mm:ss], [mm:ss.xx] or [mm:ss:xx]
+const LRC_TIME = /\[(\d+):(\d{1,2})(?:[.:](\d{1,3}))?\]/g;
+const SRT_TIME = /(\d+):(\d{2}):(\d{2})[,.](\d{1,3})\s*-->\s*(\d+):(\d{2}):(\d{2})[,.](\d{1,3})/;
+
+const fraction = (digits: string | undefined) => digits ? parseInt(digits) / Math.pow(10, digits.length) : 0;
+
+/**
+ * LRC lyrics. A line ends where the next begins, empty lines only end the
+ * one before them. Word timestamps are dropped, [offset] is applied.
+ */
+export const parseLrc = (text: string): OverlayLine[] => {
+  const offset = parseInt(text.match(/\[offset:\s*([+-]?\d+)\]/i)?.[1] ?? '0') / 1000;
+  const entries: { time: number; text: string }[] = [];
+
+  for (const raw of text.split(/\r?\n/)) {
+    const times = [...raw.matchAll(LRC_TIME)];
+    if (times.length === 0) continue;
+    const lyric = raw.replace(LRC_TIME, '').replace(/<\d+:\d{1,2}(?:[.:]\d{1,3})?>/g, '').trim();
+    for (const [, min, sec, frac] of times) {
+      entries.push({ time: Math.max(0, parseInt(min) * 60 + parseInt(sec) + fraction(frac) - offset), text: lyric });
+    }
+  }
+  entries.sort((a, b) => a.time - b.time);
+
+  return entries.flatMap((entry, i) => entry.text
+    ? [{ start: entry.time, end: entries[i + 1]?.time ?? entry.time + LAST_LINE_SECONDS, text: entry.text }]
+    : []);
+};
+
+/**
+ * SRT subtitles. Formatting tags are stripped, multi-line cues keep their breaks.
+ */
+export const parseSrt = (text: string): OverlayLine[] => {
+  const lines: OverlayLine[] = [];
+  for (const block of text.split(/\r?\n\s*\r?\n/)) {
+    const rows = block.split(/\r?\n/);
+    const timing = rows.findIndex(row => SRT_TIME.test(row));
+    if (timing < 0) continue;
+    const [, h1, m1, s1, f1, h2, m2, s2, f2] = rows[timing].match(SRT_TIME)!;
+    const cue = rows.slice(timing + 1).map(row => row.replace(/<[^>]+>|\{[^}]+\}/g, '').trim()).filter(Boolean).join('\n');
+    if (!cue) continue;
+    lines.push({
+      start: parseInt(h1) * 3600 + parseInt(m1) * 60 + parseInt(s1) + fraction(f1),
+      end: parseInt(h2) * 3600 + parseInt(m2) * 60 + parseInt(s2) + fraction(f2),
+      text: cue,
+    });
+  }
+  return lines.sort((a, b) => a.start - b.start);
+};
+
+/**
+ * Reads an .lrc or .srt file into overlay lines. Throws when it has no timed lines.
+ */
+export const parseLyricsFile = async (file: File): Promise<OverlayLine[]> => {
+  const text = await file.text();
+  const lines = /\.srt$/i.test(file.name) || SRT_TIME.test(text) ? parseSrt(text) : parseLrc(text);
+  if (lines.length === 0) throw new Error(`No timed lines found in ${file.name}. Use an LRC or SRT file.`);
+  return lines;
+};
+
+// --- DRAWING ---
+
+const fontOf = (overlay: TextOverlay, px: number) => {
+  const font = OVERLAY_FONTS.find(f => f.id === overlay.font) || OVERLAY_FONTS[0];
+  return `${font.weight} ${px}px ${font.family}`;
+};
+
+/**
+ * Opacity of a line at `time`, 0 when it is not showing. Without a track
+ * time (live input) only lines that stay up are shown.
+ */
+export const lineOpacity = (line: OverlayLine, time: number | null): number => {
+  if (time === null) return line.end === null ? 1 : 0;
+  if (time < line.start || (line.end !== null && time >= line.end)) return 0;
+  const fadeIn = (time - line.start) / LINE_FADE;
+  const fadeOut = line.end === null ? 1 : (line.end - time) / LINE_FADE;
+  return Math.min(1, fadeIn, fadeOut);
+};
+
+const wrapText = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string[] =>
+  text.split('\n').flatMap(paragraph => {
+    const rows: string[] = [];
+    let row = '';
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      const candidate = row ? `${row} ${word}` : word;
+      if (row && ctx.measureText(candidate).width > maxWidth) {
+        rows.push(row);
+        row = word;
+      } else {
+        row = candidate;
+      }
+    }
+    return row ? [...rows, row] : rows;
+  });
+
+/**
+ * Draws the visible lines of every overlay. `time` is in track seconds,
+ * null for live input.
+ */
+export const drawOverlays = (
+  ctx: CanvasRenderingContext2D,
+  width: number,
+  height: number,
+  overlays: TextOverlay[],
+  time: number | null,
+  bands: AudioBands,
+  rng: Rng
+) => {
+  for (const overlay of overlays) {
+    if (!overlay.visible) continue;
+    const level = Math.min(1, bands[overlay.band] * overlay.amount);
+
+    for (const line of overlay.lines) {
+      const opacity = lineOpacity(line, time);
+      if (opacity <= 0) continue;
+
+      const fontSize = Math.round(overlay.size * height);
+      ctx.save();
+      ctx.font = fontOf(overlay, fontSize);
+      const rows = wrapText(ctx, line.text, width * MAX_TEXT_WIDTH);
+
+      let x = overlay.x * width;
+      let y = overlay.y * height;
+      if (overlay.animation === 'shake' && level > 0.05) {
+        x += (rng() - 0.5) * level * SHAKE * height;
+        y += (rng() - 0.5) * level * SHAKE * height;
+      }
+      ctx.translate(x, y);
+      if (overlay.animation === 'pop') ctx.scale(1 + level * POP_SCALE, 1 + level * POP_SCALE);
+      if (overlay.animation === 'glow') {
+        ctx.shadowColor = overlay.color;
+        ctx.shadowBlur = level * fontSize;
+      }
+
+      ctx.globalAlpha = opacity;
+      ctx.textAlign = 'center';
+      ctx.textBaseline = 'middle';
+      ctx.lineJoin = 'round';
+      ctx.lineWidth = fontSize * OUTLINE;
+      ctx.strokeStyle = 'rgba(0, 0, 0, 0.6)';
+      ctx.fillStyle = overlay.color;
+      rows.forEach((row, i) => {
+        const rowY = (i - (rows.length - 1) / 2) * fontSize * 1.15;
+        ctx.strokeText(row, 0, rowY);
+        ctx.fillText(row, 0, rowY);
+      });
+      ctx.restore();
+    }
+  }
+};
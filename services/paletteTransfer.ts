@@ -0,0 +1,102 @@
+import { loadImage } from './localGenerator';
+
+// Palette transfer for the offline provider. Both images are reduced to a few
+// dominant colors with k-means; clusters are paired by brightness rank and
+// every pixel is shifted by the offset between its cluster and the matching
+// reference color. Shading and detail survive, the overall palette becomes
+// the reference's.
+
+const PALETTE_SIZE = 6;
+const SAMPLE_SIZE = 64; // Pixels per side used to find the palette
+const ITERATIONS = 8;
+const STRENGTH = 0.85; // 1 = full shift onto the reference palette
+
+type Color = [number, number, number];
+
+const luma = (c: Color) => c[0] * 0.299 + c[1] * 0.587 + c[2] * 0.114;
+
+const sample = (img: HTMLImageElement): Uint8ClampedArray => {
+  const canvas = document.createElement('canvas');
+  canvas.width = SAMPLE_SIZE;
+  canvas.height = SAMPLE_SIZE;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error("Could not create palette canvas.");
+  ctx.drawImage(img, 0, 0, SAMPLE_SIZE, SAMPLE_SIZE);
+  return ctx.getImageData(0, 0, SAMPLE_SIZE, SAMPLE_SIZE).data;
+};
+
+const nearest = (palette: Color[], r: number, g: number, b: number) => {
+  let best = 0;
+  let bestDistance = Infinity;
+  palette.forEach((c, i) => {
+    const d = (c[0] - r) ** 2 + (c[1] - g) ** 2 + (c[2] - b) ** 2;
+    if (d < bestDistance) {
+      bestDistance = d;
+      best = i;
+    }
+  });
+  return best;
+};
+
+/**
+ * Dominant colors, darkest first. Seeded from evenly spaced brightness
+ * quantiles so the result is deterministic.
+ */
+const extractPalette = (data: Uint8ClampedArray): Color[] => {
+  const pixels: Color[] = [];
+  for (let i = 0; i < data.length; i += 4) {
+    if (data[i + 3] >= 128) pixels.push([data[i], data[i + 1], data[i + 2]]);
+  }
+  if (pixels.length === 0) return [[0, 0, 0]];
+
+  const sorted = [...pixels].sort((a, b) => luma(a) - luma(b));
+  let palette: Color[] = Array.from({ length: PALETTE_SIZE }, (_, k) =>
+    [...sorted[Math.floor(((k + 0.5) / PALETTE_SIZE) * sorted.length)]] as Color
+  );
+
+  for (let iteration = 0; iteration < ITERATIONS; iteration++) {
+    const sums = palette.map(() => [0, 0, 0, 0]);
+    pixels.forEach(([r, g, b]) => {
+      const s = sums[nearest(palette, r, g, b)];
+      s[0] += r;
+      s[1] += g;
+      s[2] += b;
+      s[3]++;
+    });
+    // Empty clusters keep their previous center
+    palette = palette.map((c, k) => sums[k][3] > 0
+      ? [sums[k][0] / sums[k][3], sums[k][1] / sums[k][3], sums[k][2] / sums[k][3]]
+      : c);
+  }
+  return palette.sort((a, b) => luma(a) - luma(b));
+};
+
+/**
+ * Recolors the image with the reference palette. Returns a PNG data URL.
+ */
+export const transferPalette = async (imageUrl: string, referenceUrl: string): Promise<string> => {
+  const [img, reference] = await Promise.all([loadImage(imageUrl), loadImage(referenceUrl)]);
+  const source = extractPalette(sample(img));
+  const target = extractPalette(sample(reference));
+  const offsets = source.map((c, k) => {
+    const t = target[Math.round((k / Math.max(1, source.length - 1)) * (target.length - 1))];
+    return [t[0] - c[0], t[1] - c[1], t[2] - c[2]].map(v => v * STRENGTH);
+  });
+
+  const canvas = document.createElement('canvas');
+  canvas.width = img.naturalWidth;
+  canvas.height = img.naturalHeight;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error("Could not create palette canvas.");
+  ctx.drawImage(img, 0, 0);
+  const frame = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  const data = frame.data;
+  for (let i = 0; i < data.length; i += 4) {
+    const offset = offsets[nearest(source, data[i], data[i + 1], data[i + 2])];
+    data[i] += offset[0];
+    data[i + 1] += offset[1];
+    data[i + 2] += offset[2];
+  }
+  ctx.putImageData(frame, 0, 0);
+  return canvas.toDataURL('image/png');
+};
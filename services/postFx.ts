@@ -0,0 +1,291 @@
+import { PostEffect, PostEffectType } from '../types';
+import { AudioBands } from './modulation';
+
+// WebGL post-processing chain, run on the finished 2D frame by both the live
+// preview and the offline exporter. The frame is uploaded as a texture, each
+// effect is one fullscreen pass between two framebuffers, and the result is
+// copied back onto the 2D canvas. The last output is kept for the datamosh
+// pass, which smears the previous frame along the motion.
+
+const VERTEX_SHADER = `
+attribute vec2 a_position;
+varying vec2 v_uv;
+void main() {
+  v_uv = a_position * 0.5 + 0.5;
+  gl_Position = vec4(a_position, 0.0, 1.0);
+}`;
+
+const FRAGMENT_HEADER = `
+precision mediump float;
+varying vec2 v_uv;
+uniform sampler2D u_image;
+uniform sampler2D u_previous;
+uniform vec2 u_resolution;
+uniform float u_time; // seconds
+uniform float u_strength; // 0-1
+float hash(vec2 p) { return fract(sin(dot(p, vec2(12.9898, 78.233))) * 43758.5453); }
+`;
+
+const COPY_SHADER = `
+void main() { gl_FragColor = texture2D(u_image, v_uv); }`;
+
+const EFFECT_SHADERS: Record<PostEffectType, string> = {
+  // Bright parts bleed into a ring of samples around each pixel
+  bloom: `
+void main() {
+  vec4 base = texture2D(u_image, v_uv);
+  vec2 aspect = vec2(1.0, u_resolution.x / u_resolution.y);
+  vec3 glow = vec3(0.0);
+  for (int i = 0; i < 12; i++) {
+    float angle = float(i) * 0.5236;
+    for (int r = 1; r <= 3; r++) {
+      vec2 offset = vec2(cos(angle), sin(angle)) * aspect * float(r) * 0.008;
+      glow += max(texture2D(u_image, v_uv + offset).rgb - 0.55, 0.0);
+    }
+  }
+  gl_FragColor = vec4(base.rgb + glow / 36.0 * u_strength * 5.0, base.a);
+}`,
+  // Lens fringing, channels pulled apart toward the edges
+  chromaticAberration: `
+void main() {
+  vec2 dir = (v_uv - 0.5) * u_strength * 0.04;
+  gl_FragColor = vec4(
+    texture2D(u_image, v_uv + dir).r,
+    texture2D(u_image, v_uv).g,
+    texture2D(u_image, v_uv - dir).b,
+    1.0);
+}`,
+  // Horizontal channel offset that jumps a few times per second
+  rgbSplit: `
+void main() {
+  float jitter = hash(vec2(floor(u_time * 12.0), 1.0)) - 0.5;
+  vec2 offset = vec2(u_strength * (0.015 + jitter * 0.02), 0.0);
+  gl_FragColor = vec4(
+    texture2D(u_image, v_uv - offset).r,
+    texture2D(u_image, v_uv).g,
+    texture2D(u_image, v_uv + offset).b,
+    1.0);
+}`,
+  // Line wobble, scanlines and grain
+  vhs: `
+void main() {
+  float wobble = sin(v_uv.y * 40.0 + u_time * 3.0) * 0.003 * u_strength;
+  vec3 color = texture2D(u_image, vec2(v_uv.x + wobble, v_uv.y)).rgb;
+  float scan = 0.5 + 0.5 * sin(v_uv.y * u_resolution.y * 1.5708);
+  color *= 1.0 - u_strength * 0.3 * scan;
+  color += (hash(v_uv * u_resolution + fract(u_time) * 100.0) - 0.5) * u_strength * 0.25;
+  gl_FragColor = vec4(color, 1.0);
+}`,
+  // Blocks that changed since the last frame drag the old image along
+  datamosh: `
+void main() {
+  vec2 block = (floor(v_uv * 24.0) + 0.5) / 24.0;
+  vec3 current = texture2D(u_image, block).rgb;
+  vec3 previous = texture2D(u_previous, block).rgb;
+  vec2 motion = (current.rg - previous.rg) * u_strength * 0.15;
+  float glitch = step(1.0 - u_strength * 0.6, hash(block + floor(u_time * 8.0)));
+  vec4 fresh = texture2D(u_image, v_uv + motion * 0.5);
+  vec4 smeared = texture2D(u_previous, v_uv - motion);
+  gl_FragColor = mix(fresh, smeared, glitch * 0.85);
+}`,
+  // Six mirrored wedges, faded in with the strength
+  kaleidoscope: `
+void main() {
+  float aspect = u_resolution.x / u_resolution.y;
+  vec2 p = v_uv - 0.5;
+  p.x *= aspect;
+  float wedge = 6.28318 / 6.0;
+  float angle = mod(atan(p.y, p.x) + u_strength * 0.5, wedge);
+  angle = abs(angle - wedge * 0.5);
+  vec2 q = vec2(cos(angle), sin(angle)) * length(p);
+  q.x /= aspect;
+  gl_FragColor = mix(texture2D(u_image, v_uv), texture2D(u_image, q + 0.5), clamp(u_strength * 1.5, 0.0, 1.0));
+}`,
+};
+
+const MIN_STRENGTH = 0.01; // Weaker passes are skipped
+
+interface Target {
+  texture: WebGLTexture;
+  framebuffer: WebGLFramebuffer;
+}
+
+interface Program {
+  program: WebGLProgram;
+  uniforms: Record<'image' | 'previous' | 'resolution' | 'time' | 'strength', WebGLUniformLocation | null>;
+}
+
+export interface PostFxChain {
+  /**
+   * Runs the effect stack over the 2D canvas in place. `time` is in seconds.
+   */
+  apply(ctx: CanvasRenderingContext2D, effects: PostEffect[], bands: AudioBands, time: number): void;
+  dispose(): void;
+}
+
+/**
+ * Effect strength for this frame: base amount pushed up by its audio source.
+ */
+export const effectStrength = (effect: PostEffect, bands: AudioBands) =>
+  Math.min(1, Math.max(0, effect.amount + effect.reactivity * bands[effect.source]));
+
+const compile = (gl: WebGLRenderingContext, type: number, source: string) => {
+  const shader = gl.createShader(type)!;
+  gl.shaderSource(shader, source);
+  gl.compileShader(shader);
+  if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+    const log = gl.getShaderInfoLog(shader);
+    gl.deleteShader(shader);
+    throw new Error(`Post effect shader failed to compile: ${log}`);
+  }
+  return shader;
+};
+
+const link = (gl: WebGLRenderingContext, vertex: WebGLShader, fragmentSource: string): Program => {
+  const program = gl.createProgram()!;
+  gl.attachShader(program, vertex);
+  gl.attachShader(program, compile(gl, gl.FRAGMENT_SHADER, FRAGMENT_HEADER + fragmentSource));
+  gl.bindAttribLocation(program, 0, 'a_position');
+  gl.linkProgram(program);
+  if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+    throw new Error(`Post effect shader failed to link: ${gl.getProgramInfoLog(program)}`);
+  }
+  return {
+    program,
+    uniforms: {
+      image: gl.getUniformLocation(program, 'u_image'),
+      previous: gl.getUniformLocation(program, 'u_previous'),
+      resolution: gl.getUniformLocation(program, 'u_resolution'),
+      time: gl.getUniformLocation(program, 'u_time'),
+      strength: gl.getUniformLocation(program, 'u_strength'),
+    },
+  };
+};
+
+const createTexture = (gl: WebGLRenderingContext) => {
+  const texture = gl.createTexture()!;
+  gl.bindTexture(gl.TEXTURE_2D, texture);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+  return texture;
+};
+
+const createTarget = (gl: WebGLRenderingContext, width: number, height: number): Target => {
+  const texture = createTexture(gl);
+  gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, width, height, 0, gl.RGBA, gl.UNSIGNED_BYTE, null);
+  const framebuffer = gl.createFramebuffer()!;
+  gl.bindFramebuffer(gl.FRAMEBUFFER, framebuffer);
+  gl.framebufferTexture2D(gl.FRAMEBUFFER, gl.COLOR_ATTACHMENT0, gl.TEXTURE_2D, texture, 0);
+  return { texture, framebuffer };
+};
+
+/**
+ * Creates a chain with its own offscreen WebGL context. Returns null when
+ * WebGL is unavailable, callers then show the plain 2D frame.
+ */
+export const createPostFxChain = (): PostFxChain | null => {
+  const canvas = document.createElement('canvas');
+  const gl = canvas.getContext('webgl', { premultipliedAlpha: false, preserveDrawingBuffer: true });
+  if (!gl) return null;
+
+  const vertex = compile(gl, gl.VERTEX_SHADER, VERTEX_SHADER);
+  const copyProgram = link(gl, vertex, COPY_SHADER);
+  const programs = new Map<PostEffectType, Program>();
+  const programFor = (type: PostEffectType) => {
+    let program = programs.get(type);
+    if (!program) {
+      program = link(gl, vertex, EFFECT_SHADERS[type]);
+      programs.set(type, program);
+    }
+    return program;
+  };
+
+  // Fullscreen triangle strip
+  const quad = gl.createBuffer();
+  gl.bindBuffer(gl.ARRAY_BUFFER, quad);
+  gl.bufferData(gl.ARRAY_BUFFER, new Float32Array([-1, -1, 1, -1, -1, 1, 1, 1]), gl.STATIC_DRAW);
+  gl.enableVertexAttribArray(0);
+  gl.vertexAttribPointer(0, 2, gl.FLOAT, false, 0, 0);
+
+  const source = createTexture(gl);
+  let targets: Target[] = []; // Two ping-pong buffers plus the previous output
+  let hasHistory = false;
+
+  const resize = (width: number, height: number) => {
+    if (canvas.width === width && canvas.height === height && targets.length > 0) return;
+    targets.forEach(t => {
+      gl.deleteTexture(t.texture);
+      gl.deleteFramebuffer(t.framebuffer);
+    });
+    canvas.width = width;
+    canvas.height = height;
+    targets = [createTarget(gl, width, height), createTarget(gl, width, height), createTarget(gl, width, height)];
+    hasHistory = false;
+  };
+
+  const draw = (
+    { program, uniforms }: Program,
+    input: WebGLTexture,
+    output: Target | null,
+    strength: number,
+    time: number,
+    previous: WebGLTexture
+  ) => {
+    gl.useProgram(program);
+    gl.bindFramebuffer(gl.FRAMEBUFFER, output ? output.framebuffer : null);
+    gl.viewport(0, 0, canvas.width, canvas.height);
+    gl.activeTexture(gl.TEXTURE0);
+    gl.bindTexture(gl.TEXTURE_2D, input);
+    gl.uniform1i(uniforms.image, 0);
+    gl.activeTexture(gl.TEXTURE1);
+    gl.bindTexture(gl.TEXTURE_2D, previous);
+    gl.uniform1i(uniforms.previous, 1);
+    gl.uniform2f(uniforms.resolution, canvas.width, canvas.height);
+    gl.uniform1f(uniforms.time, time);
+    gl.uniform1f(uniforms.strength, strength);
+    gl.drawArrays(gl.TRIANGLE_STRIP, 0, 4);
+  };
+
+  return {
+    apply(ctx, effects, bands, time) {
+      const passes = effects
+        .map(effect => ({ type: effect.type, strength: effectStrength(effect, bands) }))
+        .filter(pass => pass.strength >= MIN_STRENGTH);
+      if (passes.length === 0) {
+        hasHistory = false;
+        return;
+      }
+
+      const { width, height } = ctx.canvas;
+      resize(width, height);
+
+      gl.bindTexture(gl.TEXTURE_2D, source);
+      gl.pixelStorei(gl.UNPACK_FLIP_Y_WEBGL, true);
+      gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, gl.RGBA, gl.UNSIGNED_BYTE, ctx.canvas);
+
+      const [ping, pong, history] = targets;
+      // Without a previous frame datamosh compares the frame with itself
+      const previous = hasHistory ? history.texture : source;
+      let input = source;
+      passes.forEach((pass, i) => {
+        const output = i % 2 === 0 ? ping : pong;
+        draw(programFor(pass.type), input, output, pass.strength, time, previous);
+        input = output.texture;
+      });
+
+      draw(copyProgram, input, history, 0, time, previous);
+      draw(copyProgram, input, null, 0, time, previous);
+      hasHistory = true;
+
+      ctx.save();
+      ctx.globalCompositeOperation = 'copy';
+      ctx.drawImage(canvas, 0, 0, width, height);
+      ctx.restore();
+    },
+    dispose() {
+      gl.getExtension('WEBGL_lose_context')?.loseContext();
+    },
+  };
+};
@@ -0,0 +1,234 @@
+import { strFromU8, strToU8, unzipSync, zipSync, Zippable } from 'fflate';
+import { AppState, FrameAlignment, FrameScore, GeneratedFrame, GenerationRun, PROJECT_CONFIG_KEYS, PoseType, ProjectConfig, SceneLayer } from '../types';
+import { fileToGenericBase64 } from './gemini';
+
+// Portable project bundle: a zip holding project.json plus the source image,
+// the audio and every generated frame, so a project can be handed off and
+// re-rendered without spending generation calls again.
+
+export const BUNDLE_EXTENSION = 'rloop';
+const BUNDLE_VERSION = 5; // 2: generation history, 3: subject masks and background, 4: style reference, 5: scene layers
+const MANIFEST_NAME = 'project.json';
+
+interface BundleAsset {
+  path: string;
+  name: string;
+  type: string;
+}
+
+interface BundleManifest {
+  app: 'rhythmloop';
+  version: number;
+  savedAt: string;
+  config: Partial<ProjectConfig>;
+  image: BundleAsset | null;
+  audio: BundleAsset | null;
+  background?: BundleAsset | null;
+  styleReference?: BundleAsset | null;
+  frames: BundleFrame[];
+  history?: (Omit<GenerationRun, 'frames'> & { frames: BundleFrame[] })[];
+  layers?: (Omit<SceneLayer, 'imageUrl' | 'frames'> & { image: { path: string; type: string }; frames: BundleFrame[] })[];
+}
+
+interface BundleFrame {
+  pose: PoseType;
+  promptUsed?: string;
+  qa?: FrameScore;
+  alignment?: FrameAlignment;
+  path: string;
+  type: string;
+  mask?: { path: string; type: string };
+}
+
+export type LoadedProject = Pick<
+  AppState,
+  'imageFile' | 'imagePreviewUrl' | 'audioFile' | 'audioPreviewUrl' | 'backgroundFile' | 'backgroundPreviewUrl' |
+  'styleReferenceFile' | 'styleReferenceUrl' | 'generatedFrames' | 'generationHistory' | 'layers'
+> & Partial<ProjectConfig>;
+
+const EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+};
+
+const extensionFor = (type: string, fallbackName = '') =>
+  EXTENSIONS[type] || fallbackName.split('.').pop() || 'bin';
+
+const toBytes = async (blob: Blob) => new Uint8Array(await blob.arrayBuffer());
+
+// Data URLs (generated frames) -> Blob
+const urlToBlob = async (url: string) => (await fetch(url)).blob();
+
+/**
+ * Copies the persisted settings out of app state.
+ */
+export const pickProjectConfig = (state: AppState): ProjectConfig => {
+  const config = {} as Record<string, unknown>;
+  PROJECT_CONFIG_KEYS.forEach(key => { config[key] = state[key]; });
+  return config as ProjectConfig;
+};
+
+/**
+ * Keeps only known config keys from stored data, so keys missing from older
+ * saves are left out and the caller's defaults apply.
+ */
+export const readProjectConfig = (stored: Partial<ProjectConfig>): Partial<ProjectConfig> => {
+  const config: Partial<ProjectConfig> = {};
+  PROJECT_CONFIG_KEYS.forEach(key => {
+    if (key in stored) (config as Record<string, unknown>)[key] = stored[key];
+  });
+  return config;
+};
+
+/**
+ * Packs the current project into a single zip blob.
+ */
+export const exportProjectBundle = async (state: AppState): Promise<Blob> => {
+  // Assets are stored uncompressed, they already are
+  const files: Zippable = {};
+
+  const storeSource = async (file: File | null, name: string): Promise<BundleAsset | null> => {
+    if (!file) return null;
+    const asset = { path: `source/${name}.${extensionFor(file.type, file.name)}`, name: file.name, type: file.type };
+    files[asset.path] = [await toBytes(file), { level: 0 }];
+    return asset;
+  };
+
+  const image = await storeSource(state.imageFile, 'image');
+  const audio = await storeSource(state.audioFile, 'audio');
+  const background = await storeSource(state.backgroundFile, 'background');
+  const styleReference = await storeSource(state.styleReferenceFile, 'style-reference');
+
+  // Frames are shared between the active set and the history, each image is stored once
+  const stored = new Map<string, { path: string; type: string }>();
+  const storeImage = async (url: string, name: string) => {
+    let entry = stored.get(url);
+    if (!entry) {
+      const blob = await urlToBlob(url);
+      entry = { path: `frames/${stored.size}-${name}.${extensionFor(blob.type)}`, type: blob.type };
+      files[entry.path] = [await toBytes(blob), { level: 0 }];
+      stored.set(url, entry);
+    }
+    return entry;
+  };
+  const storeFrame = async (frame: GeneratedFrame): Promise<BundleFrame> => ({
+    pose: frame.pose,
+    promptUsed: frame.promptUsed,
+    qa: frame.qa,
+    alignment: frame.alignment,
+    mask: frame.maskUrl ? await storeImage(frame.maskUrl, `${frame.pose}-mask`) : undefined,
+    ...await storeImage(frame.url, frame.pose),
+  });
+
+  const frames: BundleFrame[] = [];
+  for (const frame of state.generatedFrames) frames.push(await storeFrame(frame));
+
+  const history: BundleManifest['history'] = [];
+  for (const run of state.generationHistory) {
+    const runFrames: BundleFrame[] = [];
+    for (const frame of run.frames) runFrames.push(await storeFrame(frame));
+    history.push({ ...run, frames: runFrames });
+  }
+
+  const layers: BundleManifest['layers'] = [];
+  for (const { imageUrl, frames: layerFrames, ...layer } of state.layers) {
+    const bundled: BundleFrame[] = [];
+    for (const frame of layerFrames) bundled.push(await storeFrame(frame));
+    layers.push({ ...layer, image: await storeImage(imageUrl, `${layer.id}-source`), frames: bundled });
+  }
+
+  const manifest: BundleManifest = {
+    app: 'rhythmloop',
+    version: BUNDLE_VERSION,
+    savedAt: new Date().toISOString(),
+    config: pickProjectConfig(state),
+    image,
+    audio,
+    background,
+    styleReference,
+    frames,
+    history,
+    layers,
+  };
+  files[MANIFEST_NAME] = strToU8(JSON.stringify(manifest, null, 2));
+
+  return new Blob([zipSync(files)], { type: 'application/zip' });
+};
+
+/**
+ * Reads a bundle back into app state.
+ */
+export const importProjectBundle = async (file: File): Promise<LoadedProject> => {
+  let entries: Record<string, Uint8Array>;
+  try {
+    entries = unzipSync(await toBytes(file));
+  } catch {
+    throw new Error("Not a valid project bundle.");
+  }
+
+  const manifestBytes = entries[MANIFEST_NAME];
+  if (!manifestBytes) throw new Error("Project bundle is missing project.json.");
+
+  const manifest: BundleManifest = JSON.parse(strFromU8(manifestBytes));
+  if (manifest.app !== 'rhythmloop') throw new Error("Not a RhythmLoop project bundle.");
+  if (manifest.version > BUNDLE_VERSION) throw new Error("Project was saved by a newer version of the app.");
+
+  const readFile = (asset: BundleAsset) => {
+    const bytes = entries[asset.path];
+    if (!bytes) throw new Error(`Project bundle is missing ${asset.path}.`);
+    return new File([bytes], asset.name, { type: asset.type });
+  };
+
+  const imageFile = manifest.image ? readFile(manifest.image) : null;
+  const audioFile = manifest.audio ? readFile(manifest.audio) : null;
+  const backgroundFile = manifest.background ? readFile(manifest.background) : null;
+  const styleReferenceFile = manifest.styleReference ? readFile(manifest.styleReference) : null;
+
+  // Decode each stored image once, the history shares them with the active set
+  const urls = new Map<string, Promise<string>>();
+  const readImage = (path: string, type: string) => {
+    if (!urls.has(path)) urls.set(path, fileToGenericBase64(new File([entries[path]], path, { type })));
+    return urls.get(path)!;
+  };
+  const readFrames = async (bundled: BundleFrame[]): Promise<GeneratedFrame[]> => {
+    const frames: GeneratedFrame[] = [];
+    for (const frame of bundled) {
+      if (!entries[frame.path]) continue;
+      const { pose, promptUsed, qa, alignment, mask } = frame;
+      // A missing mask only drops the frame back to flat drawing
+      const maskUrl = mask && entries[mask.path] ? await readImage(mask.path, mask.type) : undefined;
+      frames.push({ url: await readImage(frame.path, frame.type), pose, promptUsed, qa, alignment, maskUrl });
+    }
+    return frames;
+  };
+
+  const generatedFrames = await readFrames(manifest.frames);
+  const generationHistory: GenerationRun[] = [];
+  for (const run of manifest.history || []) {
+    generationHistory.push({ ...run, frames: await readFrames(run.frames) });
+  }
+
+  // A layer whose source image is missing is dropped
+  const layers: SceneLayer[] = [];
+  for (const { image, frames, ...layer } of manifest.layers || []) {
+    if (!entries[image.path]) continue;
+    layers.push({ ...layer, imageUrl: await readImage(image.path, image.type), frames: await readFrames(frames) });
+  }
+
+  return {
+    ...readProjectConfig(manifest.config),
+    imageFile,
+    imagePreviewUrl: imageFile ? await fileToGenericBase64(imageFile) : null,
+    audioFile,
+    audioPreviewUrl: audioFile ? URL.createObjectURL(audioFile) : null,
+    backgroundFile,
+    backgroundPreviewUrl: backgroundFile ? URL.createObjectURL(backgroundFile) : null,
+    styleReferenceFile,
+    styleReferenceUrl: styleReferenceFile ? await fileToGenericBase64(styleReferenceFile) : null,
+    generatedFrames,
+    generationHistory,
+    layers,
+  };
+};
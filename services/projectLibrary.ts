@@ -0,0 +1,171 @@
+import { AppState, AppStep, GeneratedFrame, GenerationRun, ProjectConfig, SceneLayer } from '../types';
+import { LoadedProject, pickProjectConfig, readProjectConfig } from './projectBundle';
+import { fileToGenericBase64 } from './gemini';
+import { loadImage } from './localGenerator';
+import { DATA_STORE, SUMMARY_STORE, openDb, requestResult, transactionDone } from './localDb';
+import { hasAudioSource } from './liveInput';
+
+// Local project library in IndexedDB. Summaries (name, thumbnail, step) live
+// in their own store so the landing view can list projects without pulling
+// every image, track and frame into memory.
+
+const THUMBNAIL_SIZE = 160;
+
+export interface ProjectSummary {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  step: AppStep; // Step the project was last edited at
+  reachedStep: AppStep; // Furthest step its assets allow
+  thumbnail: string | null; // Small JPEG data URL of the base frame
+  frameCount: number;
+}
+
+interface ProjectRecord {
+  id: string;
+  config: ProjectConfig;
+  imageFile: File | null;
+  audioFile: File | null;
+  backgroundFile?: File | null; // Missing in projects saved before layered compositing
+  styleReferenceFile?: File | null; // Missing in projects saved before style references
+  generatedFrames: GeneratedFrame[];
+  generationHistory?: GenerationRun[]; // Missing in projects saved before history existed
+  layers?: SceneLayer[]; // Missing in projects saved before scene layers
+}
+
+export type StoredProject = LoadedProject & { step: AppStep };
+
+export const createProjectId = () =>
+  `project-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+// Thumbnails are cached per source URL, autosave runs far more often than the image changes
+const thumbnailCache = new Map<string, string>();
+
+const createThumbnail = async (url: string): Promise<string | null> => {
+  const cached = thumbnailCache.get(url);
+  if (cached) return cached;
+  try {
+    const img = await loadImage(url);
+    const scale = THUMBNAIL_SIZE / Math.max(img.width, img.height);
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(img.width * scale));
+    canvas.height = Math.max(1, Math.round(img.height * scale));
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return null;
+    ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+    const thumbnail = canvas.toDataURL('image/jpeg', 0.8);
+    thumbnailCache.set(url, thumbnail);
+    return thumbnail;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Furthest step a project's assets allow.
+ */
+export const reachableStep = (
+  project: Pick<AppState, 'imageFile' | 'audioFile' | 'generatedFrames'> & Partial<Pick<AppState, 'directorPlan' | 'audioSource'>>
+): AppStep =>
+  (project.generatedFrames.length > 0 || project.directorPlan) && hasAudioSource(project) ? AppStep.PREVIEW
+    : hasAudioSource(project) ? AppStep.CONFIGURE
+    : project.imageFile ? AppStep.UPLOAD_AUDIO
+    : AppStep.UPLOAD_IMAGE;
+
+const projectName = (state: AppState) => {
+  const source = state.imageFile?.name || state.audioFile?.name;
+  return source ? source.replace(/\.[^.]+$/, '') : 'Untitled project';
+};
+
+/**
+ * All saved projects, most recently edited first.
+ */
+export const listProjects = async (): Promise<ProjectSummary[]> => {
+  const db = await openDb();
+  const summaries = await requestResult<ProjectSummary[]>(
+    db.transaction(SUMMARY_STORE, 'readonly').objectStore(SUMMARY_STORE).getAll()
+  );
+  return summaries.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+/**
+ * Writes the project under the given id, creating it on first save.
+ */
+export const saveProject = async (id: string, state: AppState): Promise<ProjectSummary> => {
+  const db = await openDb();
+  const baseFrame = state.generatedFrames.find(f => f.pose === 'base')?.url || state.imagePreviewUrl;
+  const thumbnail = baseFrame ? await createThumbnail(baseFrame) : null;
+
+  const existing = await requestResult<ProjectSummary | undefined>(
+    db.transaction(SUMMARY_STORE, 'readonly').objectStore(SUMMARY_STORE).get(id)
+  );
+  const now = Date.now();
+  const summary: ProjectSummary = {
+    id,
+    name: projectName(state),
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: now,
+    step: state.step,
+    reachedStep: reachableStep(state),
+    thumbnail,
+    frameCount: state.generatedFrames.length,
+  };
+  const record: ProjectRecord = {
+    id,
+    config: pickProjectConfig(state),
+    imageFile: state.imageFile,
+    audioFile: state.audioFile,
+    backgroundFile: state.backgroundFile,
+    styleReferenceFile: state.styleReferenceFile,
+    generatedFrames: state.generatedFrames,
+    generationHistory: state.generationHistory,
+    layers: state.layers,
+  };
+
+  const tx = db.transaction([SUMMARY_STORE, DATA_STORE], 'readwrite');
+  tx.objectStore(SUMMARY_STORE).put(summary);
+  tx.objectStore(DATA_STORE).put(record);
+  await transactionDone(tx);
+  return summary;
+};
+
+/**
+ * Loads a project back into app state.
+ */
+export const loadProject = async (id: string): Promise<StoredProject> => {
+  const db = await openDb();
+  const tx = db.transaction([SUMMARY_STORE, DATA_STORE], 'readonly');
+  const [summary, record] = await Promise.all([
+    requestResult<ProjectSummary | undefined>(tx.objectStore(SUMMARY_STORE).get(id)),
+    requestResult<ProjectRecord | undefined>(tx.objectStore(DATA_STORE).get(id)),
+  ]);
+  if (!summary || !record) throw new Error("Project not found in the library.");
+
+  const { imageFile, audioFile } = record;
+  const backgroundFile = record.backgroundFile || null;
+  const styleReferenceFile = record.styleReferenceFile || null;
+  return {
+    ...readProjectConfig(record.config),
+    step: summary.step,
+    imageFile,
+    imagePreviewUrl: imageFile ? await fileToGenericBase64(imageFile) : null,
+    audioFile,
+    audioPreviewUrl: audioFile ? URL.createObjectURL(audioFile) : null,
+    backgroundFile,
+    backgroundPreviewUrl: backgroundFile ? URL.createObjectURL(backgroundFile) : null,
+    styleReferenceFile,
+    styleReferenceUrl: styleReferenceFile ? await fileToGenericBase64(styleReferenceFile) : null,
+    generatedFrames: record.generatedFrames,
+    generationHistory: record.generationHistory || [],
+    layers: record.layers || [],
+  };
+};
+
+export const deleteProject = async (id: string): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction([SUMMARY_STORE, DATA_STORE], 'readwrite');
+  tx.objectStore(SUMMARY_STORE).delete(id);
+  tx.objectStore(DATA_STORE).delete(id);
+  await transactionDone(tx);
+};
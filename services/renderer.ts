@@ -0,0 +1,414 @@
+import { BackgroundEffect, BeatDivision, ChoreographyCue, FramingMode, PoseTransitionSettings, PoseType, SequenceOrder, TrackAnalysis, VisualizerSettings } from "../types";
+import { ANALYSIS_SAMPLE_RATE, beatGrid, gridStepAt } from "./audioAnalysis";
+import { drawPoseImage, EASING_FUNCTIONS, PoseBlend } from "./transitions";
+import { ModValues } from "./modulation";
+import { VisualizerState, drawVisualizer } from "./visualizer";
+
+// Shared scene drawing used by both the live preview and the offline exporter.
+
+export type Rng = () => number;
+
+/**
+ * Small seeded PRNG (mulberry32). Offline exports use it instead of
+ * Math.random so the same inputs always render the same video.
+ */
+export const createRng = (seed: number): Rng => {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6D2B79F5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const SHUFFLE_SEED = 7;
+
+/**
+ * Pose ids of a keyframe set: base plus `count - 1` variations.
+ */
+export const keyframePoses = (count: number): PoseType[] => [
+  'base',
+  ...Array.from({ length: Math.max(0, count - 1) }, (_, i): PoseType => `var${i + 1}`),
+];
+
+/**
+ * Orders the keyframes into the playback loop.
+ * Ping-pong ensures smooth transitions: Base -> Var1 -> ... -> VarN -> ... -> Var1 -> Base
+ */
+export const buildSequence = (poses: PoseType[], order: SequenceOrder): PoseType[] => {
+  switch (order) {
+    case 'forward':
+      return [...poses];
+    case 'shuffle': {
+      const rng = createRng(SHUFFLE_SEED);
+      const shuffled = [...poses];
+      for (let i = shuffled.length - 1; i > 0; i--) {
+        const j = Math.floor(rng() * (i + 1));
+        [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+      }
+      return shuffled;
+    }
+    case 'pingpong':
+    default:
+      return [...poses, ...poses.slice(1, -1).reverse()];
+  }
+};
+
+export interface ChoreographyState {
+  sequence: PoseType[];
+  sequenceIndex: number;
+  pose: PoseType;
+  step: number | null; // Last grid step or timeline cue the sequencer snapped to
+  beatFlash: number;
+  // Last pose change, drives the transition into `pose`
+  previousPose: PoseType | null;
+  changeTime: number; // Audio time of the change, seconds
+  blendable: boolean; // False for hard-cut timeline cues
+  poseOffset: number; // Extra steps from the pose advance modulation
+}
+
+export const createChoreographyState = (sequence: PoseType[]): ChoreographyState => {
+  const safeSequence: PoseType[] = sequence.length > 0 ? sequence : ['base'];
+  return {
+    sequence: safeSequence,
+    sequenceIndex: 0,
+    pose: safeSequence[0],
+    step: null,
+    beatFlash: 0,
+    previousPose: null,
+    changeTime: 0,
+    blendable: true,
+    poseOffset: 0,
+  };
+};
+
+/**
+ * Advances the sequencer on a detected beat. Used when no beat grid is available.
+ */
+export const stepChoreography = (state: ChoreographyState, isBeat: boolean, time = 0) => {
+  if (!isBeat) return;
+
+  state.beatFlash = 1.0;
+  state.previousPose = state.pose;
+  state.changeTime = time;
+  state.blendable = true;
+  state.sequenceIndex = (state.sequenceIndex + 1) % state.sequence.length;
+  state.pose = state.sequence[state.sequenceIndex];
+};
+
+/**
+ * Snaps the sequencer to a beat-grid step (see gridStepAt), so the pose is a
+ * pure function of playback time and changes land exactly on the grid.
+ * `stepTime` is where the step starts, transitions are measured from it.
+ */
+export const syncChoreography = (state: ChoreographyState, gridStep: number, stepTime = 0) => {
+  if (gridStep === state.step) return;
+
+  const length = state.sequence.length;
+  const wrap = (i: number) => ((i % length) + length) % length;
+  state.step = gridStep;
+  state.beatFlash = 1.0;
+  state.sequenceIndex = wrap(gridStep);
+  state.pose = state.sequence[state.sequenceIndex];
+  state.previousPose = state.sequence[wrap(gridStep - 1)];
+  state.changeTime = stepTime;
+  state.blendable = true;
+};
+
+/**
+ * Index of the cue active at `time` (the last one at or before it), -1 before the first cue.
+ */
+export const cueIndexAt = (cues: ChoreographyCue[], time: number): number => {
+  let index = -1;
+  for (let i = 0; i < cues.length && cues[i].time <= time + 1e-6; i++) index = i;
+  return index;
+};
+
+/**
+ * Follows a user-authored timeline. Before the first cue the base pose is shown.
+ */
+export const syncTimeline = (state: ChoreographyState, cues: ChoreographyCue[], time: number) => {
+  const index = cueIndexAt(cues, time);
+  if (index === state.step) return;
+
+  state.step = index;
+  state.sequenceIndex = Math.max(0, index);
+  state.pose = index >= 0 ? cues[index].pose : 'base';
+  state.previousPose = index > 0 ? cues[index - 1].pose : index === 0 ? 'base' : null;
+  state.changeTime = index >= 0 ? cues[index].time : 0;
+  state.blendable = index < 0 || cues[index].transition !== 'cut';
+  if (index >= 0 && cues[index].transition === 'flash') state.beatFlash = 1.0;
+};
+
+export interface ChoreographyInput {
+  time: number; // Audio position, seconds
+  isBeat: boolean; // Detected beat, used without grid or timeline
+  cues: ChoreographyCue[];
+  analysis: TrackAnalysis | null;
+  beatDivision: BeatDivision;
+  advance?: boolean; // Pose advance modulation fired this frame
+}
+
+/**
+ * Picks the pose for this frame: the timeline if one is authored, else the
+ * automatic sequence on the beat grid, else detected beats.
+ */
+export const advanceChoreography = (state: ChoreographyState, input: ChoreographyInput) => {
+  if (input.cues.length > 0) {
+    syncTimeline(state, input.cues, input.time);
+  } else if (input.analysis) {
+    // Advances shift the whole grid sequence, so it keeps changing on the grid afterwards
+    if (input.advance) state.poseOffset++;
+    const gridStep = gridStepAt(input.analysis, input.beatDivision, input.time);
+    const { step, anchor } = beatGrid(input.analysis, input.beatDivision);
+    syncChoreography(state, gridStep + state.poseOffset, input.advance ? input.time : anchor + gridStep * step);
+  } else {
+    stepChoreography(state, input.isBeat || !!input.advance, input.time);
+  }
+};
+
+export const currentPose = (state: ChoreographyState): PoseType => state.pose;
+
+export const DEFAULT_BEAT_PERIOD = 0.5; // 120 BPM, used without a beat grid
+
+/**
+ * Sub-beat position of the running pose change: the previous pose and how far
+ * (eased, 0-1) the transition into the current one has progressed at `time`.
+ * Transition length is given in beats, so it follows the tempo.
+ */
+export const poseBlendAt = (
+  state: ChoreographyState,
+  time: number,
+  settings: PoseTransitionSettings,
+  beatPeriod: number = DEFAULT_BEAT_PERIOD
+): { from: PoseType; amount: number } | null => {
+  if (settings.mode === 'cut' || !state.blendable || !state.previousPose || state.previousPose === state.pose) return null;
+
+  const duration = settings.beats * beatPeriod;
+  const progress = duration > 0 ? (time - state.changeTime) / duration : 1;
+  if (progress >= 1 || progress < 0) return null;
+  return { from: state.previousPose, amount: EASING_FUNCTIONS[settings.easing](progress) };
+};
+
+/**
+ * Resolves poseBlendAt into images for drawScene.
+ */
+export const resolvePoseBlend = (
+  state: ChoreographyState,
+  time: number,
+  settings: PoseTransitionSettings,
+  beatPeriod: number | undefined,
+  poseImages: Record<string, HTMLImageElement>
+): PoseBlend | undefined => {
+  const blend = poseBlendAt(state, time, settings, beatPeriod);
+  const from = blend && (poseImages[blend.from] || poseImages['base']);
+  if (!blend || !from) return undefined;
+  return {
+    from,
+    amount: blend.amount,
+    mode: settings.mode,
+    direction: state.sequenceIndex % 2 === 0 ? 1 : -1,
+  };
+};
+
+// Layer behind a segmented subject
+export interface BackgroundLayer {
+  source: HTMLImageElement | HTMLVideoElement;
+  fit: 'contain' | 'cover'; // contain lines a clean plate up with the subject, cover fills the frame
+  effect: BackgroundEffect;
+}
+
+const PARALLAX_DEPTH = 0.5; // Background moves this much against the subject shake
+const PARALLAX_DRIFT = 0.015; // Slow sway, fraction of the frame width
+
+const sourceSize = (source: HTMLImageElement | HTMLVideoElement) =>
+  source instanceof HTMLVideoElement
+    ? { width: source.videoWidth, height: source.videoHeight }
+    : { width: source.width, height: source.height };
+
+const drawBackground = (
+  ctx: CanvasRenderingContext2D,
+  width: number,
+  height: number,
+  layer: BackgroundLayer,
+  frame: SceneFrame,
+  shakeX: number,
+  shakeY: number
+) => {
+  const size = sourceSize(layer.source);
+  if (!size.width || !size.height) return; // Video not decoded yet
+
+  const fit = layer.fit === 'cover' ? Math.max : Math.min;
+  let scale = fit(width / size.width, height / size.height);
+  let offsetX = 0;
+  let offsetY = 0;
+  if (layer.effect === 'parallax') {
+    // Slight overscan so the drift never reveals an edge
+    scale *= 1 + PARALLAX_DRIFT * 2 + frame.bassLevel * 0.01;
+    offsetX = -shakeX * PARALLAX_DEPTH + Math.sin(frame.time / 1300) * width * PARALLAX_DRIFT;
+    offsetY = -shakeY * PARALLAX_DEPTH;
+  }
+
+  const drawW = size.width * scale;
+  const drawH = size.height * scale;
+  ctx.drawImage(layer.source, (width - drawW) / 2 + offsetX, (height - drawH) / 2 + offsetY, drawW, drawH);
+
+  if (layer.effect === 'colorPulse') {
+    // Hue walks slowly, the bass sets how strongly it tints
+    const hue = (frame.time / 40) % 360;
+    ctx.globalCompositeOperation = 'overlay';
+    ctx.fillStyle = `hsla(${hue}, 90%, 55%, ${0.15 + frame.bassLevel * 0.5})`;
+    ctx.fillRect(0, 0, width, height);
+    ctx.globalCompositeOperation = 'source-over';
+  }
+};
+
+const FILL_BLUR = 0.03; // Fraction of the short side
+const FILL_OVERSCAN = 1.1; // Hides the blur fading out at the edges
+
+/**
+ * Scale that places a frame in the output for the given framing.
+ */
+export const framingScale = (framing: FramingMode, img: HTMLImageElement, width: number, height: number) =>
+  (framing === 'crop' ? Math.max : Math.min)(width / img.width, height / img.height);
+
+/**
+ * Fill framing: a blurred, darkened cover copy of the frame under the bars.
+ */
+export const drawFramingFill = (ctx: CanvasRenderingContext2D, img: HTMLImageElement, width: number, height: number) => {
+  const scale = Math.max(width / img.width, height / img.height) * FILL_OVERSCAN;
+  const drawW = img.width * scale;
+  const drawH = img.height * scale;
+  ctx.save();
+  ctx.filter = `blur(${Math.round(Math.min(width, height) * FILL_BLUR)}px) brightness(0.6)`;
+  ctx.drawImage(img, (width - drawW) / 2, (height - drawH) / 2, drawW, drawH);
+  ctx.restore();
+};
+
+// A scene layer resolved for one frame, see services/sceneLayers.ts
+export interface LayerFrame {
+  img: HTMLImageElement;
+  x: number; // Center, 0-1 of the frame width
+  y: number; // Center, 0-1 of the frame height
+  scale: number; // Fraction of the fitted size, thump included
+  z: number; // Negative = behind the main subject
+}
+
+// Layers share the camera shake with the subject
+const drawLayer = (
+  ctx: CanvasRenderingContext2D,
+  width: number,
+  height: number,
+  layer: LayerFrame,
+  shakeX: number,
+  shakeY: number
+) => {
+  const scale = Math.min(width / layer.img.width, height / layer.img.height) * layer.scale;
+  const drawW = layer.img.width * scale;
+  const drawH = layer.img.height * scale;
+  ctx.drawImage(layer.img, layer.x * width - drawW / 2 + shakeX, layer.y * height - drawH / 2 + shakeY, drawW, drawH);
+};
+
+export interface SceneFrame {
+  img: HTMLImageElement | undefined;
+  bassLevel: number; // 0.0 to 1.0
+  time: number; // ms
+  deltaTime: number; // ms since the previous frame
+  spectrum: Uint8Array | null; // null hides the visualizer
+  waveform?: Uint8Array | null; // Time-domain bytes for the oscilloscope
+  sampleRate?: number; // Of the spectrum, ANALYSIS_SAMPLE_RATE when omitted
+  visualizer?: { settings: VisualizerSettings; state: VisualizerState }; // Omitted = no visualizer
+  beat?: boolean; // Detected beat or beat grid crossing, bursts the visualizer particles
+  blend?: PoseBlend; // Running transition from the previous pose
+  background?: BackgroundLayer; // Drawn under the (cut out) subject
+  layers?: LayerFrame[]; // Extra subjects, sorted by z
+  framing?: FramingMode; // Placement of the subject in the output, fit by default
+  mod: ModValues; // Modulation matrix output, see evaluateModulation
+}
+
+/**
+ * Draws one frame of the dancer: background layer (or the fill framing), the modulated subject
+ * (scale/rotation/shake/hue/blur) between the scene layers, beat flash and
+ * the configured visualizer.
+ * Mutates `state.beatFlash` (decay) so the caller keeps a single choreography state.
+ */
+export const drawScene = (
+  ctx: CanvasRenderingContext2D,
+  width: number,
+  height: number,
+  frame: SceneFrame,
+  state: ChoreographyState,
+  rng: Rng
+) => {
+  const { img, time, spectrum, mod } = frame;
+  const framing = frame.framing ?? 'fit';
+
+  // 1. Clear
+  ctx.fillStyle = '#000';
+  ctx.fillRect(0, 0, width, height);
+
+  // Center and apply the modulated shake
+  let shakeX = 0;
+  let shakeY = 0;
+  if (Math.abs(mod.shake) > 0.01) {
+    shakeX = (rng() - 0.5) * mod.shake;
+    shakeY = (rng() - 0.5) * mod.shake;
+  }
+
+  // 2. Background layer, only set for segmented frames or a replacement
+  if (frame.background) drawBackground(ctx, width, height, frame.background, frame, shakeX, shakeY);
+  else if (img && framing === 'fill') drawFramingFill(ctx, img, width, height);
+  const layers = frame.layers ?? [];
+  layers.filter(l => l.z < 0).forEach(l => drawLayer(ctx, width, height, l, shakeX, shakeY));
+
+  // 3. Draw Image with "Thump" Scale
+  if (img) {
+    const scale = framingScale(framing, img, width, height) * Math.max(0.1, 1 + mod.scale);
+
+    const drawW = img.width * scale;
+    const drawH = img.height * scale;
+
+    ctx.save();
+    ctx.translate(width / 2 + shakeX, height / 2 + shakeY);
+
+    // Idle sway plus modulated tilt, alternating direction per pose
+    const rotation = Math.sin(time / 500) * 0.01 + (mod.rotation * (state.sequenceIndex % 2 === 0 ? 1 : -1));
+    ctx.rotate(rotation);
+
+    const filters = [
+      Math.abs(mod.hue) > 0.5 ? `hue-rotate(${mod.hue.toFixed(1)}deg)` : '',
+      Math.abs(mod.blur) > 0.1 ? `blur(${Math.abs(mod.blur).toFixed(1)}px)` : '',
+    ].filter(Boolean);
+    if (filters.length > 0) ctx.filter = filters.join(' ');
+
+    drawPoseImage(ctx, img, frame.blend, -drawW / 2, -drawH / 2, drawW, drawH);
+    ctx.restore();
+  }
+  layers.filter(l => l.z >= 0).forEach(l => drawLayer(ctx, width, height, l, shakeX, shakeY));
+
+  // 4. Beat Flash Overlay: pose change flash plus the flash target
+  if (state.beatFlash > 0.01) {
+    // Fast decay, normalised to 60fps so preview and export fade alike
+    state.beatFlash *= Math.pow(0.85, frame.deltaTime / (1000 / 60));
+  }
+  const flash = Math.min(1, (state.beatFlash > 0.01 ? state.beatFlash : 0) + Math.max(0, mod.flash));
+  if (flash > 0.01) {
+    ctx.globalCompositeOperation = 'overlay';
+    ctx.fillStyle = `rgba(255, 255, 255, ${flash * 0.15})`;
+    ctx.fillRect(0, 0, width, height);
+    ctx.globalCompositeOperation = 'source-over';
+  }
+
+  // 5. Visualizer, particles burst on every beat
+  if (spectrum && frame.visualizer) {
+    drawVisualizer(ctx, width, height, frame.visualizer.settings, {
+      spectrum,
+      waveform: frame.waveform ?? null,
+      sampleRate: frame.sampleRate ?? ANALYSIS_SAMPLE_RATE,
+      beat: !!frame.beat,
+      deltaTime: frame.deltaTime,
+    }, frame.visualizer.state, rng);
+  }
+};
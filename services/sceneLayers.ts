@@ -0,0 +1,120 @@
+import { SceneLayer } from '../types';
+import { AudioBands } from './modulation';
+import { LayerFrame } from './renderer';
+import { applyMask } from './segmentation';
+import { loadImage } from './localGenerator';
+
+// Extra subjects composited with the main one. Every layer listens to one
+// band: a hit on it steps to the layer's next pose, the level drives a scale
+// thump. Shared by the live preview and the exporter.
+
+const HIT_RATIO = 1.5; // Level over the running average that counts as a hit
+const MIN_HIT_LEVEL = 0.08;
+const HIT_COOLDOWN = 150; // ms
+const AVERAGE_DECAY = 0.95; // Per 60fps frame
+const THUMP = 0.15; // Extra scale at full level and reactivity
+
+export const createLayerId = () => `layer-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+/**
+ * New layer in front of everything else, centred and at a third of the frame.
+ */
+export const createSceneLayer = (imageUrl: string, name: string, layers: SceneLayer[]): SceneLayer => ({
+  id: createLayerId(),
+  name,
+  imageUrl,
+  frames: [],
+  x: 0.5,
+  y: 0.5,
+  scale: 0.35,
+  z: Math.max(0, ...layers.map(l => l.z)) + 1,
+  band: 'highs',
+  reactivity: 0.5,
+  cutout: true,
+  visible: true,
+});
+
+export interface LoadedLayer {
+  layer: SceneLayer;
+  images: HTMLImageElement[]; // Pose set in order, base first
+}
+
+/**
+ * Decodes a layer's pose set, cut out when the layer asks for it. Frames that
+ * fail to load are skipped.
+ */
+export const loadLayerImages = async (layer: SceneLayer): Promise<HTMLImageElement[]> => {
+  if (layer.frames.length === 0) return [await loadImage(layer.imageUrl)];
+  const images = await Promise.all(layer.frames.map(frame =>
+    (layer.cutout && frame.maskUrl ? applyMask(frame.url, frame.maskUrl) : loadImage(frame.url)).catch(e => {
+      console.error(`Failed to load ${layer.name} frame ${frame.pose}`, e);
+      return null;
+    })
+  ));
+  return images.filter((img): img is HTMLImageElement => img !== null);
+};
+
+interface LayerMotion {
+  pose: number; // Index into the pose set
+  average: number; // Running band level
+  armed: boolean; // Level fell back since the last hit
+  cooldown: number; // ms until the next hit may count
+}
+
+export type LayerMotionState = Map<string, LayerMotion>;
+
+export const createLayerMotion = (): LayerMotionState => new Map();
+
+const visibleLayers = (layers: LoadedLayer[]) => layers.filter(({ layer, images }) => layer.visible && images.length > 0);
+
+const toFrame = (layer: SceneLayer, img: HTMLImageElement, level: number): LayerFrame => ({
+  img,
+  x: layer.x,
+  y: layer.y,
+  scale: layer.scale * (1 + level * layer.reactivity * THUMP),
+  z: layer.z,
+});
+
+const byZ = (a: LayerFrame, b: LayerFrame) => a.z - b.z;
+
+/**
+ * Advances every visible layer by one frame and returns them ready for
+ * drawScene, sorted by z.
+ */
+export const advanceLayers = (
+  motion: LayerMotionState,
+  layers: LoadedLayer[],
+  bands: AudioBands,
+  deltaTime: number
+): LayerFrame[] => {
+  const decay = Math.pow(AVERAGE_DECAY, deltaTime / (1000 / 60));
+  return visibleLayers(layers)
+    .map(({ layer, images }) => {
+      let state = motion.get(layer.id);
+      if (!state) {
+        state = { pose: 0, average: 0, armed: true, cooldown: 0 };
+        motion.set(layer.id, state);
+      }
+
+      const level = bands[layer.band];
+      state.cooldown = Math.max(0, state.cooldown - deltaTime);
+      if (state.armed && state.cooldown === 0 && level > MIN_HIT_LEVEL && level > state.average * HIT_RATIO) {
+        state.pose++;
+        state.armed = false;
+        state.cooldown = HIT_COOLDOWN;
+      } else if (level < state.average * 1.1) {
+        state.armed = true;
+      }
+      state.average = state.average * decay + level * (1 - decay);
+
+      return toFrame(layer, images[state.pose % images.length], level);
+    })
+    .sort(byZ);
+};
+
+/**
+ * Layers for the silent loop export: each holds its first pose and only
+ * thumps, so the loop stays seamless.
+ */
+export const holdLayers = (layers: LoadedLayer[], bands: AudioBands): LayerFrame[] =>
+  visibleLayers(layers).map(({ layer, images }) => toFrame(layer, images[0], bands[layer.band])).sort(byZ);
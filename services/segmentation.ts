@@ -0,0 +1,289 @@
+import type { InferenceSession } from 'onnxruntime-web';
+import { GeneratedFrame, SegmentationSource } from '../types';
+import { SEGMENTATION_MODEL_URL } from '../constants';
+import { loadImage } from './localGenerator';
+
+// Subject/background split for layered compositing. Each frame gets a soft
+// grayscale mask (white = subject), either from a salient object model run
+// on-device with ONNX Runtime or from the frame generator. At playback the
+// mask becomes the alpha channel of a cutout, and the base frame's mask is
+// used to paint the subject out of its background (clean plate), so the
+// background layer can stay static or get its own effects.
+
+const MODEL_SIZE = 320; // U²-Net input resolution
+const MODEL_MEAN = [0.485, 0.456, 0.406]; // ImageNet normalization
+const MODEL_STD = [0.229, 0.224, 0.225];
+const PLATE_SIZE = 512; // Working size of the hole fill, longest side
+const PLATE_DILATE = 0.02; // Grow the hole past the mask edge, fraction of the longest side
+const MASK_THRESHOLD = 64; // Mask values above this count as subject for the plate
+
+/**
+ * Returns a subject mask for an image as a data URL, or null when the
+ * provider produced nothing.
+ */
+export type MaskProvider = (imageUrl: string, signal?: AbortSignal) => Promise<string | null>;
+
+const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error("Could not create segmentation canvas.");
+  return { canvas, ctx };
+};
+
+// --- ON-DEVICE MODEL ---
+
+interface LoadedModel {
+  ort: typeof import('onnxruntime-web');
+  session: InferenceSession;
+}
+
+let modelPromise: Promise<LoadedModel> | null = null;
+
+// The runtime and weights are only fetched the first time a mask is needed
+const loadModel = (): Promise<LoadedModel> => {
+  if (!modelPromise) {
+    modelPromise = import('onnxruntime-web').then(async ort => ({
+      ort,
+      session: await ort.InferenceSession.create(SEGMENTATION_MODEL_URL),
+    }));
+    modelPromise.catch(() => { modelPromise = null; });
+  }
+  return modelPromise;
+};
+
+const localMask = async (imageUrl: string): Promise<string> => {
+  const [{ ort, session }, img] = await Promise.all([
+    loadModel().catch(error => {
+      throw new Error(`Could not load the segmentation model from ${SEGMENTATION_MODEL_URL}: ${error instanceof Error ? error.message : error}`);
+    }),
+    loadImage(imageUrl),
+  ]);
+
+  // RGB planes, normalized, squeezed into the square model input
+  const { ctx: inputCtx } = createCanvas(MODEL_SIZE, MODEL_SIZE);
+  inputCtx.drawImage(img, 0, 0, MODEL_SIZE, MODEL_SIZE);
+  const pixels = inputCtx.getImageData(0, 0, MODEL_SIZE, MODEL_SIZE).data;
+  const plane = MODEL_SIZE * MODEL_SIZE;
+  const input = new Float32Array(plane * 3);
+  for (let i = 0; i < plane; i++) {
+    for (let c = 0; c < 3; c++) {
+      input[c * plane + i] = (pixels[i * 4 + c] / 255 - MODEL_MEAN[c]) / MODEL_STD[c];
+    }
+  }
+
+  const outputs = await session.run({
+    [session.inputNames[0]]: new ort.Tensor('float32', input, [1, 3, MODEL_SIZE, MODEL_SIZE]),
+  });
+  // First output is the fused saliency map
+  const saliency = outputs[session.outputNames[0]].data as Float32Array;
+
+  let min = Infinity;
+  let max = -Infinity;
+  for (let i = 0; i < plane; i++) {
+    min = Math.min(min, saliency[i]);
+    max = Math.max(max, saliency[i]);
+  }
+  const range = max - min || 1;
+
+  const { canvas: maskCanvas, ctx: maskCtx } = createCanvas(MODEL_SIZE, MODEL_SIZE);
+  const mask = maskCtx.createImageData(MODEL_SIZE, MODEL_SIZE);
+  for (let i = 0; i < plane; i++) {
+    const value = Math.round(((saliency[i] - min) / range) * 255);
+    mask.data[i * 4] = mask.data[i * 4 + 1] = mask.data[i * 4 + 2] = value;
+    mask.data[i * 4 + 3] = 255;
+  }
+  maskCtx.putImageData(mask, 0, 0);
+
+  // Back to the frame size, smoothing softens the upscaled edge
+  const { canvas, ctx } = createCanvas(img.naturalWidth, img.naturalHeight);
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(maskCanvas, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL('image/png');
+};
+
+// --- FRAMES ---
+
+/**
+ * Attaches a subject mask to the frame. Frames that already have one are
+ * returned unchanged.
+ */
+export const segmentFrame = async (
+  frame: GeneratedFrame,
+  source: SegmentationSource,
+  provider?: MaskProvider,
+  signal?: AbortSignal
+): Promise<GeneratedFrame> => {
+  if (source === 'off' || frame.maskUrl) return frame;
+
+  let maskUrl: string | null;
+  if (source === 'provider') {
+    if (!provider) throw new Error("The selected frame generator cannot create masks. Use the on-device model instead.");
+    maskUrl = await provider(frame.url, signal);
+  } else {
+    maskUrl = await localMask(frame.url);
+  }
+  if (!maskUrl) throw new Error(`No mask was returned for ${frame.pose}.`);
+  return { ...frame, maskUrl };
+};
+
+/**
+ * Segments every frame without a mask, one at a time. The model and
+ * providers are heavy enough that parallel runs only add memory pressure.
+ */
+export const segmentFrames = async (
+  frames: GeneratedFrame[],
+  source: SegmentationSource,
+  provider?: MaskProvider,
+  signal?: AbortSignal
+): Promise<GeneratedFrame[]> => {
+  const segmented: GeneratedFrame[] = [];
+  for (const frame of frames) segmented.push(await segmentFrame(frame, source, provider, signal));
+  return segmented;
+};
+
+// --- COMPOSITING ---
+
+// Mask luminance at the image size
+const maskValues = (mask: HTMLImageElement, width: number, height: number): Uint8ClampedArray => {
+  const { ctx } = createCanvas(width, height);
+  ctx.drawImage(mask, 0, 0, width, height);
+  return ctx.getImageData(0, 0, width, height).data;
+};
+
+/**
+ * The frame with its mask as alpha channel, ready to draw over a background.
+ */
+export const applyMask = async (imageUrl: string, maskUrl: string): Promise<HTMLImageElement> => {
+  const [img, mask] = await Promise.all([loadImage(imageUrl), loadImage(maskUrl)]);
+  const width = img.naturalWidth;
+  const height = img.naturalHeight;
+
+  const { canvas, ctx } = createCanvas(width, height);
+  ctx.drawImage(img, 0, 0);
+  const pixels = ctx.getImageData(0, 0, width, height);
+  const alpha = maskValues(mask, width, height);
+  for (let i = 0; i < pixels.data.length; i += 4) {
+    pixels.data[i + 3] = Math.round((pixels.data[i + 3] * (alpha[i] * 0.299 + alpha[i + 1] * 0.587 + alpha[i + 2] * 0.114)) / 255);
+  }
+  ctx.putImageData(pixels, 0, 0);
+  return loadImage(canvas.toDataURL('image/png'));
+};
+
+/**
+ * Push-pull hole fill: average the known pixels down an image pyramid, then
+ * fill every unknown pixel from the next coarser level on the way back up.
+ */
+const fillHoles = (pixels: Uint8ClampedArray, hole: Uint8Array, width: number, height: number) => {
+  interface Level { w: number; h: number; color: Float32Array; known: Uint8Array }
+
+  const first: Level = { w: width, h: height, color: new Float32Array(width * height * 3), known: new Uint8Array(width * height) };
+  for (let i = 0; i < width * height; i++) {
+    first.known[i] = hole[i] ? 0 : 1;
+    for (let c = 0; c < 3; c++) first.color[i * 3 + c] = pixels[i * 4 + c];
+  }
+
+  const levels = [first];
+  let level = first;
+  while ((level.w > 1 || level.h > 1) && level.known.includes(0)) {
+    const w = Math.ceil(level.w / 2);
+    const h = Math.ceil(level.h / 2);
+    const next: Level = { w, h, color: new Float32Array(w * h * 3), known: new Uint8Array(w * h) };
+    for (let y = 0; y < h; y++) {
+      for (let x = 0; x < w; x++) {
+        const sum = [0, 0, 0];
+        let count = 0;
+        for (let oy = 0; oy < 2; oy++) {
+          for (let ox = 0; ox < 2; ox++) {
+            const sx = x * 2 + ox;
+            const sy = y * 2 + oy;
+            if (sx >= level.w || sy >= level.h) continue;
+            const si = sy * level.w + sx;
+            if (!level.known[si]) continue;
+            for (let c = 0; c < 3; c++) sum[c] += level.color[si * 3 + c];
+            count++;
+          }
+        }
+        const i = y * w + x;
+        if (count > 0) {
+          next.known[i] = 1;
+          for (let c = 0; c < 3; c++) next.color[i * 3 + c] = sum[c] / count;
+        }
+      }
+    }
+    levels.push(next);
+    level = next;
+  }
+
+  for (let l = levels.length - 2; l >= 0; l--) {
+    const fine = levels[l];
+    const coarse = levels[l + 1];
+    for (let y = 0; y < fine.h; y++) {
+      for (let x = 0; x < fine.w; x++) {
+        const i = y * fine.w + x;
+        if (fine.known[i]) continue;
+        const ci = (y >> 1) * coarse.w + (x >> 1);
+        for (let c = 0; c < 3; c++) fine.color[i * 3 + c] = coarse.color[ci * 3 + c];
+        fine.known[i] = 1;
+      }
+    }
+  }
+
+  for (let i = 0; i < width * height; i++) {
+    if (!hole[i]) continue;
+    for (let c = 0; c < 3; c++) pixels[i * 4 + c] = first.color[i * 3 + c];
+  }
+};
+
+/**
+ * The base frame with its subject painted out, used as the static background
+ * layer behind the cutouts. The fill is blurry but sits behind the subject,
+ * only its edges show while the subject moves.
+ */
+export const createCleanPlate = async (imageUrl: string, maskUrl: string): Promise<HTMLImageElement> => {
+  const [img, mask] = await Promise.all([loadImage(imageUrl), loadImage(maskUrl)]);
+  const width = img.naturalWidth;
+  const height = img.naturalHeight;
+  const scale = Math.min(1, PLATE_SIZE / Math.max(width, height));
+  const w = Math.max(1, Math.round(width * scale));
+  const h = Math.max(1, Math.round(height * scale));
+
+  // Hole = thresholded mask, dilated so the subject's soft edge goes too
+  const alpha = maskValues(mask, w, h);
+  const radius = Math.max(1, Math.round(Math.max(w, h) * PLATE_DILATE));
+  const solid = new Uint8Array(w * h);
+  for (let i = 0; i < w * h; i++) solid[i] = alpha[i * 4] > MASK_THRESHOLD ? 1 : 0;
+  const rows = new Uint8Array(w * h);
+  const hole = new Uint8Array(w * h);
+  for (let y = 0; y < h; y++) {
+    for (let x = 0; x < w; x++) {
+      for (let k = Math.max(0, x - radius); k <= Math.min(w - 1, x + radius) && !rows[y * w + x]; k++) {
+        if (solid[y * w + k]) rows[y * w + x] = 1;
+      }
+    }
+  }
+  for (let y = 0; y < h; y++) {
+    for (let x = 0; x < w; x++) {
+      for (let k = Math.max(0, y - radius); k <= Math.min(h - 1, y + radius) && !hole[y * w + x]; k++) {
+        if (rows[k * w + x]) hole[y * w + x] = 1;
+      }
+    }
+  }
+
+  const { canvas: fillCanvas, ctx: fillCtx } = createCanvas(w, h);
+  fillCtx.drawImage(img, 0, 0, w, h);
+  const pixels = fillCtx.getImageData(0, 0, w, h);
+  fillHoles(pixels.data, hole, w, h);
+  for (let i = 0; i < w * h; i++) pixels.data[i * 4 + 3] = hole[i] ? 255 : 0;
+  fillCtx.putImageData(pixels, 0, 0);
+
+  // Upscaled fill over the full resolution original, smoothing feathers the seam
+  const { canvas, ctx } = createCanvas(width, height);
+  ctx.drawImage(img, 0, 0);
+  ctx.imageSmoothingQuality = 'high';
+  ctx.filter = `blur(${Math.max(1, Math.round(radius / scale / 2))}px)`;
+  ctx.drawImage(fillCanvas, 0, 0, width, height);
+  ctx.filter = 'none';
+  return loadImage(canvas.toDataURL('image/png'));
+};
@@ -0,0 +1,158 @@
+import { ModSource, PostEffect, PostEffectType, StylePreset } from '../types';
+import { MOD_SOURCES, POST_EFFECTS, STYLE_PRESETS } from '../constants';
+import { STYLE_STORE, openDb, requestResult, transactionDone } from './localDb';
+import { resolveFrameGenerator } from './frameGenerator';
+import { withRetry } from './jobRunner';
+import { loadImage } from './localGenerator';
+
+// User style presets. They live in the local IndexedDB next to the projects
+// and travel as plain JSON files, so a team can keep a shared house style
+// library. Images (thumbnail, reference) are embedded as data URLs.
+
+export const STYLE_FILE_EXTENSION = 'json';
+const STYLE_FILE_VERSION = 1;
+const THUMBNAIL_SIZE = 160;
+const REFERENCE_SIZE = 768; // Enough for conditioning, keeps files small
+
+interface StyleFile {
+  app: 'rhythmloop';
+  kind: 'styles';
+  version: number;
+  presets: StylePreset[];
+}
+
+// Neutral move used for the sample render, so the thumbnail shows the style and not a pose
+const SAMPLE_MOVE = { pose: 'var1', prompt: 'The subject in a relaxed, neutral pose, facing the camera.' } as const;
+
+export const createStyleId = () =>
+  `style-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+export const isCustomStyle = (id: string) => !STYLE_PRESETS.some(s => s.id === id);
+
+/**
+ * Built-in presets first, then the user's.
+ */
+export const allStyles = (custom: StylePreset[]): StylePreset[] => [...STYLE_PRESETS, ...custom];
+
+export const findStyle = (id: string, custom: StylePreset[]): StylePreset | undefined =>
+  allStyles(custom).find(s => s.id === id);
+
+/**
+ * Downscaled JPEG copy of an image, used for thumbnails and reference images.
+ */
+export const shrinkImage = async (url: string, maxSize: number): Promise<string> => {
+  const img = await loadImage(url);
+  const scale = Math.min(1, maxSize / Math.max(img.naturalWidth, img.naturalHeight));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(img.naturalWidth * scale));
+  canvas.height = Math.max(1, Math.round(img.naturalHeight * scale));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Could not create canvas.");
+  ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL('image/jpeg', 0.85);
+};
+
+export const shrinkReferenceImage = (url: string) => shrinkImage(url, REFERENCE_SIZE);
+
+/**
+ * Renders the base image once in the preset's style and returns a thumbnail.
+ */
+export const renderStyleThumbnail = async (
+  generatorId: string,
+  baseImage: string,
+  preset: StylePreset,
+  signal?: AbortSignal
+): Promise<string> => {
+  const generator = resolveFrameGenerator(generatorId);
+  const request = {
+    baseImage,
+    stylePrompt: preset.promptModifier,
+    styleReference: preset.referenceImage,
+    motionPrompt: 'Hold still',
+    keyframeCount: 2,
+  };
+  const frame = await withRetry(() => generator.renderFrame(request, SAMPLE_MOVE, signal), { signal });
+  if (!frame) throw new Error("No sample image was generated for this style.");
+  return shrinkImage(frame.url, THUMBNAIL_SIZE);
+};
+
+/**
+ * Saved presets, most recently edited last.
+ */
+export const listCustomStyles = async (): Promise<StylePreset[]> => {
+  const db = await openDb();
+  const presets = await requestResult<StylePreset[]>(
+    db.transaction(STYLE_STORE, 'readonly').objectStore(STYLE_STORE).getAll()
+  );
+  return presets.sort((a, b) => (a.updatedAt ?? 0) - (b.updatedAt ?? 0));
+};
+
+export const saveCustomStyles = async (presets: StylePreset[]): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(STYLE_STORE, 'readwrite');
+  presets.forEach(preset => tx.objectStore(STYLE_STORE).put(preset));
+  await transactionDone(tx);
+};
+
+export const deleteCustomStyle = async (id: string): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(STYLE_STORE, 'readwrite');
+  tx.objectStore(STYLE_STORE).delete(id);
+  await transactionDone(tx);
+};
+
+export const exportStyles = (presets: StylePreset[]): Blob => {
+  const file: StyleFile = { app: 'rhythmloop', kind: 'styles', version: STYLE_FILE_VERSION, presets };
+  return new Blob([JSON.stringify(file, null, 2)], { type: 'application/json' });
+};
+
+const EFFECT_TYPES = new Set<string>(POST_EFFECTS.map(e => e.id));
+const SOURCES = new Set<string>(MOD_SOURCES.map(s => s.id));
+const clamp01 = (value: unknown) => typeof value === 'number' && isFinite(value) ? Math.min(1, Math.max(0, value)) : 0;
+const text = (value: unknown) => typeof value === 'string' ? value : '';
+
+// Unknown effect types (from newer versions) are dropped instead of failing the import
+const readEffects = (value: unknown): PostEffect[] =>
+  (Array.isArray(value) ? value : [])
+    .filter(e => e && EFFECT_TYPES.has(e.type))
+    .map(e => ({
+      type: e.type as PostEffectType,
+      amount: clamp01(e.amount),
+      source: (SOURCES.has(e.source) ? e.source : 'bass') as ModSource,
+      reactivity: clamp01(e.reactivity),
+    }));
+
+/**
+ * Reads a style file (one preset or a whole library). Presets that reuse a
+ * built-in id get a fresh one; custom ids are kept so re-importing an updated
+ * library replaces the older copies.
+ */
+export const importStyles = async (file: File): Promise<StylePreset[]> => {
+  let parsed: Partial<StyleFile>;
+  try {
+    parsed = JSON.parse(await file.text());
+  } catch {
+    throw new Error("This is not a valid style file.");
+  }
+  if (parsed?.app !== 'rhythmloop' || parsed.kind !== 'styles' || !Array.isArray(parsed.presets)) {
+    throw new Error("This is not a RhythmLoop style file.");
+  }
+  if ((parsed.version ?? 0) > STYLE_FILE_VERSION) {
+    throw new Error("This style file was saved by a newer version of RhythmLoop.");
+  }
+
+  const now = Date.now();
+  return parsed.presets
+    .filter(p => p && text(p.name).trim() && text(p.promptModifier).trim())
+    .map((p, i): StylePreset => ({
+      id: text(p.id) && isCustomStyle(p.id) ? p.id : createStyleId(),
+      name: text(p.name).trim(),
+      description: text(p.description),
+      promptModifier: text(p.promptModifier),
+      thumbnail: text(p.thumbnail),
+      effects: readEffects(p.effects),
+      intensity: typeof p.intensity === 'number' ? Math.round(clamp01(p.intensity / 100) * 100) : undefined,
+      referenceImage: text(p.referenceImage) || undefined,
+      updatedAt: now + i,
+    }));
+};
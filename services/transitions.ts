@@ -0,0 +1,266 @@
+import { EasingType, PoseTransitionMode } from '../types';
+
+// Transition engine between consecutive poses. The sequencer reports how far
+// into a pose change the playhead is (see poseBlendAt in renderer.ts); this
+// module eases that position and draws the in-between image:
+//   crossfade   - timed dissolve
+//   morph       - mesh warp along a block-matching flow field, both frames
+//                 meet halfway while dissolving
+//   motionBlur  - the new pose smears in from the side and settles on the beat
+
+export const EASING_FUNCTIONS: Record<EasingType, (t: number) => number> = {
+  linear: t => t,
+  easeIn: t => t * t * t,
+  easeOut: t => 1 - Math.pow(1 - t, 3),
+  easeInOut: t => (t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2),
+};
+
+export interface PoseBlend {
+  from: HTMLImageElement;
+  amount: number; // Eased 0-1, 1 = fully on the new pose
+  mode: PoseTransitionMode;
+  direction: number; // 1 or -1, side the motion blur comes from
+}
+
+// --- FLOW FIELD ---
+
+const FLOW_SIZE = 64; // Grayscale working size
+const MESH_CELLS = 8; // Mesh resolution per side
+const PATCH_RADIUS = 4;
+const SEARCH_RADIUS = 6;
+
+interface FlowField {
+  // Per mesh node, normalized displacement (0-1 of the image) from `from` to `to`
+  dx: Float32Array;
+  dy: Float32Array;
+}
+
+const flowCache = new WeakMap<HTMLImageElement, WeakMap<HTMLImageElement, FlowField>>();
+let flowCanvas: HTMLCanvasElement | null = null;
+
+const grayscale = (img: HTMLImageElement): Float32Array => {
+  if (!flowCanvas) {
+    flowCanvas = document.createElement('canvas');
+    flowCanvas.width = FLOW_SIZE;
+    flowCanvas.height = FLOW_SIZE;
+  }
+  const ctx = flowCanvas.getContext('2d', { willReadFrequently: true })!;
+  ctx.clearRect(0, 0, FLOW_SIZE, FLOW_SIZE);
+  ctx.drawImage(img, 0, 0, FLOW_SIZE, FLOW_SIZE);
+  const data = ctx.getImageData(0, 0, FLOW_SIZE, FLOW_SIZE).data;
+  const gray = new Float32Array(FLOW_SIZE * FLOW_SIZE);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = data[i * 4] * 0.299 + data[i * 4 + 1] * 0.587 + data[i * 4 + 2] * 0.114;
+  }
+  return gray;
+};
+
+/**
+ * Block matching at every mesh node, then one smoothing pass. Border nodes
+ * stay put so the frame edges do not tear.
+ */
+const computeFlow = (from: HTMLImageElement, to: HTMLImageElement): FlowField => {
+  const a = grayscale(from);
+  const b = grayscale(to);
+  const nodes = MESH_CELLS + 1;
+  const rawX = new Float32Array(nodes * nodes);
+  const rawY = new Float32Array(nodes * nodes);
+  const at = (img: Float32Array, x: number, y: number) =>
+    img[Math.min(FLOW_SIZE - 1, Math.max(0, y)) * FLOW_SIZE + Math.min(FLOW_SIZE - 1, Math.max(0, x))];
+
+  for (let ny = 1; ny < nodes - 1; ny++) {
+    for (let nx = 1; nx < nodes - 1; nx++) {
+      const cx = Math.round((nx / MESH_CELLS) * (FLOW_SIZE - 1));
+      const cy = Math.round((ny / MESH_CELLS) * (FLOW_SIZE - 1));
+      let best = Infinity;
+      let bestX = 0;
+      let bestY = 0;
+      for (let sy = -SEARCH_RADIUS; sy <= SEARCH_RADIUS; sy++) {
+        for (let sx = -SEARCH_RADIUS; sx <= SEARCH_RADIUS; sx++) {
+          let sad = 0;
+          for (let py = -PATCH_RADIUS; py <= PATCH_RADIUS; py++) {
+            for (let px = -PATCH_RADIUS; px <= PATCH_RADIUS; px++) {
+              sad += Math.abs(at(a, cx + px, cy + py) - at(b, cx + px + sx, cy + py + sy));
+            }
+          }
+          // Slight bias toward no motion, flat areas match everywhere
+          sad += (Math.abs(sx) + Math.abs(sy)) * 2;
+          if (sad < best) {
+            best = sad;
+            bestX = sx;
+            bestY = sy;
+          }
+        }
+      }
+      rawX[ny * nodes + nx] = bestX / FLOW_SIZE;
+      rawY[ny * nodes + nx] = bestY / FLOW_SIZE;
+    }
+  }
+
+  const dx = new Float32Array(nodes * nodes);
+  const dy = new Float32Array(nodes * nodes);
+  for (let ny = 1; ny < nodes - 1; ny++) {
+    for (let nx = 1; nx < nodes - 1; nx++) {
+      let sumX = 0;
+      let sumY = 0;
+      for (let oy = -1; oy <= 1; oy++) {
+        for (let ox = -1; ox <= 1; ox++) {
+          sumX += rawX[(ny + oy) * nodes + nx + ox];
+          sumY += rawY[(ny + oy) * nodes + nx + ox];
+        }
+      }
+      dx[ny * nodes + nx] = sumX / 9;
+      dy[ny * nodes + nx] = sumY / 9;
+    }
+  }
+  return { dx, dy };
+};
+
+const flowBetween = (from: HTMLImageElement, to: HTMLImageElement): FlowField => {
+  let inner = flowCache.get(from);
+  if (!inner) {
+    inner = new WeakMap();
+    flowCache.set(from, inner);
+  }
+  let flow = inner.get(to);
+  if (!flow) {
+    flow = computeFlow(from, to);
+    inner.set(to, flow);
+  }
+  return flow;
+};
+
+// --- DRAWING ---
+
+type Point = [number, number];
+
+/**
+ * Draws the image part inside source triangle `s` (image pixels) onto
+ * destination triangle `d` (current canvas coordinates) with an affine map.
+ */
+const drawTriangle = (ctx: CanvasRenderingContext2D, img: HTMLImageElement, s: Point[], d: Point[]) => {
+  const [s0, s1, s2] = s;
+  const [d0, d1, d2] = d;
+  const sx1 = s1[0] - s0[0], sy1 = s1[1] - s0[1];
+  const sx2 = s2[0] - s0[0], sy2 = s2[1] - s0[1];
+  const det = sx1 * sy2 - sx2 * sy1;
+  if (Math.abs(det) < 1e-9) return;
+
+  const dx1 = d1[0] - d0[0], dy1 = d1[1] - d0[1];
+  const dx2 = d2[0] - d0[0], dy2 = d2[1] - d0[1];
+  // A = D * S^-1
+  const a = (dx1 * sy2 - dx2 * sy1) / det;
+  const b = (dy1 * sy2 - dy2 * sy1) / det;
+  const c = (dx2 * sx1 - dx1 * sx2) / det;
+  const dd = (dy2 * sx1 - dy1 * sx2) / det;
+  const e = d0[0] - a * s0[0] - c * s0[1];
+  const f = d0[1] - b * s0[0] - dd * s0[1];
+
+  // Grow the clip a little around the centroid to hide antialiasing seams
+  const cx = (d0[0] + d1[0] + d2[0]) / 3;
+  const cy = (d0[1] + d1[1] + d2[1]) / 3;
+  const grow = (p: Point): Point => {
+    const len = Math.hypot(p[0] - cx, p[1] - cy) || 1;
+    return [p[0] + (p[0] - cx) / len * 0.75, p[1] + (p[1] - cy) / len * 0.75];
+  };
+
+  ctx.save();
+  ctx.beginPath();
+  const [g0, g1, g2] = [grow(d0), grow(d1), grow(d2)];
+  ctx.moveTo(g0[0], g0[1]);
+  ctx.lineTo(g1[0], g1[1]);
+  ctx.lineTo(g2[0], g2[1]);
+  ctx.closePath();
+  ctx.clip();
+  ctx.transform(a, b, c, dd, e, f);
+  ctx.drawImage(img, 0, 0);
+  ctx.restore();
+};
+
+/**
+ * Warps `img` so the mesh node sampled at `source(node)` lands on `target(node)`.
+ * Both callbacks return normalized 0-1 coordinates.
+ */
+const drawMesh = (
+  ctx: CanvasRenderingContext2D,
+  img: HTMLImageElement,
+  x: number, y: number, w: number, h: number,
+  source: (i: number, nx: number, ny: number) => Point,
+  target: (i: number, nx: number, ny: number) => Point
+) => {
+  const nodes = MESH_CELLS + 1;
+  const src: Point[] = [];
+  const dst: Point[] = [];
+  for (let ny = 0; ny < nodes; ny++) {
+    for (let nx = 0; nx < nodes; nx++) {
+      const i = ny * nodes + nx;
+      const [su, sv] = source(i, nx / MESH_CELLS, ny / MESH_CELLS);
+      const [tu, tv] = target(i, nx / MESH_CELLS, ny / MESH_CELLS);
+      src.push([su * img.width, sv * img.height]);
+      dst.push([x + tu * w, y + tv * h]);
+    }
+  }
+  for (let ny = 0; ny < MESH_CELLS; ny++) {
+    for (let nx = 0; nx < MESH_CELLS; nx++) {
+      const i00 = ny * nodes + nx;
+      const i10 = i00 + 1;
+      const i01 = i00 + nodes;
+      const i11 = i01 + 1;
+      drawTriangle(ctx, img, [src[i00], src[i10], src[i11]], [dst[i00], dst[i10], dst[i11]]);
+      drawTriangle(ctx, img, [src[i00], src[i11], src[i01]], [dst[i00], dst[i11], dst[i01]]);
+    }
+  }
+};
+
+const MOTION_BLUR_SAMPLES = 6;
+const MOTION_BLUR_SPREAD = 0.06; // Fraction of the draw width at the start of the change
+
+/**
+ * Draws the current pose into the given rect, blended with the previous one
+ * while a transition is running. Uses the caller's transform.
+ */
+export const drawPoseImage = (
+  ctx: CanvasRenderingContext2D,
+  img: HTMLImageElement,
+  blend: PoseBlend | undefined,
+  x: number, y: number, w: number, h: number
+) => {
+  if (!blend || blend.amount >= 1 || blend.mode === 'cut' || blend.from === img) {
+    ctx.drawImage(img, x, y, w, h);
+    return;
+  }
+
+  const t = Math.max(0, blend.amount);
+  const alpha = ctx.globalAlpha;
+
+  switch (blend.mode) {
+    case 'crossfade': {
+      ctx.drawImage(blend.from, x, y, w, h);
+      ctx.globalAlpha = alpha * t;
+      ctx.drawImage(img, x, y, w, h);
+      break;
+    }
+    case 'morph': {
+      const flow = flowBetween(blend.from, img);
+      // Intermediate mesh: each node moved t of the way along the flow
+      const midpoint = (i: number, u: number, v: number): Point => [u + flow.dx[i] * t, v + flow.dy[i] * t];
+      drawMesh(ctx, blend.from, x, y, w, h, (_, u, v) => [u, v], midpoint);
+      ctx.globalAlpha = alpha * t;
+      drawMesh(ctx, img, x, y, w, h, (i, u, v) => [u + flow.dx[i], v + flow.dy[i]], midpoint);
+      break;
+    }
+    case 'motionBlur': {
+      ctx.drawImage(blend.from, x, y, w, h);
+      // Trail of fading copies behind the incoming pose, collapsing as it lands
+      const spread = w * MOTION_BLUR_SPREAD * (1 - t) * blend.direction;
+      for (let k = MOTION_BLUR_SAMPLES - 1; k >= 1; k--) {
+        ctx.globalAlpha = alpha * t * 0.35 * (1 - k / MOTION_BLUR_SAMPLES);
+        ctx.drawImage(img, x + spread * (k / (MOTION_BLUR_SAMPLES - 1)), y, w, h);
+      }
+      ctx.globalAlpha = alpha * t;
+      ctx.drawImage(img, x, y, w, h);
+      break;
+    }
+  }
+  ctx.globalAlpha = alpha;
+};
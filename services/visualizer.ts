@@ -0,0 +1,204 @@
+import { FrequencyScale, VisualizerPosition, VisualizerSettings } from '../types';
+import { ANALYSIS_SAMPLE_RATE, FFT_SIZE } from './audioAnalysis';
+
+// Audio visualizers drawn by drawScene over the subject. Each style reads the
+// byte spectrum (and the waveform for the scope) of the current frame, so the
+// preview analyser and the offline export draw alike.
+
+const MIN_HZ = 30;
+const MAX_HZ = 16000;
+const MARGIN = 0.01; // Fraction of the frame height kept free at the edge
+const PARTICLE_LIFETIME = 1200; // ms
+const PARTICLE_GRAVITY = 0.4; // Frame heights per second²
+
+interface Particle {
+  x: number; // px
+  y: number;
+  vx: number; // px per second
+  vy: number;
+  life: number; // 1 at birth, 0 when gone
+  size: number; // 0-1
+}
+
+export interface VisualizerState {
+  particles: Particle[];
+}
+
+export const createVisualizerState = (): VisualizerState => ({ particles: [] });
+
+export interface VisualizerFrame {
+  spectrum: Uint8Array;
+  waveform: Uint8Array | null;
+  sampleRate: number; // Of the context the spectrum was taken in
+  beat: boolean; // A beat falls on this frame, bursts particles
+  deltaTime: number; // ms
+}
+
+const toMel = (hz: number) => 2595 * Math.log10(1 + hz / 700);
+const fromMel = (mel: number) => 700 * (Math.pow(10, mel / 2595) - 1);
+
+// Frequency at position t (0-1) along the bars
+const frequencyAt = (t: number, scale: FrequencyScale): number => {
+  switch (scale) {
+    case 'linear': return MIN_HZ + (MAX_HZ - MIN_HZ) * t;
+    case 'mel': return fromMel(toMel(MIN_HZ) + (toMel(MAX_HZ) - toMel(MIN_HZ)) * t);
+    case 'log':
+    default: return MIN_HZ * Math.pow(MAX_HZ / MIN_HZ, t);
+  }
+};
+
+/**
+ * Levels (0-1) of `count` bars from low to high, the loudest bin of each band.
+ * Bins are `sampleRate / FFT_SIZE` wide, ~23Hz at 48kHz.
+ */
+export const barLevels = (spectrum: Uint8Array, count: number, scale: FrequencyScale, sampleRate = ANALYSIS_SAMPLE_RATE): number[] => {
+  const binHz = sampleRate / FFT_SIZE;
+  return Array.from({ length: count }, (_, i) => {
+    const from = Math.min(spectrum.length - 1, Math.floor(frequencyAt(i / count, scale) / binHz));
+    const to = Math.min(spectrum.length, Math.max(from + 1, Math.ceil(frequencyAt((i + 1) / count, scale) / binHz)));
+    let peak = 0;
+    for (let k = from; k < to; k++) peak = Math.max(peak, spectrum[k]);
+    return peak / 255;
+  });
+};
+
+// Vertical anchor of the style: the edge line for bars, the center otherwise
+const anchorY = (position: VisualizerPosition, height: number, extent: number) => {
+  switch (position) {
+    case 'top': return height * MARGIN + extent;
+    case 'center': return height / 2;
+    case 'bottom':
+    default: return height * (1 - MARGIN) - extent;
+  }
+};
+
+const drawBars = (ctx: CanvasRenderingContext2D, width: number, height: number, settings: VisualizerSettings, levels: number[]) => {
+  const barWidth = width / levels.length / 2; // Split left/right
+  const center = width / 2;
+  const maxH = height * settings.size;
+
+  ctx.beginPath();
+  levels.forEach((level, i) => {
+    const barH = level * maxH;
+    const y = settings.position === 'top' ? height * MARGIN
+      : settings.position === 'center' ? height / 2 - barH / 2
+      : height * (1 - MARGIN) - barH;
+    ctx.rect(center + i * barWidth, y, barWidth - 1, barH);
+    ctx.rect(center - (i + 1) * barWidth, y, barWidth - 1, barH);
+  });
+  ctx.fill();
+};
+
+const drawRadial = (ctx: CanvasRenderingContext2D, width: number, height: number, settings: VisualizerSettings, levels: number[]) => {
+  const radius = Math.min(width, height) * 0.15;
+  const maxLength = height * settings.size * 0.6;
+  const cx = width / 2;
+  const cy = anchorY(settings.position, height, radius + maxLength);
+
+  // Mirrored around the vertical axis, lows at the top
+  ctx.lineWidth = Math.max(1, ((Math.PI * radius) / levels.length) * 0.6);
+  ctx.lineCap = 'round';
+  ctx.beginPath();
+  levels.forEach((level, i) => {
+    const offset = ((i + 0.5) / levels.length) * Math.PI;
+    for (const angle of [-Math.PI / 2 + offset, -Math.PI / 2 - offset]) {
+      const cos = Math.cos(angle);
+      const sin = Math.sin(angle);
+      const length = Math.max(1, level * maxLength);
+      ctx.moveTo(cx + cos * radius, cy + sin * radius);
+      ctx.lineTo(cx + cos * (radius + length), cy + sin * (radius + length));
+    }
+  });
+  ctx.stroke();
+};
+
+const drawScope = (ctx: CanvasRenderingContext2D, width: number, height: number, settings: VisualizerSettings, waveform: Uint8Array) => {
+  const amplitude = (height * settings.size) / 2;
+  const cy = anchorY(settings.position, height, amplitude);
+  const points = Math.min(waveform.length, Math.ceil(width / 2));
+
+  ctx.lineWidth = Math.max(1.5, height * 0.004);
+  ctx.lineJoin = 'round';
+  ctx.beginPath();
+  for (let i = 0; i < points; i++) {
+    const sample = (waveform[Math.floor((i / (points - 1)) * (waveform.length - 1))] - 128) / 128;
+    const x = (i / (points - 1)) * width;
+    const y = cy + sample * amplitude;
+    if (i === 0) ctx.moveTo(x, y);
+    else ctx.lineTo(x, y);
+  }
+  ctx.stroke();
+};
+
+const drawParticles = (
+  ctx: CanvasRenderingContext2D,
+  width: number,
+  height: number,
+  settings: VisualizerSettings,
+  levels: number[],
+  frame: VisualizerFrame,
+  state: VisualizerState,
+  rng: () => number
+) => {
+  const cx = width / 2;
+  const cy = anchorY(settings.position, height, 0);
+
+  if (frame.beat) {
+    // One particle per bar: upward from the bottom, downward from the top, all around from the center
+    const speed = height * settings.size * 2;
+    const spread = settings.position === 'center' ? Math.PI * 2 : Math.PI;
+    const base = settings.position === 'bottom' ? Math.PI : 0;
+    for (const level of levels) {
+      const angle = base + rng() * spread;
+      const velocity = speed * (0.3 + level * 0.7) * (0.5 + rng() * 0.5);
+      state.particles.push({ x: cx, y: cy, vx: Math.cos(angle) * velocity, vy: Math.sin(angle) * velocity, life: 1, size: level });
+    }
+  }
+
+  const seconds = frame.deltaTime / 1000;
+  const baseRadius = Math.min(width, height) * 0.012;
+  state.particles = state.particles.filter(p => {
+    p.life -= frame.deltaTime / PARTICLE_LIFETIME;
+    p.x += p.vx * seconds;
+    p.y += p.vy * seconds;
+    p.vy += PARTICLE_GRAVITY * height * seconds;
+    return p.life > 0;
+  });
+
+  const opacity = ctx.globalAlpha;
+  for (const p of state.particles) {
+    ctx.globalAlpha = opacity * p.life;
+    ctx.beginPath();
+    ctx.arc(p.x, p.y, Math.max(1, baseRadius * (0.4 + p.size) * p.life), 0, Math.PI * 2);
+    ctx.fill();
+  }
+};
+
+/**
+ * Draws one frame of the configured visualizer. Particles keep moving in
+ * `state` between frames.
+ */
+export const drawVisualizer = (
+  ctx: CanvasRenderingContext2D,
+  width: number,
+  height: number,
+  settings: VisualizerSettings,
+  frame: VisualizerFrame,
+  state: VisualizerState,
+  rng: () => number
+) => {
+  if (settings.style === 'none') return;
+  const levels = barLevels(frame.spectrum, settings.barCount, settings.scale, frame.sampleRate);
+
+  ctx.save();
+  ctx.globalAlpha = settings.opacity;
+  ctx.fillStyle = settings.color;
+  ctx.strokeStyle = settings.color;
+  switch (settings.style) {
+    case 'bars': drawBars(ctx, width, height, settings, levels); break;
+    case 'radial': drawRadial(ctx, width, height, settings, levels); break;
+    case 'oscilloscope': if (frame.waveform) drawScope(ctx, width, height, settings, frame.waveform); break;
+    case 'particles': drawParticles(ctx, width, height, settings, levels, frame, state, rng); break;
+  }
+  ctx.restore();
+};
@@ -10,15 +10,267 @@ export interface StylePreset {
   name: string;
   description: string;
   promptModifier: string;
-  thumbnail: string;
+  thumbnail: string; // URL or data URL, custom presets use a sample generation
+  effects: PostEffect[]; // Default post-processing stack for playback and export
+  intensity?: number; // Reactivity applied when the preset is picked, 0-100
+  referenceImage?: string; // Data URL of an example of the look
+  updatedAt?: number; // Custom presets only
 }
 
-export type PoseType = 'base' | 'var1' | 'var2' | 'var3';
+// 'base' is the source image, var1..varN are the generated keyframes
+export type PoseType = 'base' | `var${number}`;
+
+// How keyframes are ordered into the playback loop
+export type SequenceOrder = 'pingpong' | 'forward' | 'shuffle';
+
+// Identity check of a generated frame against the base image
+export interface FrameScore {
+  hash: number; // Perceptual hash similarity 0-1
+  histogram: number; // Color histogram intersection 0-1
+  sameSize: boolean; // Exact pixel dimensions match
+  aspectDrift: number; // Relative aspect ratio difference, 0 = identical
+  score: number; // Combined 0-1
+  passed: boolean;
+}
+
+// Placement applied to register a frame onto the base image
+export interface FrameAlignment {
+  scale: number; // Relative to a cover fit of the base canvas
+  dx: number; // Base image pixels
+  dy: number;
+}
+
+// What to do with frames that fail the identity check
+export type QaMode = 'off' | 'flag' | 'regenerate';
 
 export interface GeneratedFrame {
   url: string;
   pose: PoseType;
   promptUsed?: string; // Debug/Display info
+  qa?: FrameScore; // Missing for the base frame and unchecked frames
+  alignment?: FrameAlignment; // Set once the image was registered onto the base
+  maskUrl?: string; // Subject mask (white = subject), set once the frame was segmented
+}
+
+// Where subject masks come from: a local ONNX model or the frame generator
+export type SegmentationSource = 'off' | 'local' | 'provider';
+
+// What the background layer does while the subject dances
+export type BackgroundEffect = 'static' | 'parallax' | 'colorPulse';
+
+// One keyframe of the AI Director's plan, reviewed by the user before rendering
+export interface PlannedMove {
+  pose: PoseType;
+  prompt: string;
+}
+
+export type FrameJobStatus = 'pending' | 'rendering' | 'retrying' | 'done' | 'failed' | 'cancelled';
+
+// Render state of one planned keyframe
+export interface FrameJob {
+  pose: PoseType;
+  prompt: string;
+  status: FrameJobStatus;
+  attempt: number;
+  error?: string;
+}
+
+// Progress reported by the generation pipeline
+export type GenerationEvent =
+  | { type: 'planning' }
+  | { type: 'planned'; total: number }
+  | { type: 'frame-started'; pose: PoseType; attempt: number }
+  | { type: 'frame-retry'; pose: PoseType; attempt: number; delayMs: number; error: string }
+  | { type: 'frame-rejected'; pose: PoseType; attempt: number; score: FrameScore }
+  | { type: 'frame-rendered'; pose: PoseType; completed: number; total: number }
+  | { type: 'frame-failed'; pose: PoseType; error: string }
+  | { type: 'frame-cancelled'; pose: PoseType };
+
+// One generation pass: a full run or a single regenerated pose
+export interface GenerationRun {
+  id: string;
+  createdAt: number;
+  kind: 'full' | 'frame';
+  generatorId: string;
+  frames: GeneratedFrame[];
+}
+
+// Grid step that pose changes snap to
+export type BeatDivision = 'half' | 'beat' | 'bar';
+
+export interface TrackAnalysis {
+  duration: number; // seconds
+  bpm: number;
+  beatPeriod: number; // seconds
+  beats: number[]; // seconds
+  downbeats: number[]; // seconds, first beat of each bar
+  onsets: number[]; // seconds
+  waveform: number[]; // Peak amplitude 0-1, WAVEFORM_RATE buckets per second
+}
+
+// Part of the track used for preview looping and export
+export interface AudioRegion {
+  start: number; // seconds, on a downbeat
+  end: number; // seconds, on a downbeat
+  fadeIn: number; // seconds, 0 = off
+  fadeOut: number; // seconds, 0 = off
+}
+
+// Where the preview takes its audio from
+export type AudioSourceMode = 'file' | 'live';
+
+export interface LiveInputSettings {
+  deviceId: string; // '' = browser default input
+  latency: number; // ms from the sound in the room to the analyser, compensated in beat detection
+}
+
+// How a timeline segment starts
+export type TransitionType = 'cut' | 'flash';
+
+// A pose placed on the timeline. It holds until the next cue.
+export interface ChoreographyCue {
+  id: string;
+  time: number; // seconds, snapped to the beat grid
+  pose: PoseType;
+  transition: TransitionType;
+}
+
+// How the image changes between two consecutive poses
+export type PoseTransitionMode = 'cut' | 'crossfade' | 'morph' | 'motionBlur';
+
+export type EasingType = 'linear' | 'easeIn' | 'easeOut' | 'easeInOut';
+
+export interface PoseTransitionSettings {
+  mode: PoseTransitionMode;
+  beats: number; // Length in beats, follows the tempo
+  easing: EasingType;
+}
+
+// Audio feature that drives a modulation routing
+export type ModSource = 'sub' | 'bass' | 'mids' | 'highs' | 'rms' | 'onset' | 'beatPhase';
+
+// Visual parameter a routing drives
+export type ModTarget = 'scale' | 'rotation' | 'shake' | 'flash' | 'hue' | 'blur' | 'poseAdvance';
+
+// Response curve applied to the smoothed source level
+export type ModCurve = 'linear' | 'exponential' | 'logarithmic' | 'gate';
+
+// One row of the modulation matrix. Routings to the same target add up.
+export interface ModRouting {
+  id: string;
+  source: ModSource;
+  target: ModTarget;
+  amount: number; // -1 to 1, scaled by the target's range
+  smoothing: number; // 0 (instant) to 0.95, decay per 60fps frame
+  curve: ModCurve;
+}
+
+// Extra subject in the scene (logo, mascot, backdrop) with its own pose set.
+// The main subject sits at z 0.
+export interface SceneLayer {
+  id: string;
+  name: string;
+  imageUrl: string; // Source image, data URL
+  frames: GeneratedFrame[]; // Generated pose set, base first. Empty = the source image only
+  x: number; // Center, 0-1 of the frame width
+  y: number; // Center, 0-1 of the frame height
+  scale: number; // Fraction of the size that fits the frame
+  z: number; // Draw order, negative = behind the main subject
+  band: ModSource; // Hits on this band change the pose, its level drives the thump
+  reactivity: number; // 0-1, thump strength
+  cutout: boolean; // Segment generated frames so the layer has no backdrop
+  visible: boolean;
+}
+
+export type OverlayAnimation = 'none' | 'pop' | 'shake' | 'glow';
+
+export interface OverlayLine {
+  start: number; // Track seconds
+  end: number | null; // Track seconds, null = stays up
+  text: string;
+}
+
+// Text drawn over the finished frame: a title, the artist name or timed
+// lyrics. Style and placement are shared by all lines of the overlay.
+export interface TextOverlay {
+  id: string;
+  name: string;
+  lines: OverlayLine[]; // May overlap, all active lines are drawn
+  font: string; // OVERLAY_FONTS id
+  size: number; // Line height, fraction of the frame height
+  color: string; // CSS color
+  x: number; // Center, 0-1 of the frame width
+  y: number; // Center, 0-1 of the frame height
+  animation: OverlayAnimation;
+  band: ModSource; // Drives the animation
+  amount: number; // 0-1
+  visible: boolean;
+}
+
+export type VisualizerStyle = 'bars' | 'radial' | 'oscilloscope' | 'particles' | 'none';
+export type FrequencyScale = 'linear' | 'log' | 'mel';
+export type VisualizerPosition = 'top' | 'center' | 'bottom';
+
+// Audio visualizer drawn over the subject, see services/visualizer.ts
+export interface VisualizerSettings {
+  style: VisualizerStyle;
+  color: string; // CSS color
+  opacity: number; // 0-1
+  position: VisualizerPosition;
+  size: number; // Fraction of the frame height
+  barCount: number; // Per side for mirrored styles, particles per burst
+  scale: FrequencyScale; // How bars map to frequencies
+}
+
+// WebGL pass applied to the finished frame, see services/postFx.ts
+export type PostEffectType = 'bloom' | 'chromaticAberration' | 'rgbSplit' | 'vhs' | 'datamosh' | 'kaleidoscope';
+
+export interface PostEffect {
+  type: PostEffectType;
+  amount: number; // 0-1, strength at silence
+  source: ModSource; // Audio feature that pushes the strength up
+  reactivity: number; // 0-1, added strength at a full source level
+}
+
+export type ExportFormat = 'mp4' | 'webm' | 'gif' | 'apng';
+
+export interface ExportFormatInfo {
+  id: ExportFormat;
+  name: string;
+  extension: string;
+  mimeType: string;
+  kind: 'video' | 'animation'; // animation = silent looping image of the pose sequence
+}
+
+export type OutputPresetId = 'vertical' | 'square' | 'landscape' | 'uhd';
+
+// How frames that do not match the output aspect are placed:
+// fit letterboxes, fill blurs the frame into the bars, crop covers and cuts the edges
+export type FramingMode = 'fit' | 'fill' | 'crop';
+
+export interface SafeArea {
+  top: number; // Fractions of the frame covered by platform UI
+  right: number;
+  bottom: number;
+  left: number;
+}
+
+export interface OutputPreset {
+  id: OutputPresetId;
+  name: string;
+  description: string;
+  width: number;
+  height: number;
+  aspectRatio: string; // As the image model expects it, e.g. '9:16'
+  safeArea: SafeArea;
+}
+
+export interface ExportSettings {
+  width: number;
+  height: number;
+  fps: number;
+  videoBitrate: number; // bits/s, video formats only
+  colors: number; // palette size, animation formats only (0 = lossless)
 }
 
 export interface AppState {
@@ -27,26 +279,139 @@ export interface AppState {
   imagePreviewUrl: string | null;
   audioFile: File | null;
   audioPreviewUrl: string | null;
+  audioAnalysis: TrackAnalysis | null;
+  isAnalyzingAudio: boolean;
+  audioRegion: AudioRegion | null; // null = the first `duration` seconds
+  audioSource: AudioSourceMode;
+  liveInput: LiveInputSettings;
   selectedStyleId: string;
+  styleReferenceFile: File | null; // Artwork or brand sheet the frames should match
+  styleReferenceUrl: string | null; // Data URL, sent to the generator
   motionPrompt: string; // New: User defined motion
+  generatorId: string; // Frame generator provider
+  qaMode: QaMode;
+  alignFrames: boolean; // Register generated frames onto the base before playback
+  keyframeCount: number; // Including base, 2-16
+  sequenceOrder: SequenceOrder;
+  beatDivision: BeatDivision;
+  choreography: ChoreographyCue[]; // Sorted by time. Empty = automatic sequence on the beat grid
+  poseTransition: PoseTransitionSettings;
+  segmentation: SegmentationSource; // Split subject from background, 'off' draws flat frames
+  backgroundEffect: BackgroundEffect;
+  backgroundFile: File | null; // Replacement image or video behind the subject
+  backgroundPreviewUrl: string | null;
+  isSegmenting: boolean;
+  modulation: ModRouting[]; // Audio-reactive matrix applied by drawScene
+  postEffects: boolean; // Run the selected style's effect stack
+  customStyles: StylePreset[]; // User presets from the local style library
+  layers: SceneLayer[]; // Composited with the main subject, any order
+  generatingLayerId: string | null; // Layer whose poses are being generated
+  overlays: TextOverlay[]; // Drawn in list order, last on top
+  visualizer: VisualizerSettings;
   intensity: number; // 0-100
   duration: number; // seconds
-  generatedFrames: GeneratedFrame[]; 
+  generatedFrames: GeneratedFrame[]; // Active set, can mix frames from different runs
+  generationHistory: GenerationRun[]; // Oldest first
+  directorPlan: PlannedMove[] | null; // Plan awaiting approval, null once rendered
+  isPlanning: boolean;
+  frameJobs: FrameJob[]; // Status of the latest render, kept to show failures
   isGenerating: boolean;
   credits: number;
+  outputPreset: OutputPresetId;
+  framing: FramingMode;
+  exportFormat: ExportFormat;
+  exportSettings: Record<ExportFormat, ExportSettings>;
 }
 
+// Settings that travel with a saved project (everything except assets and UI status)
+export const PROJECT_CONFIG_KEYS = [
+  'selectedStyleId',
+  'motionPrompt',
+  'generatorId',
+  'qaMode',
+  'alignFrames',
+  'keyframeCount',
+  'sequenceOrder',
+  'beatDivision',
+  'choreography',
+  'poseTransition',
+  'segmentation',
+  'backgroundEffect',
+  'modulation',
+  'postEffects',
+  'overlays',
+  'visualizer',
+  'intensity',
+  'duration',
+  'audioRegion',
+  'audioSource',
+  'liveInput',
+  'outputPreset',
+  'framing',
+  'exportFormat',
+  'exportSettings',
+  'audioAnalysis',
+  'directorPlan',
+] as const;
+
+export type ProjectConfig = Pick<AppState, typeof PROJECT_CONFIG_KEYS[number]>;
+
 export const DEFAULT_STATE: AppState = {
   step: AppStep.UPLOAD_IMAGE,
   imageFile: null,
   imagePreviewUrl: null,
   audioFile: null,
   audioPreviewUrl: null,
+  audioAnalysis: null,
+  isAnalyzingAudio: false,
+  audioRegion: null,
+  audioSource: 'file',
+  liveInput: { deviceId: '', latency: 80 },
   selectedStyleId: 'neon-cyber',
+  styleReferenceFile: null,
+  styleReferenceUrl: null,
   motionPrompt: 'Head bobbing to the beat, rhythmic motion', // Default prompt
+  generatorId: 'gemini',
+  qaMode: 'regenerate',
+  alignFrames: true,
+  keyframeCount: 4,
+  sequenceOrder: 'pingpong',
+  beatDivision: 'beat',
+  choreography: [],
+  poseTransition: { mode: 'crossfade', beats: 0.25, easing: 'easeOut' },
+  segmentation: 'off',
+  backgroundEffect: 'static',
+  backgroundFile: null,
+  backgroundPreviewUrl: null,
+  isSegmenting: false,
+  // Matches the original fixed reactions: 5% bass thump, shake on hard kicks, slight bass rotation
+  modulation: [
+    { id: 'mod-scale', source: 'bass', target: 'scale', amount: 0.5, smoothing: 0, curve: 'linear' },
+    { id: 'mod-shake', source: 'bass', target: 'shake', amount: 0.5, smoothing: 0, curve: 'gate' },
+    { id: 'mod-rotation', source: 'bass', target: 'rotation', amount: 0.5, smoothing: 0, curve: 'linear' },
+  ],
+  postEffects: true,
+  customStyles: [],
+  layers: [],
+  generatingLayerId: null,
+  overlays: [],
+  visualizer: { style: 'bars', color: '#ffffff', opacity: 0.5, position: 'bottom', size: 0.25, barCount: 32, scale: 'log' },
   intensity: 50,
   duration: 10,
   generatedFrames: [],
+  generationHistory: [],
+  directorPlan: null,
+  isPlanning: false,
+  frameJobs: [],
   isGenerating: false,
   credits: 100,
+  outputPreset: 'landscape',
+  framing: 'fit',
+  exportFormat: 'mp4',
+  exportSettings: {
+    mp4: { width: 1280, height: 720, fps: 30, videoBitrate: 5000000, colors: 0 },
+    webm: { width: 1280, height: 720, fps: 30, videoBitrate: 5000000, colors: 0 },
+    gif: { width: 480, height: 270, fps: 15, videoBitrate: 0, colors: 128 },
+    apng: { width: 480, height: 270, fps: 15, videoBitrate: 0, colors: 256 },
+  },
 };
\ No newline at end of file